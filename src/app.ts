@@ -4,6 +4,21 @@ import cookieParser from "cookie-parser";
 
 const app = express();
 
+// Behind a reverse proxy, trust X-Forwarded-For so req.ip is the client address
+// (used for per-IP login throttling and security events)
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+  if (trustProxy === "true") {
+    app.set("trust proxy", true);
+  } else if (/^\d+$/.test(trustProxy)) {
+    // Number of proxy hops
+    app.set("trust proxy", parseInt(trustProxy, 10));
+  } else {
+    // Comma-separated addresses/subnets
+    app.set("trust proxy", trustProxy);
+  }
+}
+
 // CORS configuration - allow credentials for cookies
 const allowedOrigins = [
   process.env.FRONTEND_URL,
@@ -33,7 +48,9 @@ app.use(
     },
     credentials: true,
     methods: ["GET", "POST", "PUT", "PATCH", "DELETE", "OPTIONS"],
-    allowedHeaders: ["Content-Type", "Authorization"],
+    allowedHeaders: ["Content-Type", "Authorization", "If-Match"],
+    // Lets browser clients read issue and comment versions for If-Match, and download filenames
+    exposedHeaders: ["ETag", "Content-Disposition"],
   })
 );
 
@@ -67,6 +84,14 @@ import userRoutes from "./routes/user.routes";
 import issueRoutes from "./routes/issue.routes";
 import commentRoutes from "./routes/comment.routes";
 import notificationRoutes from "./routes/notification.routes";
+import tokenRoutes from "./routes/token.routes";
+import securityEventRoutes from "./routes/securityEvent.routes";
+import labelRoutes from "./routes/label.routes";
+import projectRoutes from "./routes/project.routes";
+import workflowRoutes from "./routes/workflow.routes";
+import savedViewRoutes from "./routes/savedView.routes";
+import attachmentRoutes from "./routes/attachment.routes";
+import workLogRoutes from "./routes/workLog.routes";
 
 // Routes
 app.use("/api/auth", authRoutes);
@@ -74,5 +99,13 @@ app.use("/api/users", userRoutes);
 app.use("/api/issues", issueRoutes);
 app.use("/api/comments", commentRoutes);
 app.use("/api/notifications", notificationRoutes);
+app.use("/api/tokens", tokenRoutes);
+app.use("/api/security-events", securityEventRoutes);
+app.use("/api/labels", labelRoutes);
+app.use("/api/projects", projectRoutes);
+app.use("/api/workflows", workflowRoutes);
+app.use("/api/views", savedViewRoutes);
+app.use("/api/attachments", attachmentRoutes);
+app.use("/api/worklogs", workLogRoutes);
 
 export default app;
@@ -0,0 +1,35 @@
+import { readPositiveInt } from "../utils/env";
+
+// Where uploaded files are kept: "local" writes them under ATTACHMENT_DIR
+export const ATTACHMENT_STORAGE = process.env.ATTACHMENT_STORAGE || "local";
+
+export const ATTACHMENT_DIR = process.env.ATTACHMENT_DIR || "uploads";
+
+// Largest file that can be uploaded
+export const MAX_ATTACHMENT_SIZE_MB = readPositiveInt("MAX_ATTACHMENT_SIZE_MB", 10);
+export const MAX_ATTACHMENT_SIZE = MAX_ATTACHMENT_SIZE_MB * 1024 * 1024;
+
+// Comma-separated MIME types that can be uploaded. HTML and SVG are left out on purpose,
+// since a browser opening them would run their scripts.
+export const ALLOWED_ATTACHMENT_TYPES = (
+  process.env.ATTACHMENT_ALLOWED_TYPES ||
+  [
+    "image/png",
+    "image/jpeg",
+    "image/gif",
+    "image/webp",
+    "application/pdf",
+    "text/plain",
+    "text/csv",
+    "text/markdown",
+    "application/json",
+    "application/zip",
+    "application/gzip",
+  ].join(",")
+)
+  .split(",")
+  .map((type) => type.trim().toLowerCase())
+  .filter(Boolean);
+
+// Upper bound on files attached to one issue, including those on its comments
+export const MAX_ATTACHMENTS_PER_ISSUE = 50;
@@ -0,0 +1,58 @@
+import { Role } from "../models/user.model";
+
+export enum Permission {
+  ISSUES_READ = "issues:read",
+  ISSUES_WRITE = "issues:write",
+  ISSUES_ASSIGN_ANY = "issues:assign_any", // change the assignee of an issue assigned to someone else
+  ISSUES_ARCHIVE_ANY = "issues:archive_any", // archive or restore issues created by someone else
+  ISSUES_PURGE = "issues:purge", // permanently delete archived issues
+  LABELS_MANAGE = "labels:manage", // create, rename, recolor and delete labels
+  PROJECTS_MANAGE = "projects:manage", // create projects, manage members and see every project
+  WORKFLOWS_MANAGE = "workflows:manage", // define statuses and transitions
+  VIEWS_MANAGE_ANY = "views:manage_any", // change or delete other people's shared views
+  COMMENTS_READ = "comments:read",
+  COMMENTS_WRITE = "comments:write",
+  COMMENTS_DELETE_ANY = "comments:delete_any", // delete other people's comments
+  ATTACHMENTS_DELETE_ANY = "attachments:delete_any", // delete files uploaded by someone else
+  WORKLOGS_MANAGE_ANY = "worklogs:manage_any", // edit or delete time logged by someone else
+  USERS_READ = "users:read",
+  USERS_MANAGE = "users:manage",
+  SESSIONS_REVOKE_ANY = "sessions:revoke_any",
+  SECURITY_EVENTS_READ = "security_events:read",
+  NOTIFICATIONS_READ = "notifications:read",
+}
+
+const viewerPermissions: Permission[] = [
+  Permission.ISSUES_READ,
+  Permission.COMMENTS_READ,
+  Permission.USERS_READ,
+  Permission.NOTIFICATIONS_READ,
+];
+
+const memberPermissions: Permission[] = [
+  ...viewerPermissions,
+  Permission.ISSUES_WRITE,
+  Permission.COMMENTS_WRITE,
+];
+
+export const rolePermissions: Record<Role, Permission[]> = {
+  [Role.VIEWER]: viewerPermissions,
+  [Role.MEMBER]: memberPermissions,
+  [Role.ADMIN]: Object.values(Permission),
+};
+
+// Permissions that can be granted to personal access tokens
+export const tokenScopes: Permission[] = [
+  Permission.ISSUES_READ,
+  Permission.ISSUES_WRITE,
+  Permission.COMMENTS_READ,
+  Permission.COMMENTS_WRITE,
+  Permission.NOTIFICATIONS_READ,
+];
+
+export const hasPermission = (role: Role | undefined, permission: Permission): boolean => {
+  if (!role) {
+    return false;
+  }
+  return rolePermissions[role]?.includes(permission) ?? false;
+};
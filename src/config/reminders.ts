@@ -0,0 +1,13 @@
+import { readPositiveInt } from "../utils/env";
+
+// Background job that notifies assignees about issues that are due soon or overdue
+export const DUE_REMINDERS_ENABLED = process.env.DUE_REMINDERS_ENABLED !== "false";
+
+// How often the job runs
+export const DUE_REMINDER_INTERVAL_MINUTES = readPositiveInt("DUE_REMINDER_INTERVAL_MINUTES", 15);
+
+// Issues due within this many hours count as "due soon"
+export const DUE_SOON_HOURS = readPositiveInt("DUE_SOON_HOURS", 24);
+
+// Upper bound on reminders of each kind per run; the rest are picked up by the next run
+export const MAX_REMINDERS_PER_RUN = 500;
@@ -0,0 +1,30 @@
+// Issue and comment text indexes must use the same language, otherwise a query
+// is stemmed differently against each collection and results drift apart
+export const SEARCH_LANGUAGE = process.env.SEARCH_LANGUAGE || "english";
+
+export const issueTextIndex = {
+  fields: { title: "text", description: "text" } as const,
+  options: {
+    name: "issue_text",
+    default_language: SEARCH_LANGUAGE,
+    weights: { title: 5, description: 1 },
+  },
+};
+
+export const commentTextIndex = {
+  fields: { content: "text" } as const,
+  options: {
+    name: "comment_text",
+    default_language: SEARCH_LANGUAGE,
+  },
+};
+
+// A comment match counts for less than the same match in the issue itself
+export const COMMENT_SCORE_WEIGHT = 0.5;
+
+// Upper bound on matches considered per collection before ranking
+export const MAX_SEARCH_CANDIDATES = 1000;
+
+// Longest accepted `q` search text and `query` expression
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+export const MAX_QUERY_LENGTH = 500;
@@ -0,0 +1,15 @@
+import { readPositiveInt } from "../utils/env";
+
+// Working time behind the "d" and "w" units of durations such as "1w 2d 4h"
+export const WORK_HOURS_PER_DAY = readPositiveInt("WORK_HOURS_PER_DAY", 8);
+export const WORK_DAYS_PER_WEEK = readPositiveInt("WORK_DAYS_PER_WEEK", 5);
+
+// Longest stretch of work a single log can record
+export const MAX_WORK_LOG_MINUTES = 24 * 60;
+
+// Largest estimate an issue can have (a year of working days)
+export const MAX_ESTIMATE_MINUTES = 52 * WORK_DAYS_PER_WEEK * WORK_HOURS_PER_DAY * 60;
+
+// Time reports cover the last this many days unless a range is given, and at most a year
+export const DEFAULT_REPORT_DAYS = 30;
+export const MAX_REPORT_DAYS = 366;
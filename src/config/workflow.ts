@@ -0,0 +1,26 @@
+import { Status, StatusCategory } from "../models/issue.model";
+import { WorkflowResponse } from "../types/workflow.types";
+
+const builtInStatuses = [
+  { name: Status.OPEN, category: StatusCategory.OPEN },
+  { name: Status.IN_PROGRESS, category: StatusCategory.IN_PROGRESS },
+  { name: Status.RESOLVED, category: StatusCategory.DONE },
+];
+
+/**
+ * Workflow used by projects that have not been given one. It has the statuses
+ * issues always had and allows every transition, as before workflows existed.
+ */
+export const BUILT_IN_WORKFLOW: WorkflowResponse = {
+  _id: null,
+  name: "Default",
+  description: "Open, In Progress and Resolved with every transition allowed",
+  builtIn: true,
+  statuses: builtInStatuses,
+  initialStatus: Status.OPEN,
+  transitions: builtInStatuses.flatMap((from) =>
+    builtInStatuses
+      .filter((to) => to.name !== from.name)
+      .map((to) => ({ from: from.name, to: to.name, requireComment: false }))
+  ),
+};
@@ -0,0 +1,144 @@
+import { Request, Response } from "express";
+import {
+  addIssueAttachment,
+  addCommentAttachment,
+  getAttachmentContent,
+  deleteAttachment,
+} from "../services/attachment.service";
+import { sendSuccess, sendError } from "../utils/sendResponse";
+import { isValidObjectId } from "../utils/validation";
+import { readMultipartFile } from "../utils/multipart";
+import { MAX_ATTACHMENT_SIZE } from "../config/attachments";
+
+// Helper to map attachment service errors to HTTP status codes
+const handleAttachmentError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof Error) {
+    if (error.message.includes("not found")) {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error.message.includes("too large")) {
+      sendError(res, error.message, 413, error);
+      return;
+    }
+    if (error.message.includes("You can only")) {
+      sendError(res, error.message, 403, error);
+      return;
+    }
+    if (error.message.includes("Invalid") || error.message.includes("required")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+  }
+  console.error(`${context} error:`, error);
+  sendError(res, "Internal server error", 500, error);
+};
+
+// Helper to build a Content-Disposition header that survives non-ASCII filenames
+const contentDisposition = (filename: string): string => {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "_");
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+};
+
+export const addIssueAttachmentController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    const file = await readMultipartFile(req, "file", MAX_ATTACHMENT_SIZE);
+    const attachment = await addIssueAttachment(id, file, req.user.userId, req.user.role);
+    sendSuccess(res, attachment, 201, "File attached successfully");
+  } catch (error) {
+    handleAttachmentError(res, error, "Add issue attachment");
+  }
+};
+
+export const addCommentAttachmentController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid comment ID format", 400);
+      return;
+    }
+
+    const file = await readMultipartFile(req, "file", MAX_ATTACHMENT_SIZE);
+    const attachment = await addCommentAttachment(id, file, req.user.userId, req.user.role);
+    sendSuccess(res, attachment, 201, "File attached successfully");
+  } catch (error) {
+    handleAttachmentError(res, error, "Add comment attachment");
+  }
+};
+
+export const downloadAttachmentController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid attachment ID format", 400);
+      return;
+    }
+
+    const { filename, mimeType, size, stream } = await getAttachmentContent(id, req.user.userId, req.user.role);
+
+    res.setHeader("Content-Type", mimeType);
+    res.setHeader("Content-Length", String(size));
+    res.setHeader("Content-Disposition", contentDisposition(filename));
+    // Never let the browser guess a different (e.g. executable) type from the content
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("Cache-Control", "private, max-age=0, must-revalidate");
+
+    stream.on("error", (error) => {
+      console.error("Download attachment error:", error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    handleAttachmentError(res, error, "Download attachment");
+  }
+};
+
+export const deleteAttachmentController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid attachment ID format", 400);
+      return;
+    }
+
+    const result = await deleteAttachment(id, req.user.userId, req.user.role);
+    sendSuccess(res, result, 200, "Attachment deleted successfully");
+  } catch (error) {
+    handleAttachmentError(res, error, "Delete attachment");
+  }
+};
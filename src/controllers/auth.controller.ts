@@ -1,58 +1,151 @@
 import { Request, Response } from "express";
-import { loginUser, getAllUsers } from "../services/auth.service";
-import { LoginDto, LoginResponse } from "../types/user.types";
+import {
+  loginUser,
+  changePassword,
+  requestMagicLink,
+  verifyMagicLink,
+} from "../services/auth.service";
+import { LoginDto, LoginResponse, ChangePasswordDto, UserResponse } from "../types/user.types";
 import { sendSuccess, sendError } from "../utils/sendResponse";
-import { generateToken } from "../utils/jwt";
+import {
+  createSession,
+  refreshSession,
+  revokeSession,
+  revokeAllSessionsForUser,
+  REFRESH_TOKEN_EXPIRES_DAYS,
+} from "../services/session.service";
+import { SessionTokens } from "../types/session.types";
+import { Permission, hasPermission } from "../config/permissions";
+import {
+  getLoginThrottleStatus,
+  recordLoginFailure,
+  clearLoginFailures,
+  getMagicLinkThrottleStatus,
+  recordMagicLinkRequest,
+} from "../services/loginThrottle.service";
+import { recordSecurityEvent } from "../services/securityEvent.service";
+import { SecurityEventType } from "../models/securityEvent.model";
+import { getOidcConfig, createAuthorizationRequest, completeAuthorization } from "../services/oidc.service";
+
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const REFRESH_COOKIE_PATH = "/api/auth";
+const OIDC_STATE_COOKIE_PATH = "/api/auth/oidc";
+
+const baseCookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax" as const,
+};
+
+// Helper to set the access and refresh token cookies
+const setAuthCookies = (res: Response, tokens: SessionTokens): void => {
+  const maxAge = REFRESH_TOKEN_EXPIRES_DAYS * 24 * 60 * 60 * 1000;
+
+  // The access JWT expires much sooner; the cookie lives as long as the session
+  // so the client can tell it still has one and call /refresh
+  res.cookie("token", tokens.accessToken, { ...baseCookieOptions, maxAge });
+
+  // Refresh token is only ever sent to the auth routes
+  res.cookie("refreshToken", tokens.refreshToken, {
+    ...baseCookieOptions,
+    path: REFRESH_COOKIE_PATH,
+    maxAge,
+  });
+};
+
+// Helper to clear both auth cookies
+const clearAuthCookies = (res: Response): void => {
+  res.clearCookie("token", baseCookieOptions);
+  res.clearCookie("refreshToken", { ...baseCookieOptions, path: REFRESH_COOKIE_PATH });
+};
+
+// Helper to open a session once a user has been authenticated
+const startSession = async (req: Request, res: Response, user: UserResponse): Promise<LoginResponse> => {
+  const tokens = await createSession(user._id, user.email, {
+    userAgent: req.headers["user-agent"],
+    ip: req.ip,
+  });
+
+  // Set tokens in HTTP-only cookies (more secure)
+  setAuthCookies(res, tokens);
+
+  // Also sending tokens in response (for flexibility - frontend can choose to use cookie or store in localStorage)
+  return {
+    user,
+    token: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+  };
+};
 
 export const login = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { email } = req.body;
+    const { email, password } = req.body;
 
-    // Validate email is provided
+    // Validate credentials are provided
     if (!email) {
       sendError(res, "Email is required", 400);
       return;
     }
 
+    if (!password) {
+      sendError(res, "Password is required", 400);
+      return;
+    }
+
     // Validate email format (basic validation)
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!emailRegex.test(email)) {
       sendError(res, "Invalid email format", 400);
       return;
     }
 
+    const ip = req.ip;
+    const userAgent = req.headers["user-agent"];
+
+    // Refuse early while the account or IP is locked out (same response for unknown emails)
+    const throttle = await getLoginThrottleStatus(email, ip);
+    if (throttle.locked) {
+      await recordSecurityEvent({ type: SecurityEventType.LOGIN_THROTTLED, email, ip, userAgent });
+      res.setHeader("Retry-After", String(throttle.retryAfterSeconds));
+      sendError(res, "Too many login attempts. Please try again later.", 429);
+      return;
+    }
+
     // Create login DTO
-    const loginDto: LoginDto = { email };
+    const loginDto: LoginDto = { email, password };
+
+    let user: UserResponse;
+    try {
+      user = await loginUser(loginDto);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Invalid email or password") {
+        await recordLoginFailure(email, ip, userAgent);
+        await recordSecurityEvent({ type: SecurityEventType.LOGIN_FAILED, email, ip, userAgent });
+      }
+      throw error;
+    }
 
-    const user = await loginUser(loginDto);
+    await clearLoginFailures(email);
+    const loginResponse = await startSession(req, res, user);
 
-    // Generate JWT token
-    const token = generateToken({
+    await recordSecurityEvent({
+      type: SecurityEventType.LOGIN_SUCCEEDED,
       userId: user._id,
       email: user.email,
+      ip,
+      userAgent,
+      details: { method: "password" },
     });
 
-    // Set token in HTTP-only cookie (more secure)
-    const cookieOptions = {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax" as const,
-      maxAge: 7 * 24 * 60 * 60 * 1000,
-    };
-
-    res.cookie("token", token, cookieOptions);
-
-    // Also sending token in response (for flexibility - frontend can choose to use cookie or store in localStorage)
-    const loginResponse: LoginResponse = {
-      user,
-      token,
-    };
-
     sendSuccess(res, loginResponse, 200, "Login successful");
   } catch (error) {
-    // Handle user not found error
-    if (error instanceof Error && error.message === "User not found") {
-      sendError(res, "User not found. Please check your email.", 404, error);
+    // Handle bad credentials (same message whether or not the email exists)
+    if (error instanceof Error && error.message === "Invalid email or password") {
+      sendError(res, error.message, 401, error);
+      return;
+    }
+    if (error instanceof Error && error.message === "This account has been deactivated") {
+      sendError(res, error.message, 403, error);
       return;
     }
 
@@ -64,13 +157,22 @@ export const login = async (req: Request, res: Response): Promise<void> => {
 
 export const logout = async (req: Request, res: Response): Promise<void> => {
   try {
-    // Clear the token cookie
-    res.clearCookie("token", {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === "production",
-      sameSite: "lax",
+    // Revoke the session so the access and refresh tokens stop working
+    if (req.user?.sessionId) {
+      await revokeSession(req.user.sessionId);
+    }
+
+    await recordSecurityEvent({
+      type: SecurityEventType.LOGOUT,
+      userId: req.user?.userId,
+      email: req.user?.email,
+      ip: req.ip,
+      userAgent: req.headers["user-agent"],
     });
 
+    // Clear the token cookies
+    clearAuthCookies(res);
+
     sendSuccess(res, { message: "Logged out successfully" }, 200, "Logout successful");
   } catch (error) {
     console.error("Logout error:", error);
@@ -78,4 +180,353 @@ export const logout = async (req: Request, res: Response): Promise<void> => {
   }
 };
 
+/**
+ * Exchange a refresh token for a new access/refresh token pair
+ */
+export const refresh = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Try cookie first, then request body
+    const refreshToken = req.cookies?.refreshToken || req.body?.refreshToken;
+
+    if (!refreshToken || typeof refreshToken !== "string") {
+      sendError(res, "Refresh token is required", 401);
+      return;
+    }
+
+    const tokens = await refreshSession(refreshToken, {
+      userAgent: req.headers["user-agent"],
+      ip: req.ip,
+    });
+
+    setAuthCookies(res, tokens);
+
+    sendSuccess(
+      res,
+      { token: tokens.accessToken, refreshToken: tokens.refreshToken },
+      200,
+      "Token refreshed successfully"
+    );
+  } catch (error) {
+    if (error instanceof Error && error.message === "Invalid or expired refresh token") {
+      clearAuthCookies(res);
+      sendError(res, "Invalid or expired refresh token. Please login again.", 401, error);
+      return;
+    }
+    console.error("Refresh token error:", error);
+    sendError(res, "Internal server error", 500, error);
+  }
+};
+
+/**
+ * Revoke every session of a user ("log out everywhere"). Admins can revoke anyone's sessions.
+ */
+export const revokeUserSessionsController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { userId } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (userId !== req.user.userId && !hasPermission(req.user.role, Permission.SESSIONS_REVOKE_ANY)) {
+      sendError(res, "You can only revoke your own sessions", 403);
+      return;
+    }
+
+    const result = await revokeAllSessionsForUser(userId);
+
+    await recordSecurityEvent({
+      type: SecurityEventType.SESSIONS_REVOKED,
+      userId,
+      ip: req.ip,
+      userAgent: req.headers["user-agent"],
+      details: { revokedBy: req.user.userId, count: result.count },
+    });
+
+    if (userId === req.user.userId) {
+      clearAuthCookies(res);
+    }
+
+    sendSuccess(res, result, 200, "Sessions revoked successfully");
+  } catch (error) {
+    if (error instanceof Error && error.message === "User not found") {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error instanceof Error && error.message.includes("Invalid")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+    console.error("Revoke sessions error:", error);
+    sendError(res, "Internal server error", 500, error);
+  }
+};
+
+/**
+ * Set a password (first time) or change the current one
+ */
+export const changePasswordController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!newPassword) {
+      sendError(res, "New password is required", 400);
+      return;
+    }
+
+    const changeDto: ChangePasswordDto = { currentPassword, newPassword };
+
+    await changePassword(req.user.userId, changeDto, req.user.sessionId);
+
+    await recordSecurityEvent({
+      type: SecurityEventType.PASSWORD_CHANGED,
+      userId: req.user.userId,
+      email: req.user.email,
+      ip: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+    sendSuccess(res, { message: "Password updated successfully" }, 200, "Password updated successfully");
+  } catch (error) {
+    if (error instanceof Error && error.message === "User not found") {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error instanceof Error && error.message === "Current password is incorrect") {
+      sendError(res, error.message, 403, error);
+      return;
+    }
+    if (
+      error instanceof Error &&
+      (error.message.includes("Invalid") || error.message.includes("required") || error.message.includes("at least"))
+    ) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+    console.error("Change password error:", error);
+    sendError(res, "Internal server error", 500, error);
+  }
+};
+
+/**
+ * Email a one-time login link
+ */
+export const requestMagicLinkController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { email } = req.body;
+
+    if (!email) {
+      sendError(res, "Email is required", 400);
+      return;
+    }
+
+    if (!emailRegex.test(email)) {
+      sendError(res, "Invalid email format", 400);
+      return;
+    }
+
+    const ip = req.ip;
+    const userAgent = req.headers["user-agent"];
+
+    // Same account and IP limits as password logins, counted separately
+    const throttle = await getMagicLinkThrottleStatus(email, ip);
+    if (throttle.locked) {
+      await recordSecurityEvent({
+        type: SecurityEventType.LOGIN_THROTTLED,
+        email,
+        ip,
+        userAgent,
+        details: { method: "magic_link" },
+      });
+      res.setHeader("Retry-After", String(throttle.retryAfterSeconds));
+      sendError(res, "Too many login link requests. Please try again later.", 429);
+      return;
+    }
+
+    await recordMagicLinkRequest(email, ip, userAgent);
+    await requestMagicLink(email);
+
+    await recordSecurityEvent({
+      type: SecurityEventType.MAGIC_LINK_REQUESTED,
+      email,
+      ip,
+      userAgent,
+    });
+
+    // Same response whether or not the account exists
+    sendSuccess(
+      res,
+      { message: "If an account exists for this email, a login link has been sent" },
+      200,
+      "Login link requested"
+    );
+  } catch (error) {
+    console.error("Request magic link error:", error);
+    sendError(res, "Internal server error", 500, error);
+  }
+};
+
+/**
+ * Exchange a magic link token for a session
+ */
+export const verifyMagicLinkController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { token } = req.body;
+
+    if (!token || typeof token !== "string") {
+      sendError(res, "Token is required", 400);
+      return;
+    }
+
+    const user = await verifyMagicLink(token);
+    const loginResponse = await startSession(req, res, user);
 
+    await recordSecurityEvent({
+      type: SecurityEventType.MAGIC_LINK_LOGIN,
+      userId: user._id,
+      email: user.email,
+      ip: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+
+    sendSuccess(res, loginResponse, 200, "Login successful");
+  } catch (error) {
+    if (error instanceof Error && error.message === "Invalid or expired login link") {
+      await recordSecurityEvent({
+        type: SecurityEventType.LOGIN_FAILED,
+        ip: req.ip,
+        userAgent: req.headers["user-agent"],
+        details: { method: "magic_link" },
+      });
+      sendError(res, error.message, 401, error);
+      return;
+    }
+    console.error("Verify magic link error:", error);
+    sendError(res, "Internal server error", 500, error);
+  }
+};
+
+/**
+ * Tell the frontend whether SSO is available (to show the sign-in button)
+ */
+export const oidcConfigController = async (req: Request, res: Response): Promise<void> => {
+  const config = getOidcConfig();
+  sendSuccess(res, {
+    enabled: !!config,
+    providerName: config ? config.providerName : null,
+  });
+};
+
+/**
+ * Start SSO: redirect the browser to the identity provider
+ */
+export const oidcLogin = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { redirect, login_hint } = req.query;
+
+    if (login_hint !== undefined && (typeof login_hint !== "string" || !emailRegex.test(login_hint))) {
+      sendError(res, "Invalid login_hint. Must be an email address", 400);
+      return;
+    }
+
+    const { authorizationUrl, state } = await createAuthorizationRequest(
+      redirect as string | undefined,
+      login_hint?.trim().toLowerCase()
+    );
+
+    // Bind the login to this browser; the callback must present the same state
+    res.cookie("oidc_state", state, {
+      ...baseCookieOptions,
+      path: OIDC_STATE_COOKIE_PATH,
+      maxAge: 10 * 60 * 1000,
+    });
+
+    res.redirect(authorizationUrl);
+  } catch (error) {
+    if (error instanceof Error && error.message === "SSO is not configured") {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    console.error("OIDC login error:", error);
+    sendError(res, "Could not start single sign-on", 502, error);
+  }
+};
+
+/**
+ * Finish SSO: validate the callback, open a session and send the browser back to the frontend
+ */
+export const oidcCallback = async (req: Request, res: Response): Promise<void> => {
+  const frontendUrl = process.env.FRONTEND_URL || "http://localhost:3000";
+  const ip = req.ip;
+  const userAgent = req.headers["user-agent"];
+
+  const fail = async (reason: string, error?: unknown): Promise<void> => {
+    if (error) {
+      console.error("OIDC callback error:", error);
+    }
+    await recordSecurityEvent({
+      type: SecurityEventType.LOGIN_FAILED,
+      ip,
+      userAgent,
+      details: { method: "oidc", reason },
+    });
+    res.clearCookie("oidc_state", { ...baseCookieOptions, path: OIDC_STATE_COOKIE_PATH });
+    res.redirect(`${frontendUrl}/login?error=${encodeURIComponent(reason)}`);
+  };
+
+  try {
+    const { code, state, error: providerError } = req.query;
+
+    if (providerError) {
+      await fail(String(providerError));
+      return;
+    }
+
+    if (!code || !state || typeof code !== "string" || typeof state !== "string") {
+      await fail("invalid_request");
+      return;
+    }
+
+    if (req.cookies?.oidc_state !== state) {
+      await fail("state_mismatch");
+      return;
+    }
+
+    const { user, redirectTo } = await completeAuthorization(code, state);
+
+    res.clearCookie("oidc_state", { ...baseCookieOptions, path: OIDC_STATE_COOKIE_PATH });
+    await startSession(req, res, user);
+
+    await recordSecurityEvent({
+      type: SecurityEventType.LOGIN_SUCCEEDED,
+      userId: user._id,
+      email: user.email,
+      ip,
+      userAgent,
+      details: { method: "oidc" },
+    });
+
+    res.redirect(`${frontendUrl}${redirectTo}`);
+  } catch (error) {
+    if (error instanceof Error && error.message === "This account has been deactivated") {
+      await fail("account_deactivated", error);
+      return;
+    }
+    if (error instanceof Error && error.message === "No account exists for this email") {
+      await fail("account_not_found", error);
+      return;
+    }
+    if (error instanceof Error && error.message === "Email domain is not allowed to sign in") {
+      await fail("domain_not_allowed", error);
+      return;
+    }
+    await fail("sso_failed", error);
+  }
+};
@@ -1,7 +1,14 @@
 import { Request, Response } from "express";
-import { createComment, getCommentsByIssue, updateComment, deleteComment } from "../services/comment.service";
+import {
+  createComment,
+  getCommentById,
+  getCommentsByIssue,
+  updateComment,
+  deleteComment,
+} from "../services/comment.service";
 import { CreateCommentDto, UpdateCommentDto } from "../types/comment.types";
 import { sendSuccess, sendError } from "../utils/sendResponse";
+import { parseIfMatch, toETag } from "../utils/etag";
 
 export const createCommentController = async (req: Request, res: Response): Promise<void> => {
   try {
@@ -31,7 +38,8 @@ export const createCommentController = async (req: Request, res: Response): Prom
       mentions: mentions && Array.isArray(mentions) ? mentions : undefined,
     };
 
-    const comment = await createComment(createDto, req.user.userId);
+    const comment = await createComment(createDto, req.user.userId, req.user.role);
+    res.set("ETag", toETag(comment.version));
     sendSuccess(res, comment, 201, "Comment created successfully");
   } catch (error) {
     if (error instanceof Error) {
@@ -72,7 +80,7 @@ export const getCommentsController = async (req: Request, res: Response): Promis
       return;
     }
 
-    const result = await getCommentsByIssue(issueId, pageNum, limitNum);
+    const result = await getCommentsByIssue(issueId, pageNum, limitNum, req.user?.userId, req.user?.role);
     sendSuccess(res, result);
   } catch (error) {
     if (error instanceof Error && error.message.includes("Invalid")) {
@@ -105,14 +113,34 @@ export const updateCommentController = async (req: Request, res: Response): Prom
       return;
     }
 
+    // The version the client last saw, to detect edits made since
+    const ifMatch = parseIfMatch(req.get("If-Match"));
+    if (ifMatch.error) {
+      sendError(res, ifMatch.error, 400);
+      return;
+    }
+
     const updateDto: UpdateCommentDto = {
       content: content.trim(),
       mentions: mentions && Array.isArray(mentions) ? mentions : undefined,
     };
 
-    const comment = await updateComment(id, updateDto, req.user.userId);
+    const comment = await updateComment(id, updateDto, req.user.userId, req.user.role, ifMatch.version);
+    res.set("ETag", toETag(comment.version));
     sendSuccess(res, comment, 200, "Comment updated successfully");
   } catch (error) {
+    // Send the current state so the client can merge its changes
+    if (error instanceof Error && error.message.includes("changed since")) {
+      try {
+        const current = await getCommentById(req.params.id);
+        res.set("ETag", toETag(current.version));
+        sendError(res, error.message, 409, error, current);
+      } catch (reloadError) {
+        console.error("Update comment conflict reload error:", reloadError);
+        sendError(res, error.message, 409, error);
+      }
+      return;
+    }
     if (error instanceof Error && error.message === "Comment not found") {
       sendError(res, "Comment not found", 404, error);
       return;
@@ -144,7 +172,7 @@ export const deleteCommentController = async (req: Request, res: Response): Prom
       return;
     }
 
-    await deleteComment(id, req.user.userId);
+    await deleteComment(id, req.user.userId, req.user.role);
     sendSuccess(res, { message: "Comment deleted successfully" }, 200, "Comment deleted successfully");
   } catch (error) {
     if (error instanceof Error && error.message === "Comment not found") {
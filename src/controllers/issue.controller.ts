@@ -7,15 +7,145 @@ import {
   getIssueSummary,
   getMyIssues,
   getMentionedIssues,
+  archiveIssue,
+  restoreIssue,
+  purgeIssue,
 } from "../services/issue.service";
-import { CreateIssueDto, UpdateIssueDto, IssueFilters } from "../types/issue.types";
-import { Priority, Status } from "../models/issue.model";
+import { openSavedView } from "../services/savedView.service";
+import { bulkUpdateIssues } from "../services/issueBulk.service";
+import { getIssueActivity } from "../services/activity.service";
+import {
+  BulkUpdateIssuesDto,
+  CreateIssueDto,
+  UpdateIssueDto,
+  IssueFilters,
+  IssueSort,
+  SortOrder,
+} from "../types/issue.types";
+import { Priority, StatusCategory } from "../models/issue.model";
+import { LabelMatch } from "../types/label.types";
 import { sendSuccess, sendError } from "../utils/sendResponse";
-import { isValidObjectId } from "../utils/validation";
+import { isIssueKey, isValidObjectId, parseDate } from "../utils/validation";
+import { parseIfMatch, toETag } from "../utils/etag";
+import { MAX_QUERY_LENGTH, MAX_SEARCH_QUERY_LENGTH } from "../config/search";
+
+const DATE_FORMAT_HINT = "Must be an ISO 8601 date such as 2025-03-31 or a date-time";
+
+// Helper to parse the due date filters shared by the issue list endpoints
+const parseDueDateFilters = (
+  query: Request["query"]
+): { filters: Pick<IssueFilters, "dueBefore" | "dueAfter" | "overdue">; error?: string } => {
+  const { dueBefore, dueAfter, overdue } = query;
+  const filters: Pick<IssueFilters, "dueBefore" | "dueAfter" | "overdue"> = {};
+
+  // A plain dueBefore date includes that whole day
+  if (dueBefore !== undefined) {
+    const date = typeof dueBefore === "string" ? parseDate(dueBefore, true) : null;
+    if (!date) {
+      return { filters, error: `Invalid dueBefore. ${DATE_FORMAT_HINT}` };
+    }
+    filters.dueBefore = date;
+  }
+
+  if (dueAfter !== undefined) {
+    const date = typeof dueAfter === "string" ? parseDate(dueAfter) : null;
+    if (!date) {
+      return { filters, error: `Invalid dueAfter. ${DATE_FORMAT_HINT}` };
+    }
+    filters.dueAfter = date;
+  }
+
+  if (filters.dueBefore && filters.dueAfter && filters.dueAfter > filters.dueBefore) {
+    return { filters, error: "Invalid due date range: dueAfter must not be later than dueBefore" };
+  }
+
+  if (overdue !== undefined) {
+    if (overdue !== "true" && overdue !== "false") {
+      return { filters, error: "Invalid overdue. Must be true or false" };
+    }
+    filters.overdue = overdue === "true";
+  }
+
+  return { filters };
+};
+
+// Helper to parse the sort order and cursors shared by the issue list endpoints
+const parseSortOptions = (
+  query: Request["query"]
+): { filters: Pick<IssueFilters, "sort" | "order" | "after" | "before">; error?: string } => {
+  const { sort, order, after, before, page } = query;
+  const filters: Pick<IssueFilters, "sort" | "order" | "after" | "before"> = {};
+
+  if (sort !== undefined) {
+    if (!Object.values(IssueSort).includes(sort as IssueSort)) {
+      return { filters, error: `Invalid sort. Must be one of: ${Object.values(IssueSort).join(", ")}` };
+    }
+    filters.sort = sort as IssueSort;
+  }
+
+  if (order !== undefined) {
+    if (!Object.values(SortOrder).includes(order as SortOrder)) {
+      return { filters, error: `Invalid order. Must be one of: ${Object.values(SortOrder).join(", ")}` };
+    }
+    filters.order = order as SortOrder;
+  }
+
+  if (after !== undefined && before !== undefined) {
+    return { filters, error: "Invalid pagination: pass either after or before, not both" };
+  }
+
+  const cursor = after ?? before;
+  if (cursor !== undefined) {
+    if (typeof cursor !== "string" || !cursor) {
+      return { filters, error: "Invalid cursor" };
+    }
+    if (page !== undefined) {
+      return { filters, error: "Invalid pagination: page cannot be combined with after or before" };
+    }
+    filters[after !== undefined ? "after" : "before"] = cursor;
+  }
+
+  return { filters };
+};
+
+// Helper to map archive/restore/purge errors to HTTP status codes
+const handleArchiveError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof Error) {
+    if (error.message.includes("not found")) {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error.message.startsWith("Only admins")) {
+      sendError(res, error.message, 403, error);
+      return;
+    }
+    if (error.message.includes("already archived") || error.message.includes("not archived")) {
+      sendError(res, error.message, 409, error);
+      return;
+    }
+    if (error.message.includes("Invalid")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+  }
+  console.error(`${context} error:`, error);
+  sendError(res, "Internal server error", 500, error);
+};
 
 export const createIssueController = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { title, description, priority, status, assignee } = req.body;
+    const {
+      title,
+      description,
+      priority,
+      status,
+      assignee,
+      labels,
+      project,
+      dueDate,
+      originalEstimate,
+      remainingEstimate,
+    } = req.body;
 
     // Validate required fields
     if (!title || !title.trim()) {
@@ -23,6 +153,16 @@ export const createIssueController = async (req: Request, res: Response): Promis
       return;
     }
 
+    if (!project) {
+      sendError(res, "Project is required", 400);
+      return;
+    }
+
+    if (!isValidObjectId(project)) {
+      sendError(res, "Invalid project ID format", 400);
+      return;
+    }
+
     if (!description || !description.trim()) {
       sendError(res, "Description is required", 400);
       return;
@@ -34,9 +174,19 @@ export const createIssueController = async (req: Request, res: Response): Promis
       return;
     }
 
-    // Validate status enum
-    if (status && !Object.values(Status).includes(status)) {
-      sendError(res, `Invalid status. Must be one of: ${Object.values(Status).join(", ")}`, 400);
+    // The status itself is checked against the project's workflow
+    if (status !== undefined && status !== null && typeof status !== "string") {
+      sendError(res, "Invalid status. Must be a status name", 400);
+      return;
+    }
+
+    if (labels !== undefined && labels !== null && !Array.isArray(labels)) {
+      sendError(res, "Invalid labels. Must be an array of label IDs", 400);
+      return;
+    }
+
+    if (dueDate !== undefined && dueDate !== null && typeof dueDate !== "string") {
+      sendError(res, `Invalid dueDate. ${DATE_FORMAT_HINT}`, 400);
       return;
     }
 
@@ -50,12 +200,19 @@ export const createIssueController = async (req: Request, res: Response): Promis
       title: title.trim(),
       description: description.trim(),
       priority: priority || Priority.MEDIUM,
-      status: status || Status.OPEN,
+      ...(status && { status }),
       assignee: assignee || null,
       createdBy: req.user.userId,
+      project,
+      ...(Array.isArray(labels) && { labels }),
+      ...(dueDate && { dueDate }),
+      // Estimates are checked by the service, which accepts minutes or durations such as "2d 4h"
+      ...(originalEstimate !== undefined && { originalEstimate }),
+      ...(remainingEstimate !== undefined && { remainingEstimate }),
     };
 
-    const issue = await createIssue(createDto);
+    const issue = await createIssue(createDto, req.user.role);
+    res.set("ETag", toETag(issue.version));
     sendSuccess(res, issue, 201, "Issue created successfully");
   } catch (error) {
     if (error instanceof Error) {
@@ -75,11 +232,94 @@ export const createIssueController = async (req: Request, res: Response): Promis
 
 export const getIssuesController = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { status, priority, assignee, page, limit } = req.query;
+    const {
+      project,
+      status,
+      statusCategory,
+      priority,
+      assignee,
+      labels,
+      labelMatch,
+      includeArchived,
+      q,
+      query,
+      view,
+      page,
+      limit,
+    } = req.query;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
 
-    // Validate status enum if provided
-    if (status && !Object.values(Status).includes(status as Status)) {
-      sendError(res, `Invalid status. Must be one of: ${Object.values(Status).join(", ")}`, 400);
+    // Validate project ID format if provided
+    if (project && !isValidObjectId(project as string)) {
+      sendError(res, "Invalid project ID format", 400);
+      return;
+    }
+
+    // Validate saved view ID format if provided
+    if (view !== undefined && (typeof view !== "string" || !isValidObjectId(view))) {
+      sendError(res, "Invalid view ID format", 400);
+      return;
+    }
+
+    // Validate label IDs (comma-separated) if provided
+    const labelIds = typeof labels === "string" && labels.trim()
+      ? labels.split(",").map((labelId) => labelId.trim()).filter(Boolean)
+      : [];
+    if (labelIds.some((labelId) => !isValidObjectId(labelId))) {
+      sendError(res, "Invalid label ID format", 400);
+      return;
+    }
+
+    // Validate label match mode if provided
+    if (labelMatch && !Object.values(LabelMatch).includes(labelMatch as LabelMatch)) {
+      sendError(res, `Invalid labelMatch. Must be one of: ${Object.values(LabelMatch).join(", ")}`, 400);
+      return;
+    }
+
+    // Validate search query if provided
+    if (q !== undefined && (typeof q !== "string" || q.length > MAX_SEARCH_QUERY_LENGTH)) {
+      sendError(res, `Invalid search query. Must be a string of at most ${MAX_SEARCH_QUERY_LENGTH} characters`, 400);
+      return;
+    }
+
+    // Validate query language expression if provided (parsed by the service)
+    if (query !== undefined && (typeof query !== "string" || query.length > MAX_QUERY_LENGTH)) {
+      sendError(res, `Invalid query. Must be a string of at most ${MAX_QUERY_LENGTH} characters`, 400);
+      return;
+    }
+
+    // Validate status category enum if provided
+    if (statusCategory && !Object.values(StatusCategory).includes(statusCategory as StatusCategory)) {
+      sendError(
+        res,
+        `Invalid statusCategory. Must be one of: ${Object.values(StatusCategory).join(", ")}`,
+        400
+      );
+      return;
+    }
+
+    // Validate due date filters if provided
+    const dueDateFilters = parseDueDateFilters(req.query);
+    if (dueDateFilters.error) {
+      sendError(res, dueDateFilters.error, 400);
+      return;
+    }
+
+    // Validate sort order and cursors if provided
+    const sortOptions = parseSortOptions(req.query);
+    if (sortOptions.error) {
+      sendError(res, sortOptions.error, 400);
+      return;
+    }
+
+    // Search results are ordered by relevance
+    if (q && Object.keys(sortOptions.filters).length > 0) {
+      sendError(res, "Invalid search: sort, order, after and before cannot be combined with q", 400);
       return;
     }
 
@@ -112,14 +352,26 @@ export const getIssuesController = async (req: Request, res: Response): Promise<
     }
 
     const filters: IssueFilters = {
-      ...(status && { status: status as Status }),
+      ...(project && { project: project as string }),
+      ...(status && { status: status as string }),
+      ...(statusCategory && { statusCategory: statusCategory as StatusCategory }),
+      ...dueDateFilters.filters,
       ...(priority && { priority: priority as Priority }),
+      ...sortOptions.filters,
       ...(assignee && { assignee: assignee as string }),
+      ...(labelIds.length > 0 && { labels: labelIds }),
+      ...(labelMatch && { labelMatch: labelMatch as LabelMatch }),
+      ...(includeArchived !== undefined && { includeArchived: includeArchived === "true" }),
+      ...(q && { q: q as string }),
+      ...(query && { query: query as string }),
       page: pageNum,
       limit: limitNum,
     };
 
-    const result = await getIssues(filters);
+    // A saved view supplies the filters and sort; parameters given in the request take precedence
+    const viewFilters = view ? await openSavedView(view as string, req.user.userId) : {};
+
+    const result = await getIssues({ ...viewFilters, ...filters }, req.user.userId, req.user.role);
     sendSuccess(res, result);
   } catch (error) {
     // Handle specific error from service
@@ -127,6 +379,14 @@ export const getIssuesController = async (req: Request, res: Response): Promise<
       sendError(res, "Invalid assignee ID format", 400, error);
       return;
     }
+    if (error instanceof Error && (error.message === "Project not found" || error.message === "Saved view not found")) {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error instanceof Error && error.message.includes("Invalid")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
     console.error("Get issues error:", error);
     sendError(res, "Internal server error", 500, error);
   }
@@ -136,13 +396,14 @@ export const getIssueByIdController = async (req: Request, res: Response): Promi
   try {
     const { id } = req.params;
 
-    // Validate ObjectId format
-    if (!isValidObjectId(id)) {
-      sendError(res, "Invalid issue ID format", 400);
+    // Issues can be fetched by ObjectId or by key (e.g. BX-142)
+    if (!isIssueKey(id) && !isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format. Must be an issue ID or a key such as BX-142", 400);
       return;
     }
 
-    const issue = await getIssueById(id);
+    const issue = await getIssueById(id, req.user?.userId, req.user?.role);
+    res.set("ETag", toETag(issue.version));
     sendSuccess(res, issue);
   } catch (error) {
     if (error instanceof Error && error.message === "Issue not found") {
@@ -161,11 +422,36 @@ export const getIssueByIdController = async (req: Request, res: Response): Promi
 export const updateIssueController = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
-    const { title, description, priority, status, assignee } = req.body;
+    const {
+      title,
+      description,
+      priority,
+      status,
+      assignee,
+      labels,
+      project,
+      dueDate,
+      originalEstimate,
+      remainingEstimate,
+      comment,
+    } = req.body;
 
-    // Validate ObjectId format
-    if (!isValidObjectId(id)) {
-      sendError(res, "Invalid issue ID format", 400);
+    // Issues can be updated by ObjectId or by key (e.g. BX-142)
+    if (!isIssueKey(id) && !isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format. Must be an issue ID or a key such as BX-142", 400);
+      return;
+    }
+
+    // The version the client last saw, to detect edits made since
+    const ifMatch = parseIfMatch(req.get("If-Match"));
+    if (ifMatch.error) {
+      sendError(res, ifMatch.error, 400);
+      return;
+    }
+
+    // Validate project ID format if provided
+    if (project !== undefined && !isValidObjectId(project)) {
+      sendError(res, "Invalid project ID format", 400);
       return;
     }
 
@@ -175,9 +461,24 @@ export const updateIssueController = async (req: Request, res: Response): Promis
       return;
     }
 
-    // Validate status enum if provided
-    if (status && !Object.values(Status).includes(status)) {
-      sendError(res, `Invalid status. Must be one of: ${Object.values(Status).join(", ")}`, 400);
+    // The status itself and the transition to it are checked against the project's workflow
+    if (status !== undefined && (typeof status !== "string" || !status.trim())) {
+      sendError(res, "Invalid status. Must be a status name", 400);
+      return;
+    }
+
+    if (dueDate !== undefined && dueDate !== null && typeof dueDate !== "string") {
+      sendError(res, `Invalid dueDate. ${DATE_FORMAT_HINT}`, 400);
+      return;
+    }
+
+    if (comment !== undefined && comment !== null && typeof comment !== "string") {
+      sendError(res, "Invalid comment. Must be a string", 400);
+      return;
+    }
+
+    if (labels !== undefined && labels !== null && !Array.isArray(labels)) {
+      sendError(res, "Invalid labels. Must be an array of label IDs", 400);
       return;
     }
 
@@ -186,8 +487,14 @@ export const updateIssueController = async (req: Request, res: Response): Promis
     if (title !== undefined) updateDto.title = title.trim();
     if (description !== undefined) updateDto.description = description.trim();
     if (priority !== undefined) updateDto.priority = priority;
-    if (status !== undefined) updateDto.status = status;
+    if (status !== undefined) updateDto.status = status.trim();
     if (assignee !== undefined) updateDto.assignee = assignee || null;
+    if (labels !== undefined) updateDto.labels = labels || [];
+    if (project !== undefined) updateDto.project = project;
+    if (dueDate !== undefined) updateDto.dueDate = dueDate || null;
+    if (originalEstimate !== undefined) updateDto.originalEstimate = originalEstimate;
+    if (remainingEstimate !== undefined) updateDto.remainingEstimate = remainingEstimate;
+    if (comment && comment.trim()) updateDto.comment = comment;
 
     // Check if at least one field is being updated
     if (Object.keys(updateDto).length === 0) {
@@ -195,11 +502,24 @@ export const updateIssueController = async (req: Request, res: Response): Promis
       return;
     }
 
-    // Get user ID from authenticated request for notification
+    // Get user ID from authenticated request for notification and permission checks
     const userId = req.user?.userId || undefined;
-    const issue = await updateIssue(id, updateDto, userId);
+    const issue = await updateIssue(id, updateDto, userId, req.user?.role, ifMatch.version);
+    res.set("ETag", toETag(issue.version));
     sendSuccess(res, issue, 200, "Issue updated successfully");
   } catch (error) {
+    // Send the current state so the client can merge its changes
+    if (error instanceof Error && error.message.includes("changed since")) {
+      try {
+        const current = await getIssueById(req.params.id, req.user?.userId, req.user?.role);
+        res.set("ETag", toETag(current.version));
+        sendError(res, error.message, 409, error, current);
+      } catch (reloadError) {
+        console.error("Update issue conflict reload error:", reloadError);
+        sendError(res, error.message, 409, error);
+      }
+      return;
+    }
     if (error instanceof Error && error.message === "Issue not found") {
       sendError(res, "Issue not found", 404, error);
       return;
@@ -208,7 +528,11 @@ export const updateIssueController = async (req: Request, res: Response): Promis
       sendError(res, error.message, 404, error);
       return;
     }
-    if (error instanceof Error && error.message.includes("Invalid")) {
+    if (error instanceof Error && error.message.startsWith("Only admins")) {
+      sendError(res, error.message, 403, error);
+      return;
+    }
+    if (error instanceof Error && (error.message.includes("Invalid") || error.message.includes("required"))) {
       sendError(res, error.message, 400, error);
       return;
     }
@@ -217,6 +541,157 @@ export const updateIssueController = async (req: Request, res: Response): Promis
   }
 };
 
+export const bulkUpdateIssuesController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { ids, filter, changes } = req.body;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!changes) {
+      sendError(res, "Changes are required", 400);
+      return;
+    }
+
+    const bulkDto: BulkUpdateIssuesDto = {
+      ...(ids !== undefined && { ids }),
+      ...(filter !== undefined && { filter }),
+      changes,
+    };
+
+    const result = await bulkUpdateIssues(bulkDto, req.user.userId, req.user.role);
+
+    // Nothing is changed unless every issue can be
+    const failed = result.results.filter((item) => item.error).length;
+    if (failed > 0) {
+      sendError(
+        res,
+        `${failed} of ${result.results.length} issues cannot be updated. No issues were changed`,
+        400,
+        undefined,
+        result
+      );
+      return;
+    }
+
+    sendSuccess(res, result, 200, "Issues updated successfully");
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("not found")) {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (
+      error instanceof Error &&
+      (error.message.includes("Invalid") || error.message.includes("required") || error.message.includes("At least"))
+    ) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+    console.error("Bulk update issues error:", error);
+    sendError(res, "Internal server error", 500, error);
+  }
+};
+
+export const archiveIssueController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const issue = await archiveIssue(id, req.user.userId, req.user.role);
+    sendSuccess(res, issue, 200, "Issue archived successfully");
+  } catch (error) {
+    handleArchiveError(res, error, "Archive issue");
+  }
+};
+
+export const restoreIssueController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const issue = await restoreIssue(id, req.user.userId, req.user.role);
+    sendSuccess(res, issue, 200, "Issue restored successfully");
+  } catch (error) {
+    handleArchiveError(res, error, "Restore issue");
+  }
+};
+
+export const purgeIssueController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    const result = await purgeIssue(id);
+    sendSuccess(res, result, 200, "Issue permanently deleted");
+  } catch (error) {
+    handleArchiveError(res, error, "Purge issue");
+  }
+};
+
+export const getIssueActivityController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    // Validate pagination parameters
+    const pageNum = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+    const limitNum = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+
+    if (isNaN(pageNum) || pageNum < 1) {
+      sendError(res, "Page must be greater than 0", 400);
+      return;
+    }
+
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+      sendError(res, "Limit must be between 1 and 100", 400);
+      return;
+    }
+
+    const result = await getIssueActivity(id, pageNum, limitNum, req.user?.userId, req.user?.role);
+    sendSuccess(res, result);
+  } catch (error) {
+    if (error instanceof Error && error.message === "Issue not found") {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error instanceof Error && error.message.includes("Invalid")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+    console.error("Get issue activity error:", error);
+    sendError(res, "Internal server error", 500, error);
+  }
+};
+
 export const getMyIssuesController = async (req: Request, res: Response): Promise<void> => {
   try {
     // Get user ID from authenticated request
@@ -225,11 +700,35 @@ export const getMyIssuesController = async (req: Request, res: Response): Promis
       return;
     }
 
-    const { status, priority, page, limit } = req.query;
+    const { project, status, statusCategory, priority, includeArchived, page, limit } = req.query;
 
-    // Validate status enum if provided
-    if (status && !Object.values(Status).includes(status as Status)) {
-      sendError(res, `Invalid status. Must be one of: ${Object.values(Status).join(", ")}`, 400);
+    // Validate project ID format if provided
+    if (project && !isValidObjectId(project as string)) {
+      sendError(res, "Invalid project ID format", 400);
+      return;
+    }
+
+    // Validate status category enum if provided
+    if (statusCategory && !Object.values(StatusCategory).includes(statusCategory as StatusCategory)) {
+      sendError(
+        res,
+        `Invalid statusCategory. Must be one of: ${Object.values(StatusCategory).join(", ")}`,
+        400
+      );
+      return;
+    }
+
+    // Validate due date filters if provided
+    const dueDateFilters = parseDueDateFilters(req.query);
+    if (dueDateFilters.error) {
+      sendError(res, dueDateFilters.error, 400);
+      return;
+    }
+
+    // Validate sort order and cursors if provided
+    const sortOptions = parseSortOptions(req.query);
+    if (sortOptions.error) {
+      sendError(res, sortOptions.error, 400);
       return;
     }
 
@@ -254,15 +753,24 @@ export const getMyIssuesController = async (req: Request, res: Response): Promis
     }
 
     const filters: Omit<IssueFilters, "assignee"> = {
-      ...(status && { status: status as Status }),
+      ...(project && { project: project as string }),
+      ...(status && { status: status as string }),
+      ...(statusCategory && { statusCategory: statusCategory as StatusCategory }),
+      ...dueDateFilters.filters,
       ...(priority && { priority: priority as Priority }),
+      ...sortOptions.filters,
+      includeArchived: includeArchived === "true",
       page: pageNum,
       limit: limitNum,
     };
 
-    const result = await getMyIssues(req.user.userId, filters);
+    const result = await getMyIssues(req.user.userId, filters, req.user.role);
     sendSuccess(res, result);
   } catch (error) {
+    if (error instanceof Error && error.message === "Project not found") {
+      sendError(res, error.message, 404, error);
+      return;
+    }
     if (error instanceof Error && error.message.includes("Invalid")) {
       sendError(res, error.message, 400, error);
       return;
@@ -274,7 +782,19 @@ export const getMyIssuesController = async (req: Request, res: Response): Promis
 
 export const getIssueSummaryController = async (req: Request, res: Response): Promise<void> => {
   try {
-    const { assigneePage, assigneeLimit } = req.query;
+    const { project, assigneePage, assigneeLimit, includeArchived } = req.query;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    // Validate project ID format if provided
+    if (project && !isValidObjectId(project as string)) {
+      sendError(res, "Invalid project ID format", 400);
+      return;
+    }
 
     // Validate pagination parameters for assignees
     const pageNum = assigneePage ? parseInt(assigneePage as string, 10) : 1;
@@ -290,9 +810,18 @@ export const getIssueSummaryController = async (req: Request, res: Response): Pr
       return;
     }
 
-    const summary = await getIssueSummary(pageNum, limitNum);
+    const summary = await getIssueSummary(req.user.userId, req.user.role, {
+      ...(project && { project: project as string }),
+      includeArchived: includeArchived === "true",
+      assigneePage: pageNum,
+      assigneeLimit: limitNum,
+    });
     sendSuccess(res, summary);
   } catch (error) {
+    if (error instanceof Error && error.message === "Project not found") {
+      sendError(res, error.message, 404, error);
+      return;
+    }
     console.error("Get issue summary error:", error);
     sendError(res, "Internal server error", 500, error);
   }
@@ -306,11 +835,35 @@ export const getMentionedIssuesController = async (req: Request, res: Response):
       return;
     }
 
-    const { status, priority, page, limit } = req.query;
+    const { project, status, statusCategory, priority, includeArchived, page, limit } = req.query;
+
+    // Validate project ID format if provided
+    if (project && !isValidObjectId(project as string)) {
+      sendError(res, "Invalid project ID format", 400);
+      return;
+    }
+
+    // Validate status category enum if provided
+    if (statusCategory && !Object.values(StatusCategory).includes(statusCategory as StatusCategory)) {
+      sendError(
+        res,
+        `Invalid statusCategory. Must be one of: ${Object.values(StatusCategory).join(", ")}`,
+        400
+      );
+      return;
+    }
+
+    // Validate due date filters if provided
+    const dueDateFilters = parseDueDateFilters(req.query);
+    if (dueDateFilters.error) {
+      sendError(res, dueDateFilters.error, 400);
+      return;
+    }
 
-    // Validate status enum if provided
-    if (status && !Object.values(Status).includes(status as Status)) {
-      sendError(res, `Invalid status. Must be one of: ${Object.values(Status).join(", ")}`, 400);
+    // Validate sort order and cursors if provided
+    const sortOptions = parseSortOptions(req.query);
+    if (sortOptions.error) {
+      sendError(res, sortOptions.error, 400);
       return;
     }
 
@@ -335,15 +888,24 @@ export const getMentionedIssuesController = async (req: Request, res: Response):
     }
 
     const filters: Omit<IssueFilters, "assignee"> = {
-      ...(status && { status: status as Status }),
+      ...(project && { project: project as string }),
+      ...(status && { status: status as string }),
+      ...(statusCategory && { statusCategory: statusCategory as StatusCategory }),
+      ...dueDateFilters.filters,
       ...(priority && { priority: priority as Priority }),
+      ...sortOptions.filters,
+      includeArchived: includeArchived === "true",
       page: pageNum,
       limit: limitNum,
     };
 
-    const result = await getMentionedIssues(req.user.userId, filters);
+    const result = await getMentionedIssues(req.user.userId, filters, req.user.role);
     sendSuccess(res, result);
   } catch (error) {
+    if (error instanceof Error && error.message === "Project not found") {
+      sendError(res, error.message, 404, error);
+      return;
+    }
     if (error instanceof Error && error.message.includes("Invalid")) {
       sendError(res, error.message, 400, error);
       return;
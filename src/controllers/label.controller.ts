@@ -0,0 +1,132 @@
+import { Request, Response } from "express";
+import { getLabels, getLabelById, createLabel, updateLabel, deleteLabel } from "../services/label.service";
+import { CreateLabelDto, UpdateLabelDto } from "../types/label.types";
+import { sendSuccess, sendError } from "../utils/sendResponse";
+import { isValidObjectId } from "../utils/validation";
+
+// Helper to map label service errors to HTTP status codes
+const handleLabelError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof Error) {
+    if (error.message.includes("not found")) {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error.message.includes("already exists")) {
+      sendError(res, error.message, 409, error);
+      return;
+    }
+    if (error.message.includes("Invalid") || error.message.includes("required")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+  }
+  console.error(`${context} error:`, error);
+  sendError(res, "Internal server error", 500, error);
+};
+
+export const getLabelsController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const labels = await getLabels();
+    sendSuccess(res, labels);
+  } catch (error) {
+    handleLabelError(res, error, "Get labels");
+  }
+};
+
+export const getLabelByIdController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid label ID format", 400);
+      return;
+    }
+
+    const label = await getLabelById(id);
+    sendSuccess(res, label);
+  } catch (error) {
+    handleLabelError(res, error, "Get label");
+  }
+};
+
+export const createLabelController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, color, description } = req.body;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!name || typeof name !== "string" || !name.trim()) {
+      sendError(res, "Label name is required", 400);
+      return;
+    }
+
+    if (color !== undefined && typeof color !== "string") {
+      sendError(res, "Invalid color. Must be a hex color such as #d73a4a", 400);
+      return;
+    }
+
+    const createDto: CreateLabelDto = {
+      name,
+      ...(color !== undefined && { color }),
+      ...(description !== undefined && description !== null && { description: String(description) }),
+    };
+
+    const label = await createLabel(createDto, req.user.userId);
+    sendSuccess(res, label, 201, "Label created successfully");
+  } catch (error) {
+    handleLabelError(res, error, "Create label");
+  }
+};
+
+export const updateLabelController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, color, description } = req.body;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid label ID format", 400);
+      return;
+    }
+
+    if (color !== undefined && typeof color !== "string") {
+      sendError(res, "Invalid color. Must be a hex color such as #d73a4a", 400);
+      return;
+    }
+
+    const updateDto: UpdateLabelDto = {};
+    if (name !== undefined) updateDto.name = String(name);
+    if (color !== undefined) updateDto.color = color;
+    if (description !== undefined) updateDto.description = description === null ? "" : String(description);
+
+    // Check if at least one field is being updated
+    if (Object.keys(updateDto).length === 0) {
+      sendError(res, "At least one field must be provided for update", 400);
+      return;
+    }
+
+    const label = await updateLabel(id, updateDto);
+    sendSuccess(res, label, 200, "Label updated successfully");
+  } catch (error) {
+    handleLabelError(res, error, "Update label");
+  }
+};
+
+export const deleteLabelController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid label ID format", 400);
+      return;
+    }
+
+    const result = await deleteLabel(id);
+    sendSuccess(res, result, 200, "Label deleted successfully");
+  } catch (error) {
+    handleLabelError(res, error, "Delete label");
+  }
+};
@@ -0,0 +1,262 @@
+import { Request, Response } from "express";
+import {
+  getProjects,
+  getProjectById,
+  createProject,
+  updateProject,
+  addProjectMembers,
+  removeProjectMember,
+  deleteProject,
+  getProjectWorkflow,
+} from "../services/project.service";
+import { CreateProjectDto, UpdateProjectDto } from "../types/project.types";
+import { sendSuccess, sendError } from "../utils/sendResponse";
+import { isValidObjectId } from "../utils/validation";
+
+// Helper to map project service errors to HTTP status codes
+const handleProjectError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof Error) {
+    if (error.message.includes("not found")) {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (
+      error.message.includes("already exists") ||
+      error.message.includes("still has issues") ||
+      error.message.includes("not a member") ||
+      error.message.startsWith("Cannot apply workflow")
+    ) {
+      sendError(res, error.message, 409, error);
+      return;
+    }
+    if (
+      error.message.includes("Invalid") ||
+      error.message.includes("required") ||
+      error.message.includes("At least")
+    ) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+  }
+  console.error(`${context} error:`, error);
+  sendError(res, "Internal server error", 500, error);
+};
+
+/**
+ * List the projects the logged-in user belongs to (admins see every project)
+ */
+export const getProjectsController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const projects = await getProjects(req.user.userId, req.user.role);
+    sendSuccess(res, projects);
+  } catch (error) {
+    handleProjectError(res, error, "Get projects");
+  }
+};
+
+export const getProjectByIdController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid project ID format", 400);
+      return;
+    }
+
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const project = await getProjectById(id, req.user.userId, req.user.role);
+    sendSuccess(res, project);
+  } catch (error) {
+    handleProjectError(res, error, "Get project");
+  }
+};
+
+/**
+ * Get the workflow (statuses and allowed transitions) used by a project's issues
+ */
+export const getProjectWorkflowController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid project ID format", 400);
+      return;
+    }
+
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const workflow = await getProjectWorkflow(id, req.user.userId, req.user.role);
+    sendSuccess(res, workflow);
+  } catch (error) {
+    handleProjectError(res, error, "Get project workflow");
+  }
+};
+
+export const createProjectController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, key, description, members, workflow } = req.body;
+
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!name || typeof name !== "string" || !name.trim()) {
+      sendError(res, "Project name is required", 400);
+      return;
+    }
+
+    if (key !== undefined && key !== null && typeof key !== "string") {
+      sendError(res, "Invalid project key. Must be 2-10 letters or digits, starting with a letter", 400);
+      return;
+    }
+
+    if (members !== undefined && !Array.isArray(members)) {
+      sendError(res, "Invalid members. Must be an array of user IDs", 400);
+      return;
+    }
+
+    if (workflow !== undefined && workflow !== null && !isValidObjectId(workflow)) {
+      sendError(res, "Invalid workflow ID format", 400);
+      return;
+    }
+
+    const createDto: CreateProjectDto = {
+      name,
+      ...(key && { key }),
+      ...(description !== undefined && description !== null && { description: String(description) }),
+      ...(members && { members }),
+      ...(workflow && { workflow }),
+    };
+
+    const project = await createProject(createDto, req.user.userId);
+    sendSuccess(res, project, 201, "Project created successfully");
+  } catch (error) {
+    handleProjectError(res, error, "Create project");
+  }
+};
+
+export const updateProjectController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, description, workflow } = req.body;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid project ID format", 400);
+      return;
+    }
+
+    if (workflow !== undefined && workflow !== null && !isValidObjectId(workflow)) {
+      sendError(res, "Invalid workflow ID format", 400);
+      return;
+    }
+
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const updateDto: UpdateProjectDto = {};
+    if (name !== undefined) updateDto.name = String(name);
+    if (description !== undefined) updateDto.description = description === null ? "" : String(description);
+    if (workflow !== undefined) updateDto.workflow = workflow;
+
+    // Check if at least one field is being updated
+    if (Object.keys(updateDto).length === 0) {
+      sendError(res, "At least one field must be provided for update", 400);
+      return;
+    }
+
+    const project = await updateProject(id, updateDto, req.user.userId, req.user.role);
+    sendSuccess(res, project, 200, "Project updated successfully");
+  } catch (error) {
+    handleProjectError(res, error, "Update project");
+  }
+};
+
+export const addProjectMembersController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { userIds } = req.body;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid project ID format", 400);
+      return;
+    }
+
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!Array.isArray(userIds) || userIds.length === 0) {
+      sendError(res, "At least one user ID is required", 400);
+      return;
+    }
+
+    const project = await addProjectMembers(id, userIds, req.user.userId, req.user.role);
+    sendSuccess(res, project, 200, "Members added successfully");
+  } catch (error) {
+    handleProjectError(res, error, "Add project members");
+  }
+};
+
+export const removeProjectMemberController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, userId } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid project ID format", 400);
+      return;
+    }
+
+    if (!isValidObjectId(userId)) {
+      sendError(res, "Invalid user ID format", 400);
+      return;
+    }
+
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const project = await removeProjectMember(id, userId, req.user.userId, req.user.role);
+    sendSuccess(res, project, 200, "Member removed successfully");
+  } catch (error) {
+    handleProjectError(res, error, "Remove project member");
+  }
+};
+
+export const deleteProjectController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid project ID format", 400);
+      return;
+    }
+
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const result = await deleteProject(id, req.user.userId, req.user.role);
+    sendSuccess(res, result, 200, "Project deleted successfully");
+  } catch (error) {
+    handleProjectError(res, error, "Delete project");
+  }
+};
@@ -0,0 +1,102 @@
+import { Request, Response } from "express";
+import { addRelation, getIssueRelations, removeRelation } from "../services/relation.service";
+import { CreateRelationDto } from "../types/relation.types";
+import { sendSuccess, sendError } from "../utils/sendResponse";
+import { isValidObjectId } from "../utils/validation";
+
+// Helper to map relation service errors to HTTP status codes
+const handleRelationError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof Error) {
+    if (error.message.includes("not found")) {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error.message.includes("already")) {
+      sendError(res, error.message, 409, error);
+      return;
+    }
+    if (error.message.includes("Invalid") || error.message.includes("required")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+  }
+  console.error(`${context} error:`, error);
+  sendError(res, "Internal server error", 500, error);
+};
+
+export const getIssueRelationsController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    const relations = await getIssueRelations(id, req.user?.userId, req.user?.role);
+    sendSuccess(res, relations);
+  } catch (error) {
+    handleRelationError(res, error, "Get issue relations");
+  }
+};
+
+export const addIssueRelationController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { type, issue } = req.body;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    if (!type || typeof type !== "string") {
+      sendError(res, "Relation type is required", 400);
+      return;
+    }
+
+    if (!issue || typeof issue !== "string") {
+      sendError(res, "Related issue is required", 400);
+      return;
+    }
+
+    const createDto: CreateRelationDto = { type: type as CreateRelationDto["type"], issue };
+    const relation = await addRelation(id, createDto, req.user.userId, req.user.role);
+    sendSuccess(res, relation, 201, "Relation added successfully");
+  } catch (error) {
+    handleRelationError(res, error, "Add issue relation");
+  }
+};
+
+export const removeIssueRelationController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, relationId } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    if (!isValidObjectId(relationId)) {
+      sendError(res, "Invalid relation ID format", 400);
+      return;
+    }
+
+    const result = await removeRelation(id, relationId, req.user.userId, req.user.role);
+    sendSuccess(res, result, 200, "Relation removed successfully");
+  } catch (error) {
+    handleRelationError(res, error, "Remove issue relation");
+  }
+};
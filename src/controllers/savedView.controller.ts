@@ -0,0 +1,172 @@
+import { Request, Response } from "express";
+import {
+  getSavedViews,
+  getSavedViewById,
+  createSavedView,
+  updateSavedView,
+  deleteSavedView,
+} from "../services/savedView.service";
+import { CreateSavedViewDto, UpdateSavedViewDto } from "../types/savedView.types";
+import { sendSuccess, sendError } from "../utils/sendResponse";
+import { isValidObjectId } from "../utils/validation";
+
+// Helper to map saved view service errors to HTTP status codes
+const handleSavedViewError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof Error) {
+    if (error.message.includes("not found")) {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error.message.includes("Only admins")) {
+      sendError(res, error.message, 403, error);
+      return;
+    }
+    if (error.message.includes("already")) {
+      sendError(res, error.message, 409, error);
+      return;
+    }
+    if (error.message.includes("Invalid") || error.message.includes("required")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+  }
+  console.error(`${context} error:`, error);
+  sendError(res, "Internal server error", 500, error);
+};
+
+export const getSavedViewsController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const views = await getSavedViews(req.user.userId, req.user.role);
+    sendSuccess(res, views);
+  } catch (error) {
+    handleSavedViewError(res, error, "Get saved views");
+  }
+};
+
+export const getSavedViewByIdController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid view ID format", 400);
+      return;
+    }
+
+    const view = await getSavedViewById(id, req.user.userId, req.user.role);
+    sendSuccess(res, view);
+  } catch (error) {
+    handleSavedViewError(res, error, "Get saved view");
+  }
+};
+
+export const createSavedViewController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, filters, sort, order, visibility, showUnreadCount } = req.body;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!name || typeof name !== "string") {
+      sendError(res, "View name is required", 400);
+      return;
+    }
+
+    if (showUnreadCount !== undefined && typeof showUnreadCount !== "boolean") {
+      sendError(res, "Invalid showUnreadCount. Must be true or false", 400);
+      return;
+    }
+
+    const createDto: CreateSavedViewDto = {
+      name,
+      ...(filters !== undefined && { filters }),
+      ...(sort !== undefined && { sort }),
+      ...(order !== undefined && { order }),
+      ...(visibility !== undefined && { visibility }),
+      ...(showUnreadCount !== undefined && { showUnreadCount }),
+    };
+
+    const view = await createSavedView(createDto, req.user.userId, req.user.role);
+    sendSuccess(res, view, 201, "Saved view created successfully");
+  } catch (error) {
+    handleSavedViewError(res, error, "Create saved view");
+  }
+};
+
+export const updateSavedViewController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, filters, sort, order, visibility, showUnreadCount } = req.body;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid view ID format", 400);
+      return;
+    }
+
+    if (showUnreadCount !== undefined && typeof showUnreadCount !== "boolean") {
+      sendError(res, "Invalid showUnreadCount. Must be true or false", 400);
+      return;
+    }
+
+    const updateDto: UpdateSavedViewDto = {};
+    if (name !== undefined) updateDto.name = name;
+    if (filters !== undefined) updateDto.filters = filters;
+    if (sort !== undefined) updateDto.sort = sort;
+    if (order !== undefined) updateDto.order = order;
+    if (visibility !== undefined) updateDto.visibility = visibility;
+    if (showUnreadCount !== undefined) updateDto.showUnreadCount = showUnreadCount;
+
+    // Check if at least one field is being updated
+    if (Object.keys(updateDto).length === 0) {
+      sendError(res, "At least one field must be provided for update", 400);
+      return;
+    }
+
+    const view = await updateSavedView(id, updateDto, req.user.userId, req.user.role);
+    sendSuccess(res, view, 200, "Saved view updated successfully");
+  } catch (error) {
+    handleSavedViewError(res, error, "Update saved view");
+  }
+};
+
+export const deleteSavedViewController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid view ID format", 400);
+      return;
+    }
+
+    const result = await deleteSavedView(id, req.user.userId, req.user.role);
+    sendSuccess(res, result, 200, "Saved view deleted successfully");
+  } catch (error) {
+    handleSavedViewError(res, error, "Delete saved view");
+  }
+};
@@ -0,0 +1,70 @@
+import { Request, Response } from "express";
+import { getSecurityEvents } from "../services/securityEvent.service";
+import { SecurityEventType } from "../models/securityEvent.model";
+import { SecurityEventFilters } from "../types/securityEvent.types";
+import { sendSuccess, sendError } from "../utils/sendResponse";
+import { isValidObjectId } from "../utils/validation";
+
+/**
+ * Query the security audit log (logins, lockouts, logouts, ...)
+ */
+export const getSecurityEventsController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { type, userId, email, ip, from, to, page, limit } = req.query;
+
+    // Validate type enum if provided
+    if (type && !Object.values(SecurityEventType).includes(type as SecurityEventType)) {
+      sendError(res, `Invalid type. Must be one of: ${Object.values(SecurityEventType).join(", ")}`, 400);
+      return;
+    }
+
+    if (userId && !isValidObjectId(userId as string)) {
+      sendError(res, "Invalid user ID format", 400);
+      return;
+    }
+
+    // Validate date range if provided
+    const fromDate = from ? new Date(from as string) : undefined;
+    const toDate = to ? new Date(to as string) : undefined;
+
+    if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+      sendError(res, "Invalid date format for from/to. Use ISO 8601", 400);
+      return;
+    }
+
+    // Validate pagination parameters
+    const pageNum = page ? parseInt(page as string, 10) : 1;
+    const limitNum = limit ? parseInt(limit as string, 10) : 20;
+
+    if (pageNum < 1) {
+      sendError(res, "Page must be greater than 0", 400);
+      return;
+    }
+
+    if (limitNum < 1 || limitNum > 100) {
+      sendError(res, "Limit must be between 1 and 100", 400);
+      return;
+    }
+
+    const filters: SecurityEventFilters = {
+      ...(type && { type: type as SecurityEventType }),
+      ...(userId && { userId: userId as string }),
+      ...(email && { email: email as string }),
+      ...(ip && { ip: ip as string }),
+      ...(fromDate && { from: fromDate }),
+      ...(toDate && { to: toDate }),
+      page: pageNum,
+      limit: limitNum,
+    };
+
+    const result = await getSecurityEvents(filters);
+    sendSuccess(res, result);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Invalid")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+    console.error("Get security events error:", error);
+    sendError(res, "Internal server error", 500, error);
+  }
+};
@@ -0,0 +1,161 @@
+import { Request, Response } from "express";
+import { createToken, getTokens, updateToken, revokeToken } from "../services/token.service";
+import { CreateTokenDto, UpdateTokenDto } from "../types/token.types";
+import { sendSuccess, sendError } from "../utils/sendResponse";
+
+/**
+ * Create a personal access token. The raw token is only returned in this response.
+ */
+export const createTokenController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, scopes, expiresInDays } = req.body;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (name !== undefined && name !== null && typeof name !== "string") {
+      sendError(res, "Invalid name", 400);
+      return;
+    }
+
+    if (!name || !name.trim()) {
+      sendError(res, "Token name is required", 400);
+      return;
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0) {
+      sendError(res, "At least one scope is required", 400);
+      return;
+    }
+
+    const createDto: CreateTokenDto = {
+      name: name.trim(),
+      scopes,
+      ...(expiresInDays !== undefined && expiresInDays !== null && { expiresInDays: Number(expiresInDays) }),
+    };
+
+    const token = await createToken(req.user.userId, createDto);
+    sendSuccess(res, token, 201, "Token created successfully. Copy it now, it will not be shown again.");
+  } catch (error) {
+    if (error instanceof Error && error.message === "User not found") {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error instanceof Error && error.message.includes("does not allow")) {
+      sendError(res, error.message, 403, error);
+      return;
+    }
+    if (error instanceof Error && (error.message.includes("Invalid") || error.message.includes("required"))) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+    console.error("Create token error:", error);
+    sendError(res, "Internal server error", 500, error);
+  }
+};
+
+/**
+ * List the logged-in user's personal access tokens
+ */
+export const getTokensController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const tokens = await getTokens(req.user.userId);
+    sendSuccess(res, tokens);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("Invalid")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+    console.error("Get tokens error:", error);
+    sendError(res, "Internal server error", 500, error);
+  }
+};
+
+/**
+ * Rename a personal access token
+ */
+export const updateTokenController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name } = req.body;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (name !== undefined && typeof name !== "string") {
+      sendError(res, "Invalid name", 400);
+      return;
+    }
+
+    const updateDto: UpdateTokenDto = {};
+    if (name !== undefined) updateDto.name = name;
+
+    if (Object.keys(updateDto).length === 0) {
+      sendError(res, "At least one field must be provided for update", 400);
+      return;
+    }
+
+    const token = await updateToken(id, updateDto, req.user.userId);
+    sendSuccess(res, token, 200, "Token updated successfully");
+  } catch (error) {
+    if (error instanceof Error && error.message === "Token not found") {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error instanceof Error && error.message.includes("only update")) {
+      sendError(res, error.message, 403, error);
+      return;
+    }
+    if (error instanceof Error && (error.message.includes("Invalid") || error.message.includes("required"))) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+    console.error("Update token error:", error);
+    sendError(res, "Internal server error", 500, error);
+  }
+};
+
+/**
+ * Revoke a personal access token
+ */
+export const revokeTokenController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    const token = await revokeToken(id, req.user.userId);
+    sendSuccess(res, token, 200, "Token revoked successfully");
+  } catch (error) {
+    if (error instanceof Error && error.message === "Token not found") {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error instanceof Error && error.message.includes("only revoke")) {
+      sendError(res, error.message, 403, error);
+      return;
+    }
+    if (error instanceof Error && error.message.includes("Invalid")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+    console.error("Revoke token error:", error);
+    sendError(res, "Internal server error", 500, error);
+  }
+};
@@ -1,13 +1,252 @@
 import { Request, Response } from "express";
-import { getAllUsers } from "../services/auth.service";
+import {
+  getAllUsers,
+  searchUsers,
+  getUserProfile,
+  createUser,
+  inviteUser,
+  updateProfile,
+  updateUserRole,
+  deactivateUser,
+  reactivateUser,
+} from "../services/user.service";
+import { CreateUserDto, UpdateProfileDto, DeactivateUserDto, UserFilters } from "../types/user.types";
+import { Role } from "../models/user.model";
+import { Permission, hasPermission } from "../config/permissions";
 import { sendSuccess, sendError } from "../utils/sendResponse";
 
+// Helper to map user service errors to HTTP responses
+const handleUserError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof Error) {
+    if (error.message.includes("not found")) {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (
+      error.message.includes("already") ||
+      error.message === "Cannot remove the last admin" ||
+      error.message === "User is not deactivated"
+    ) {
+      sendError(res, error.message, 409, error);
+      return;
+    }
+    if (error.message.includes("cannot deactivate")) {
+      sendError(res, error.message, 403, error);
+      return;
+    }
+    if (
+      error.message.includes("Invalid") ||
+      error.message.includes("required") ||
+      error.message.includes("at least")
+    ) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+  }
+  console.error(`${context} error:`, error);
+  sendError(res, "Internal server error", 500, error);
+};
+
 export const getUsers = async (req: Request, res: Response): Promise<void> => {
     try {
-      const users = await getAllUsers();
+      // Only user managers may see deactivated accounts
+      const includeDeactivated =
+        req.query.includeDeactivated === "true" && hasPermission(req.user?.role, Permission.USERS_MANAGE);
+
+      const users = await getAllUsers(includeDeactivated);
       sendSuccess(res, users, 200, "Users fetched successfully");
     } catch (error) {
       console.error("Get users error:", error);
       sendError(res, "Internal server error", 500, error);
     }
-  };
\ No newline at end of file
+  };
+
+export const searchUsersController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { search, page, limit, includeDeactivated } = req.query;
+
+      // Validate pagination parameters
+      const pageNum = page ? parseInt(page as string, 10) : 1;
+      const limitNum = limit ? parseInt(limit as string, 10) : 10;
+
+      if (pageNum < 1) {
+        sendError(res, "Page must be greater than 0", 400);
+        return;
+      }
+
+      if (limitNum < 1 || limitNum > 100) {
+        sendError(res, "Limit must be between 1 and 100", 400);
+        return;
+      }
+
+      const filters: UserFilters = {
+        ...(search && { search: search as string }),
+        // Only user managers may see deactivated accounts
+        includeDeactivated:
+          includeDeactivated === "true" && hasPermission(req.user?.role, Permission.USERS_MANAGE),
+        page: pageNum,
+        limit: limitNum,
+      };
+
+      const result = await searchUsers(filters);
+      sendSuccess(res, result);
+    } catch (error) {
+      console.error("Search users error:", error);
+      sendError(res, "Internal server error", 500, error);
+    }
+  };
+
+export const getUserProfileController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      if (!req.user || !req.user.userId) {
+        sendError(res, "Authentication required", 401);
+        return;
+      }
+
+      const profile = await getUserProfile(id, req.user.userId, req.user.role);
+      sendSuccess(res, profile);
+    } catch (error) {
+      handleUserError(res, error, "Get user profile");
+    }
+  };
+
+export const createUserController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, email, role, profileImage, password } = req.body;
+
+      if (!name || !name.trim()) {
+        sendError(res, "Name is required", 400);
+        return;
+      }
+
+      if (!email) {
+        sendError(res, "Email is required", 400);
+        return;
+      }
+
+      if (role !== undefined && !Object.values(Role).includes(role)) {
+        sendError(res, `Invalid role. Must be one of: ${Object.values(Role).join(", ")}`, 400);
+        return;
+      }
+
+      const createDto: CreateUserDto = { name, email, role, profileImage, password };
+
+      const user = await createUser(createDto);
+      sendSuccess(res, user, 201, "User created successfully");
+    } catch (error) {
+      handleUserError(res, error, "Create user");
+    }
+  };
+
+export const inviteUserController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, email, role, profileImage } = req.body;
+
+      // Get inviter from authenticated request
+      if (!req.user || !req.user.userId) {
+        sendError(res, "Authentication required", 401);
+        return;
+      }
+
+      if (!name || !name.trim()) {
+        sendError(res, "Name is required", 400);
+        return;
+      }
+
+      if (!email) {
+        sendError(res, "Email is required", 400);
+        return;
+      }
+
+      if (role !== undefined && !Object.values(Role).includes(role)) {
+        sendError(res, `Invalid role. Must be one of: ${Object.values(Role).join(", ")}`, 400);
+        return;
+      }
+
+      const user = await inviteUser({ name, email, role, profileImage }, req.user.userId);
+      sendSuccess(res, user, 201, "User invited successfully");
+    } catch (error) {
+      handleUserError(res, error, "Invite user");
+    }
+  };
+
+export const updateMyProfileController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { name, profileImage } = req.body;
+
+      // Get user ID from authenticated request
+      if (!req.user || !req.user.userId) {
+        sendError(res, "Authentication required", 401);
+        return;
+      }
+
+      const updateDto: UpdateProfileDto = {};
+      if (name !== undefined) updateDto.name = name;
+      if (profileImage !== undefined) updateDto.profileImage = profileImage;
+
+      if (Object.keys(updateDto).length === 0) {
+        sendError(res, "At least one field must be provided for update", 400);
+        return;
+      }
+
+      const user = await updateProfile(req.user.userId, updateDto);
+      sendSuccess(res, user, 200, "Profile updated successfully");
+    } catch (error) {
+      handleUserError(res, error, "Update profile");
+    }
+  };
+
+export const updateUserRoleController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { role } = req.body;
+
+      // Validate role enum
+      if (!role || !Object.values(Role).includes(role)) {
+        sendError(res, `Invalid role. Must be one of: ${Object.values(Role).join(", ")}`, 400);
+        return;
+      }
+
+      const user = await updateUserRole(id, role);
+      sendSuccess(res, user, 200, "User role updated successfully");
+    } catch (error) {
+      handleUserError(res, error, "Update user role");
+    }
+  };
+
+export const deactivateUserController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+      const { reassignTo } = req.body ?? {};
+
+      // Get actor from authenticated request
+      if (!req.user || !req.user.userId) {
+        sendError(res, "Authentication required", 401);
+        return;
+      }
+
+      // reassignTo: omitted = only report open issues, null/"unassigned" = unassign, userId = reassign
+      const deactivateDto: DeactivateUserDto = {};
+      if (reassignTo !== undefined) {
+        deactivateDto.reassignTo = reassignTo === "unassigned" ? null : reassignTo;
+      }
+
+      const result = await deactivateUser(id, req.user.userId, deactivateDto);
+      sendSuccess(res, result, 200, "User deactivated successfully");
+    } catch (error) {
+      handleUserError(res, error, "Deactivate user");
+    }
+  };
+
+export const reactivateUserController = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { id } = req.params;
+
+      const user = await reactivateUser(id);
+      sendSuccess(res, user, 200, "User reactivated successfully");
+    } catch (error) {
+      handleUserError(res, error, "Reactivate user");
+    }
+  };
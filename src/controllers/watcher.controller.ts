@@ -0,0 +1,86 @@
+import { Request, Response } from "express";
+import { getIssueWatchers, unwatchIssue, watchIssue } from "../services/watcher.service";
+import { sendSuccess, sendError } from "../utils/sendResponse";
+import { isValidObjectId } from "../utils/validation";
+
+// Helper to map watcher service errors to HTTP status codes
+const handleWatcherError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof Error) {
+    if (error.message.includes("not found")) {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error.message.includes("Invalid")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+  }
+  console.error(`${context} error:`, error);
+  sendError(res, "Internal server error", 500, error);
+};
+
+export const getIssueWatchersController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    const result = await getIssueWatchers(id, req.user.userId, req.user.role);
+    sendSuccess(res, result);
+  } catch (error) {
+    handleWatcherError(res, error, "Get issue watchers");
+  }
+};
+
+export const watchIssueController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    const result = await watchIssue(id, req.user.userId, req.user.role);
+    sendSuccess(res, result, 200, "You are now watching this issue");
+  } catch (error) {
+    handleWatcherError(res, error, "Watch issue");
+  }
+};
+
+export const unwatchIssueController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    const result = await unwatchIssue(id, req.user.userId, req.user.role);
+    sendSuccess(res, result, 200, "You are no longer watching this issue");
+  } catch (error) {
+    handleWatcherError(res, error, "Unwatch issue");
+  }
+};
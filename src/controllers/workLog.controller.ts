@@ -0,0 +1,184 @@
+import { Request, Response } from "express";
+import {
+  getWorkLogs,
+  addWorkLog,
+  updateWorkLog,
+  deleteWorkLog,
+  getTimeReport,
+} from "../services/workLog.service";
+import { CreateWorkLogDto, TimeReportOptions, UpdateWorkLogDto } from "../types/workLog.types";
+import { sendSuccess, sendError } from "../utils/sendResponse";
+import { isValidObjectId } from "../utils/validation";
+
+// Helper to map work log service errors to HTTP status codes
+const handleWorkLogError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof Error) {
+    if (error.message.includes("not found")) {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (error.message.includes("You can only")) {
+      sendError(res, error.message, 403, error);
+      return;
+    }
+    if (error.message.includes("Invalid") || error.message.includes("required")) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+  }
+  console.error(`${context} error:`, error);
+  sendError(res, "Internal server error", 500, error);
+};
+
+export const getWorkLogsController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    // Validate pagination parameters
+    const pageNum = req.query.page ? parseInt(req.query.page as string, 10) : 1;
+    const limitNum = req.query.limit ? parseInt(req.query.limit as string, 10) : 20;
+
+    if (isNaN(pageNum) || pageNum < 1) {
+      sendError(res, "Page must be greater than 0", 400);
+      return;
+    }
+
+    if (isNaN(limitNum) || limitNum < 1 || limitNum > 100) {
+      sendError(res, "Limit must be between 1 and 100", 400);
+      return;
+    }
+
+    const result = await getWorkLogs(id, pageNum, limitNum, req.user?.userId, req.user?.role);
+    sendSuccess(res, result);
+  } catch (error) {
+    handleWorkLogError(res, error, "Get work logs");
+  }
+};
+
+export const addWorkLogController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { duration, date, note, remainingEstimate } = req.body;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid issue ID format", 400);
+      return;
+    }
+
+    if (duration === undefined || duration === null || duration === "") {
+      sendError(res, "Duration is required", 400);
+      return;
+    }
+
+    // Durations, dates and estimates are checked by the service
+    const createDto: CreateWorkLogDto = {
+      duration,
+      ...(date !== undefined && { date }),
+      ...(note !== undefined && { note }),
+      ...(remainingEstimate !== undefined && { remainingEstimate }),
+    };
+
+    const workLog = await addWorkLog(id, createDto, req.user.userId, req.user.role);
+    sendSuccess(res, workLog, 201, "Time logged successfully");
+  } catch (error) {
+    handleWorkLogError(res, error, "Add work log");
+  }
+};
+
+export const updateWorkLogController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { duration, date, note } = req.body;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid work log ID format", 400);
+      return;
+    }
+
+    const updateDto: UpdateWorkLogDto = {};
+    if (duration !== undefined) updateDto.duration = duration;
+    if (date !== undefined) updateDto.date = date;
+    if (note !== undefined) updateDto.note = note;
+
+    // Check if at least one field is being updated
+    if (Object.keys(updateDto).length === 0) {
+      sendError(res, "At least one field must be provided for update", 400);
+      return;
+    }
+
+    const workLog = await updateWorkLog(id, updateDto, req.user.userId, req.user.role);
+    sendSuccess(res, workLog, 200, "Work log updated successfully");
+  } catch (error) {
+    handleWorkLogError(res, error, "Update work log");
+  }
+};
+
+export const deleteWorkLogController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid work log ID format", 400);
+      return;
+    }
+
+    const result = await deleteWorkLog(id, req.user.userId, req.user.role);
+    sendSuccess(res, result, 200, "Work log deleted successfully");
+  } catch (error) {
+    handleWorkLogError(res, error, "Delete work log");
+  }
+};
+
+export const getTimeReportController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { from, to, project, user } = req.query;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    for (const [name, value] of Object.entries({ from, to, project, user })) {
+      if (value !== undefined && typeof value !== "string") {
+        sendError(res, `Invalid ${name}. Must be a single value`, 400);
+        return;
+      }
+    }
+
+    const options: TimeReportOptions = {
+      ...(from && { from: from as string }),
+      ...(to && { to: to as string }),
+      ...(project && { project: project as string }),
+      ...(user && { user: user as string }),
+    };
+
+    const report = await getTimeReport(options, req.user.userId, req.user.role);
+    sendSuccess(res, report);
+  } catch (error) {
+    handleWorkLogError(res, error, "Get time report");
+  }
+};
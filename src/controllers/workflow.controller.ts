@@ -0,0 +1,170 @@
+import { Request, Response } from "express";
+import {
+  getWorkflows,
+  getWorkflowById,
+  createWorkflow,
+  updateWorkflow,
+  deleteWorkflow,
+} from "../services/workflow.service";
+import { CreateWorkflowDto, UpdateWorkflowDto } from "../types/workflow.types";
+import { sendSuccess, sendError } from "../utils/sendResponse";
+import { isValidObjectId } from "../utils/validation";
+
+// Helper to map workflow service errors to HTTP status codes
+const handleWorkflowError = (res: Response, error: unknown, context: string): void => {
+  if (error instanceof Error) {
+    if (error.message.includes("not found")) {
+      sendError(res, error.message, 404, error);
+      return;
+    }
+    if (
+      error.message.includes("already exists") ||
+      error.message.includes("still used") ||
+      error.message.startsWith("Cannot apply workflow")
+    ) {
+      sendError(res, error.message, 409, error);
+      return;
+    }
+    if (
+      error.message.includes("Invalid") ||
+      error.message.includes("required") ||
+      error.message.includes("At least")
+    ) {
+      sendError(res, error.message, 400, error);
+      return;
+    }
+  }
+  console.error(`${context} error:`, error);
+  sendError(res, "Internal server error", 500, error);
+};
+
+export const getWorkflowsController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const workflows = await getWorkflows();
+    sendSuccess(res, workflows);
+  } catch (error) {
+    handleWorkflowError(res, error, "Get workflows");
+  }
+};
+
+export const getWorkflowByIdController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid workflow ID format", 400);
+      return;
+    }
+
+    const workflow = await getWorkflowById(id);
+    sendSuccess(res, workflow);
+  } catch (error) {
+    handleWorkflowError(res, error, "Get workflow");
+  }
+};
+
+export const createWorkflowController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, description, statuses, initialStatus, transitions } = req.body;
+
+    // Get user ID from authenticated request
+    if (!req.user || !req.user.userId) {
+      sendError(res, "Authentication required", 401);
+      return;
+    }
+
+    if (!name || typeof name !== "string" || !name.trim()) {
+      sendError(res, "Workflow name is required", 400);
+      return;
+    }
+
+    if (!Array.isArray(statuses)) {
+      sendError(res, "Invalid statuses. Must be an array of { name, category } objects", 400);
+      return;
+    }
+
+    if (transitions !== undefined && !Array.isArray(transitions)) {
+      sendError(res, "Invalid transitions. Must be an array of { from, to } objects", 400);
+      return;
+    }
+
+    if (initialStatus !== undefined && typeof initialStatus !== "string") {
+      sendError(res, "Invalid initialStatus. Must be a status name", 400);
+      return;
+    }
+
+    const createDto: CreateWorkflowDto = {
+      name,
+      statuses,
+      transitions: transitions || [],
+      ...(initialStatus !== undefined && { initialStatus }),
+      ...(description !== undefined && description !== null && { description: String(description) }),
+    };
+
+    const workflow = await createWorkflow(createDto, req.user.userId);
+    sendSuccess(res, workflow, 201, "Workflow created successfully");
+  } catch (error) {
+    handleWorkflowError(res, error, "Create workflow");
+  }
+};
+
+export const updateWorkflowController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, description, statuses, initialStatus, transitions } = req.body;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid workflow ID format", 400);
+      return;
+    }
+
+    if (statuses !== undefined && !Array.isArray(statuses)) {
+      sendError(res, "Invalid statuses. Must be an array of { name, category } objects", 400);
+      return;
+    }
+
+    if (transitions !== undefined && !Array.isArray(transitions)) {
+      sendError(res, "Invalid transitions. Must be an array of { from, to } objects", 400);
+      return;
+    }
+
+    if (initialStatus !== undefined && typeof initialStatus !== "string") {
+      sendError(res, "Invalid initialStatus. Must be a status name", 400);
+      return;
+    }
+
+    const updateDto: UpdateWorkflowDto = {};
+    if (name !== undefined) updateDto.name = String(name);
+    if (description !== undefined) updateDto.description = description === null ? "" : String(description);
+    if (statuses !== undefined) updateDto.statuses = statuses;
+    if (initialStatus !== undefined) updateDto.initialStatus = initialStatus;
+    if (transitions !== undefined) updateDto.transitions = transitions;
+
+    // Check if at least one field is being updated
+    if (Object.keys(updateDto).length === 0) {
+      sendError(res, "At least one field must be provided for update", 400);
+      return;
+    }
+
+    const workflow = await updateWorkflow(id, updateDto);
+    sendSuccess(res, workflow, 200, "Workflow updated successfully");
+  } catch (error) {
+    handleWorkflowError(res, error, "Update workflow");
+  }
+};
+
+export const deleteWorkflowController = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!isValidObjectId(id)) {
+      sendError(res, "Invalid workflow ID format", 400);
+      return;
+    }
+
+    const result = await deleteWorkflow(id);
+    sendSuccess(res, result, 200, "Workflow deleted successfully");
+  } catch (error) {
+    handleWorkflowError(res, error, "Delete workflow");
+  }
+};
@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from "express";
 import { verifyToken } from "../utils/jwt";
 import { sendError } from "../utils/sendResponse";
+import { isSessionActive } from "../services/session.service";
+import { isPersonalAccessToken, verifyPersonalAccessToken } from "../services/token.service";
+import User, { Role } from "../models/user.model";
+import { Permission, hasPermission } from "../config/permissions";
 
 // Extend Express Request to include user
 declare global {
@@ -9,28 +13,54 @@ declare global {
       user?: {
         userId: string;
         email: string;
+        role: Role;
+        sessionId?: string; // set for browser/JWT logins
+        tokenId?: string; // set when authenticated with a personal access token
+        scopes?: Permission[]; // personal access token scopes
       };
     }
   }
 }
 
-export const authenticate = (
+export const authenticate = async (
   req: Request,
   res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
-    // Try to get token from cookie first
-    let token = req.cookies?.token;
+    const authHeader = req.headers.authorization;
+    const bearerToken =
+      authHeader && authHeader.startsWith("Bearer ") ? authHeader.substring(7) : undefined;
 
-    // If not in cookie, try Authorization header
-    if (!token) {
-      const authHeader = req.headers.authorization;
-      if (authHeader && authHeader.startsWith("Bearer ")) {
-        token = authHeader.substring(7);
+    // Personal access tokens (scripts, CI) are always sent in the Authorization header
+    if (bearerToken && isPersonalAccessToken(bearerToken)) {
+      const identity = await verifyPersonalAccessToken(bearerToken, req.ip);
+      if (!identity) {
+        sendError(res, "Invalid, expired or revoked access token.", 401);
+        return;
+      }
+
+      const tokenOwner = await User.findById(identity.userId).select("role deactivatedAt");
+      if (!tokenOwner || tokenOwner.deactivatedAt) {
+        sendError(res, "Invalid, expired or revoked access token.", 401);
+        return;
       }
+
+      req.user = {
+        userId: identity.userId,
+        email: identity.email,
+        role: tokenOwner.role,
+        tokenId: identity.tokenId,
+        scopes: identity.scopes,
+      };
+
+      next();
+      return;
     }
 
+    // Try to get token from cookie first, then Authorization header
+    const token = req.cookies?.token || bearerToken;
+
     // If no token found
     if (!token) {
       sendError(res, "Authentication required. Please login.", 401);
@@ -44,10 +74,30 @@ export const authenticate = (
       return;
     }
 
+    // Reject tokens whose session was logged out or revoked
+    if (!decoded.sessionId || !(await isSessionActive(decoded.sessionId))) {
+      sendError(res, "Session has been revoked. Please login again.", 401);
+      return;
+    }
+
+    // Role is read from the database so role changes apply immediately
+    const user = await User.findById(decoded.userId).select("role deactivatedAt");
+    if (!user) {
+      sendError(res, "User no longer exists. Please login again.", 401);
+      return;
+    }
+
+    if (user.deactivatedAt) {
+      sendError(res, "This account has been deactivated.", 401);
+      return;
+    }
+
     // Attach user info to request
     req.user = {
       userId: decoded.userId,
       email: decoded.email,
+      role: user.role,
+      sessionId: decoded.sessionId,
     };
 
     next();
@@ -56,3 +106,38 @@ export const authenticate = (
   }
 };
 
+/**
+ * Require every listed permission. Must run after `authenticate`.
+ * Personal access tokens also need each permission in their scopes.
+ */
+export const authorize = (...permissions: Permission[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      sendError(res, "Authentication required. Please login.", 401);
+      return;
+    }
+
+    const { role, scopes } = req.user;
+    const missing = permissions.filter(
+      (permission) => !hasPermission(role, permission) || (scopes !== undefined && !scopes.includes(permission))
+    );
+    if (missing.length > 0) {
+      sendError(res, `You do not have permission to perform this action (requires: ${missing.join(", ")})`, 403);
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Reject personal access tokens. Used for account-level routes such as token management.
+ */
+export const requireSession = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user || !req.user.sessionId) {
+    sendError(res, "This action requires an interactive login session", 403);
+    return;
+  }
+
+  next();
+};
@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IAttachment extends Document {
+  issue: mongoose.Types.ObjectId;
+  comment: mongoose.Types.ObjectId | null; // set when the file was attached to a comment on the issue
+  filename: string; // as uploaded, used for downloads
+  mimeType: string;
+  size: number; // bytes
+  storageKey: string; // where the storage backend keeps the file
+  uploadedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attachmentSchema = new Schema<IAttachment>(
+  {
+    issue: {
+      type: Schema.Types.ObjectId,
+      ref: "Issue",
+      required: true,
+    },
+    comment: {
+      type: Schema.Types.ObjectId,
+      ref: "Comment",
+      default: null,
+    },
+    filename: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+    },
+    storageKey: {
+      type: String,
+      required: true,
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+attachmentSchema.index({ issue: 1, comment: 1, createdAt: 1 });
+attachmentSchema.index({ comment: 1 });
+
+const Attachment = mongoose.model<IAttachment>("Attachment", attachmentSchema);
+
+export default Attachment;
@@ -1,10 +1,12 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { commentTextIndex } from "../config/search";
 
 export interface IComment extends Document {
   content: string;
   issue: mongoose.Types.ObjectId;
   createdBy: mongoose.Types.ObjectId;
   mentions: mongoose.Types.ObjectId[];
+  references: mongoose.Types.ObjectId[]; // issues whose keys appear in the content
   createdAt: Date;
   updatedAt: Date;
 }
@@ -32,9 +34,17 @@ const commentSchema = new Schema<IComment>(
         ref: "User",
       },
     ],
+    references: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Issue",
+      },
+    ],
   },
   {
     timestamps: true,
+    // Every save bumps the version (__v) and fails if someone saved in between
+    optimisticConcurrency: true,
   }
 );
 
@@ -42,6 +52,14 @@ const commentSchema = new Schema<IComment>(
 commentSchema.index({ issue: 1, createdAt: -1 });
 commentSchema.index({ createdBy: 1 });
 commentSchema.index({ mentions: 1 });
+commentSchema.index(commentTextIndex.fields, commentTextIndex.options);
+
+// Files attached to the comment
+commentSchema.virtual("attachments", {
+  ref: "Attachment",
+  localField: "_id",
+  foreignField: "comment",
+});
 
 const Comment = mongoose.model<IComment>("Comment", commentSchema);
 
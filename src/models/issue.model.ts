@@ -1,4 +1,5 @@
 import mongoose, { Document, Schema } from "mongoose";
+import { issueTextIndex } from "../config/search";
 
 export enum Priority {
   LOW = "Low",
@@ -6,25 +7,65 @@ export enum Priority {
   HIGH = "High",
 }
 
+// Statuses of the built-in workflow. Projects with a custom workflow use its status names instead.
 export enum Status {
   OPEN = "Open",
   IN_PROGRESS = "In Progress",
   RESOLVED = "Resolved",
 }
 
+// Severity of each priority, stored on issues so they can be sorted by it
+export const PRIORITY_RANK: Record<Priority, number> = {
+  [Priority.LOW]: 1,
+  [Priority.MEDIUM]: 2,
+  [Priority.HIGH]: 3,
+};
+
+// Every workflow status belongs to one of these, so issues can be grouped across workflows
+export enum StatusCategory {
+  OPEN = "open",
+  IN_PROGRESS = "in_progress",
+  DONE = "done",
+}
+
 export interface IIssue extends Document {
+  key: string; // e.g. BX-142, from the project key and its issue counter
+  previousKeys: string[]; // keys from projects the issue was moved out of, still accepted in lookups
   title: string;
   description: string;
   priority: Priority;
-  status: Status;
+  priorityRank: number; // PRIORITY_RANK of `priority`, kept in sync on save
+  status: string; // a status of the project's workflow
+  statusCategory: StatusCategory; // category of `status`, kept in sync by the workflow service
   assignee: mongoose.Types.ObjectId | null;
   createdBy: mongoose.Types.ObjectId;
+  project: mongoose.Types.ObjectId;
+  labels: mongoose.Types.ObjectId[];
+  watchers: mongoose.Types.ObjectId[]; // users notified about changes to the issue
+  dueDate: Date | null;
+  originalEstimate: number | null; // minutes
+  remainingEstimate: number | null; // minutes, reduced as time is logged
+  timeSpent: number; // minutes logged on the issue, kept in sync by the work log service
+  dueSoonNotifiedAt: Date | null; // set once the assignee got a "due soon" reminder for this due date
+  overdueNotifiedAt: Date | null; // set once the assignee got an "overdue" reminder for this due date
+  archivedAt: Date | null; // set when the issue is soft-deleted
+  archivedBy: mongoose.Types.ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
 const issueSchema = new Schema<IIssue>(
   {
+    // Issues created before keys existed get one from npm run migrate-issue-keys
+    key: {
+      type: String,
+      uppercase: true,
+      trim: true,
+    },
+    previousKeys: {
+      type: [String],
+      default: [],
+    },
     title: {
       type: String,
       required: true,
@@ -41,11 +82,21 @@ const issueSchema = new Schema<IIssue>(
       required: true,
       default: Priority.MEDIUM,
     },
+    priorityRank: {
+      type: Number,
+      required: true,
+      default: PRIORITY_RANK[Priority.MEDIUM],
+    },
     status: {
       type: String,
-      enum: Object.values(Status),
       required: true,
-      default: Status.OPEN,
+      trim: true,
+    },
+    statusCategory: {
+      type: String,
+      enum: Object.values(StatusCategory),
+      required: true,
+      default: StatusCategory.OPEN,
     },
     assignee: {
       type: Schema.Types.ObjectId,
@@ -57,17 +108,98 @@ const issueSchema = new Schema<IIssue>(
       ref: "User",
       required: true,
     },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: "Project",
+      required: true,
+    },
+    labels: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "Label",
+      },
+    ],
+    watchers: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+    dueDate: {
+      type: Date,
+      default: null,
+    },
+    originalEstimate: {
+      type: Number,
+      default: null,
+      min: 0,
+    },
+    remainingEstimate: {
+      type: Number,
+      default: null,
+      min: 0,
+    },
+    timeSpent: {
+      type: Number,
+      default: 0,
+    },
+    dueSoonNotifiedAt: {
+      type: Date,
+      default: null,
+    },
+    overdueNotifiedAt: {
+      type: Date,
+      default: null,
+    },
+    archivedAt: {
+      type: Date,
+      default: null,
+    },
+    archivedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
   },
   {
     timestamps: true,
+    // Every save bumps the version (__v) and fails if someone saved in between
+    optimisticConcurrency: true,
   }
 );
 
 // Indexes for better query performance
 issueSchema.index({ status: 1 });
+issueSchema.index({ statusCategory: 1 });
 issueSchema.index({ priority: 1 });
 issueSchema.index({ assignee: 1 });
 issueSchema.index({ createdAt: -1 });
+issueSchema.index({ project: 1, createdAt: -1 });
+issueSchema.index({ archivedAt: 1 });
+issueSchema.index({ labels: 1 });
+issueSchema.index({ dueDate: 1, statusCategory: 1 });
+issueSchema.index({ updatedAt: -1 });
+issueSchema.index({ priorityRank: -1 });
+issueSchema.index({ title: 1 });
+issueSchema.index({ key: 1 }, { unique: true, partialFilterExpression: { key: { $type: "string" } } });
+issueSchema.index({ previousKeys: 1 });
+issueSchema.index(issueTextIndex.fields, issueTextIndex.options);
+
+// Files attached to the issue itself; files attached to its comments are listed on the comments
+issueSchema.virtual("attachments", {
+  ref: "Attachment",
+  localField: "_id",
+  foreignField: "issue",
+  match: { comment: null },
+});
+
+// Keep the priority rank in step with the priority
+issueSchema.pre("save", function (next) {
+  if (this.isNew || this.isModified("priority")) {
+    this.priorityRank = PRIORITY_RANK[this.priority];
+  }
+  next();
+});
 
 const Issue = mongoose.model<IIssue>("Issue", issueSchema);
 
@@ -0,0 +1,97 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export enum ActivityType {
+  ISSUE_CREATED = "issue_created",
+  FIELD_CHANGED = "field_changed",
+  ISSUE_ARCHIVED = "issue_archived",
+  ISSUE_RESTORED = "issue_restored",
+  COMMENT_ADDED = "comment_added",
+  COMMENT_EDITED = "comment_edited",
+  COMMENT_DELETED = "comment_deleted",
+  RELATION_ADDED = "relation_added",
+  RELATION_REMOVED = "relation_removed",
+  ATTACHMENT_ADDED = "attachment_added",
+  ATTACHMENT_REMOVED = "attachment_removed",
+  WORK_LOGGED = "work_logged",
+  WORK_LOG_EDITED = "work_log_edited",
+  WORK_LOG_DELETED = "work_log_deleted",
+}
+
+export interface IIssueActivity extends Document {
+  issue: mongoose.Types.ObjectId;
+  actor: mongoose.Types.ObjectId | null; // null for system changes
+  type: ActivityType;
+  field?: string; // changed issue field, for field_changed
+  oldValue?: unknown;
+  newValue?: unknown;
+  comment?: mongoose.Types.ObjectId; // for comment activity and files attached to comments
+  createdAt: Date;
+}
+
+const issueActivitySchema = new Schema<IIssueActivity>(
+  {
+    issue: {
+      type: Schema.Types.ObjectId,
+      ref: "Issue",
+      required: true,
+      immutable: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+      immutable: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(ActivityType),
+      required: true,
+      immutable: true,
+    },
+    field: {
+      type: String,
+      required: false,
+      immutable: true,
+    },
+    oldValue: {
+      type: Schema.Types.Mixed,
+      required: false,
+      immutable: true,
+    },
+    newValue: {
+      type: Schema.Types.Mixed,
+      required: false,
+      immutable: true,
+    },
+    comment: {
+      type: Schema.Types.ObjectId,
+      ref: "Comment",
+      required: false,
+      immutable: true,
+    },
+  },
+  {
+    // Entries are never updated, so there is no updatedAt
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Activity is an audit trail: entries can be added but never changed
+const rejectUpdate = function () {
+  throw new Error("Issue activity is immutable");
+};
+issueActivitySchema.pre("save", function (next) {
+  if (!this.isNew) {
+    return next(new Error("Issue activity is immutable"));
+  }
+  next();
+});
+issueActivitySchema.pre(["updateOne", "updateMany", "findOneAndUpdate", "replaceOne", "findOneAndReplace"], rejectUpdate);
+
+// Indexes for better query performance
+issueActivitySchema.index({ issue: 1, createdAt: -1 });
+issueActivitySchema.index({ actor: 1, createdAt: -1 });
+
+const IssueActivity = mongoose.model<IIssueActivity>("IssueActivity", issueActivitySchema);
+
+export default IssueActivity;
@@ -0,0 +1,53 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Stored direction of a relation: "<source> blocks <target>", "<source> is a parent of <target>"
+export enum RelationType {
+  BLOCKS = "blocks",
+  DUPLICATES = "duplicates",
+  RELATES_TO = "relates_to", // symmetric
+  PARENT_OF = "parent_of", // target is a sub-task of source
+}
+
+export interface IIssueRelation extends Document {
+  source: mongoose.Types.ObjectId;
+  target: mongoose.Types.ObjectId;
+  type: RelationType;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+}
+
+const issueRelationSchema = new Schema<IIssueRelation>(
+  {
+    source: {
+      type: Schema.Types.ObjectId,
+      ref: "Issue",
+      required: true,
+    },
+    target: {
+      type: Schema.Types.ObjectId,
+      ref: "Issue",
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(RelationType),
+      required: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// Indexes for looking up relations from either side
+issueRelationSchema.index({ source: 1, target: 1, type: 1 }, { unique: true });
+issueRelationSchema.index({ target: 1, type: 1 });
+
+const IssueRelation = mongoose.model<IIssueRelation>("IssueRelation", issueRelationSchema);
+
+export default IssueRelation;
@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export const DEFAULT_LABEL_COLOR = "#6b7280";
+
+export interface ILabel extends Document {
+  name: string;
+  color: string; // hex color, e.g. #d73a4a
+  description: string;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const labelSchema = new Schema<ILabel>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    color: {
+      type: String,
+      required: true,
+      default: DEFAULT_LABEL_COLOR,
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: "",
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Label names are unique regardless of case ("Bug" and "bug" are the same label)
+labelSchema.index({ name: 1 }, { unique: true, collation: { locale: "en", strength: 2 } });
+
+const Label = mongoose.model<ILabel>("Label", labelSchema);
+
+export default Label;
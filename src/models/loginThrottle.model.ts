@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface ILoginThrottle extends Document {
+  key: string; // "ip:<address>" or "account:<email>", prefixed with "magic-link:" for magic link requests
+  failures: number;
+  windowStart: Date;
+  lockedUntil: Date | null;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const loginThrottleSchema = new Schema<ILoginThrottle>(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+    },
+    windowStart: {
+      type: Date,
+      required: true,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Drop counters once both the attempt window and any lockout have passed
+loginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LoginThrottle = mongoose.model<ILoginThrottle>("LoginThrottle", loginThrottleSchema);
+
+export default LoginThrottle;
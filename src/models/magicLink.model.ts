@@ -0,0 +1,45 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IMagicLink extends Document {
+  user: mongoose.Types.ObjectId;
+  tokenHash: string; // SHA-256 of the emailed token, the raw token is never stored
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const magicLinkSchema = new Schema<IMagicLink>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+magicLinkSchema.index({ user: 1 });
+// Let MongoDB clean up expired links automatically
+magicLinkSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const MagicLink = mongoose.model<IMagicLink>("MagicLink", magicLinkSchema);
+
+export default MagicLink;
@@ -8,6 +8,8 @@ export enum NotificationType {
   PRIORITY_CHANGED = "priority_changed",
   COMMENT_ADDED = "comment_added",
   MENTIONED = "mentioned",
+  DUE_SOON = "due_soon",
+  OVERDUE = "overdue",
 }
 
 export interface INotification extends Document {
@@ -0,0 +1,47 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IOidcLoginState extends Document {
+  state: string;
+  nonce: string;
+  codeVerifier: string; // PKCE verifier, sent with the code exchange
+  redirectTo: string; // frontend path to return to after login
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const oidcLoginStateSchema = new Schema<IOidcLoginState>(
+  {
+    state: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    nonce: {
+      type: String,
+      required: true,
+    },
+    codeVerifier: {
+      type: String,
+      required: true,
+    },
+    redirectTo: {
+      type: String,
+      default: "/",
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Abandoned logins are cleaned up automatically
+oidcLoginStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const OidcLoginState = mongoose.model<IOidcLoginState>("OidcLoginState", oidcLoginStateSchema);
+
+export default OidcLoginState;
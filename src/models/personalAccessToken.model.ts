@@ -0,0 +1,75 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { Permission } from "../config/permissions";
+
+export interface IPersonalAccessToken extends Document {
+  user: mongoose.Types.ObjectId;
+  name: string;
+  scopes: Permission[];
+  tokenHash: string; // SHA-256 of the token, the raw token is only shown once at creation
+  tokenPrefix: string; // first characters of the token so users can recognise it in lists
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp?: string;
+  revokedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const personalAccessTokenSchema = new Schema<IPersonalAccessToken>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    scopes: [
+      {
+        type: String,
+        enum: Object.values(Permission),
+      },
+    ],
+    tokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    tokenPrefix: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+    lastUsedIp: {
+      type: String,
+      required: false,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+personalAccessTokenSchema.index({ user: 1, revokedAt: 1, createdAt: -1 });
+
+const PersonalAccessToken = mongoose.model<IPersonalAccessToken>(
+  "PersonalAccessToken",
+  personalAccessTokenSchema
+);
+
+export default PersonalAccessToken;
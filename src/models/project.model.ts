@@ -0,0 +1,69 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+// Project created by the seed and migration scripts
+export const DEFAULT_PROJECT_NAME = "General";
+
+export interface IProject extends Document {
+  name: string;
+  key: string; // prefix of its issue keys, e.g. BX
+  issueCounter: number; // number of the last issue key handed out
+  description: string;
+  members: mongoose.Types.ObjectId[];
+  workflow: mongoose.Types.ObjectId | null; // null uses the built-in workflow
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const projectSchema = new Schema<IProject>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    // Projects created before keys existed get one from npm run migrate-issue-keys
+    key: {
+      type: String,
+      uppercase: true,
+      trim: true,
+    },
+    issueCounter: {
+      type: Number,
+      default: 0,
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: "",
+    },
+    members: [
+      {
+        type: Schema.Types.ObjectId,
+        ref: "User",
+      },
+    ],
+    workflow: {
+      type: Schema.Types.ObjectId,
+      ref: "Workflow",
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+projectSchema.index({ name: 1 }, { unique: true, collation: { locale: "en", strength: 2 } });
+projectSchema.index({ members: 1 });
+projectSchema.index({ key: 1 }, { unique: true, partialFilterExpression: { key: { $type: "string" } } });
+
+const Project = mongoose.model<IProject>("Project", projectSchema);
+
+export default Project;
@@ -0,0 +1,118 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { Priority, StatusCategory } from "./issue.model";
+import { IssueSort, SortOrder } from "../types/issue.types";
+import { LabelMatch } from "../types/label.types";
+
+export enum ViewVisibility {
+  PRIVATE = "private", // only the owner sees it
+  SHARED = "shared", // everyone sees it, only the owner changes it
+}
+
+export interface ISavedViewFilters {
+  project?: string;
+  status?: string;
+  statusCategory?: StatusCategory;
+  priority?: Priority;
+  assignee?: string; // userId, "unassigned" or "me"
+  labels?: string[];
+  labelMatch?: LabelMatch;
+  dueBefore?: Date;
+  dueAfter?: Date;
+  overdue?: boolean;
+  includeArchived?: boolean;
+  q?: string;
+  query?: string;
+}
+
+export interface ISavedView extends Document {
+  name: string;
+  owner: mongoose.Types.ObjectId;
+  visibility: ViewVisibility;
+  filters: ISavedViewFilters;
+  sort: IssueSort | null;
+  order: SortOrder | null;
+  showUnreadCount: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedViewFiltersSchema = new Schema<ISavedViewFilters>(
+  {
+    project: String,
+    status: String,
+    statusCategory: {
+      type: String,
+      enum: Object.values(StatusCategory),
+    },
+    priority: {
+      type: String,
+      enum: Object.values(Priority),
+    },
+    assignee: String,
+    labels: {
+      type: [String],
+      default: undefined,
+    },
+    labelMatch: {
+      type: String,
+      enum: Object.values(LabelMatch),
+    },
+    dueBefore: Date,
+    dueAfter: Date,
+    overdue: Boolean,
+    includeArchived: Boolean,
+    q: String,
+    query: String,
+  },
+  { _id: false }
+);
+
+const savedViewSchema = new Schema<ISavedView>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    visibility: {
+      type: String,
+      enum: Object.values(ViewVisibility),
+      required: true,
+      default: ViewVisibility.PRIVATE,
+    },
+    filters: {
+      type: savedViewFiltersSchema,
+      default: () => ({}),
+    },
+    sort: {
+      type: String,
+      enum: [...Object.values(IssueSort), null],
+      default: null,
+    },
+    order: {
+      type: String,
+      enum: [...Object.values(SortOrder), null],
+      default: null,
+    },
+    showUnreadCount: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A user's view names are unique regardless of case
+savedViewSchema.index({ owner: 1, name: 1 }, { unique: true, collation: { locale: "en", strength: 2 } });
+savedViewSchema.index({ visibility: 1 });
+
+const SavedView = mongoose.model<ISavedView>("SavedView", savedViewSchema);
+
+export default SavedView;
@@ -0,0 +1,32 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface ISavedViewVisit extends Document {
+  view: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  openedAt: Date; // when the user last ran the view
+}
+
+const savedViewVisitSchema = new Schema<ISavedViewVisit>({
+  view: {
+    type: Schema.Types.ObjectId,
+    ref: "SavedView",
+    required: true,
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  openedAt: {
+    type: Date,
+    required: true,
+  },
+});
+
+// One visit per user and view; listing a user's views reads their most recent visits
+savedViewVisitSchema.index({ view: 1, user: 1 }, { unique: true });
+savedViewVisitSchema.index({ user: 1, openedAt: -1 });
+
+const SavedViewVisit = mongoose.model<ISavedViewVisit>("SavedViewVisit", savedViewVisitSchema);
+
+export default SavedViewVisit;
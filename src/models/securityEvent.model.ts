@@ -0,0 +1,73 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export enum SecurityEventType {
+  LOGIN_SUCCEEDED = "login_succeeded",
+  LOGIN_FAILED = "login_failed",
+  LOGIN_THROTTLED = "login_throttled",
+  ACCOUNT_LOCKED = "account_locked",
+  IP_LOCKED = "ip_locked",
+  LOGOUT = "logout",
+  MAGIC_LINK_REQUESTED = "magic_link_requested",
+  MAGIC_LINK_LOGIN = "magic_link_login",
+  PASSWORD_CHANGED = "password_changed",
+  SESSIONS_REVOKED = "sessions_revoked",
+  REFRESH_TOKEN_REUSED = "refresh_token_reused",
+}
+
+export interface ISecurityEvent extends Document {
+  type: SecurityEventType;
+  user: mongoose.Types.ObjectId | null;
+  email?: string;
+  ip?: string;
+  userAgent?: string;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const securityEventSchema = new Schema<ISecurityEvent>(
+  {
+    type: {
+      type: String,
+      enum: Object.values(SecurityEventType),
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      default: null,
+    },
+    email: {
+      type: String,
+      required: false,
+      lowercase: true,
+      trim: true,
+    },
+    ip: {
+      type: String,
+      required: false,
+    },
+    userAgent: {
+      type: String,
+      required: false,
+    },
+    details: {
+      type: Schema.Types.Mixed,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+securityEventSchema.index({ createdAt: -1 });
+securityEventSchema.index({ type: 1, createdAt: -1 });
+securityEventSchema.index({ user: 1, createdAt: -1 });
+securityEventSchema.index({ email: 1, createdAt: -1 });
+securityEventSchema.index({ ip: 1, createdAt: -1 });
+
+const SecurityEvent = mongoose.model<ISecurityEvent>("SecurityEvent", securityEventSchema);
+
+export default SecurityEvent;
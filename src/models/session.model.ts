@@ -0,0 +1,67 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface ISession extends Document {
+  user: mongoose.Types.ObjectId;
+  refreshTokenHash: string; // SHA-256 of the current refresh token
+  previousRefreshTokenHashes: string[]; // rotated-out tokens, used to detect reuse
+  expiresAt: Date;
+  revokedAt: Date | null;
+  lastUsedAt: Date;
+  userAgent?: string;
+  ip?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sessionSchema = new Schema<ISession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    refreshTokenHash: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    previousRefreshTokenHashes: [
+      {
+        type: String,
+      },
+    ],
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: Date.now,
+    },
+    userAgent: {
+      type: String,
+      required: false,
+    },
+    ip: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+sessionSchema.index({ user: 1, revokedAt: 1 });
+sessionSchema.index({ previousRefreshTokenHashes: 1 });
+// Expired sessions are useless for refresh and for revocation checks, so drop them
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session = mongoose.model<ISession>("Session", sessionSchema);
+
+export default Session;
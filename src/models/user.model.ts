@@ -1,9 +1,19 @@
 import mongoose, { Document, Schema } from "mongoose";
 
+export enum Role {
+  ADMIN = "admin",
+  MEMBER = "member",
+  VIEWER = "viewer",
+}
+
 export interface IUser extends Document {
   email: string;
   name: string;
   profileImage?: string;
+  role: Role;
+  passwordHash?: string;
+  passwordChangedAt?: Date;
+  deactivatedAt: Date | null; // deactivated users cannot sign in and cannot be assigned
   createdAt: Date;
 }
 
@@ -25,6 +35,26 @@ const userSchema = new Schema<IUser>(
       type: String,
       required: false,
     },
+    role: {
+      type: String,
+      enum: Object.values(Role),
+      required: true,
+      default: Role.MEMBER,
+    },
+    // Never returned by default queries - select explicitly with "+passwordHash"
+    passwordHash: {
+      type: String,
+      required: false,
+      select: false,
+    },
+    passwordChangedAt: {
+      type: Date,
+      required: false,
+    },
+    deactivatedAt: {
+      type: Date,
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -32,7 +62,10 @@ const userSchema = new Schema<IUser>(
 
 );
 
+// Indexes for better query performance
+userSchema.index({ deactivatedAt: 1 });
+userSchema.index({ name: 1 });
+
 const User = mongoose.model<IUser>("User", userSchema);
 
 export default User;
-
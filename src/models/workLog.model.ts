@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from "mongoose";
+
+export interface IWorkLog extends Document {
+  issue: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId; // who did the work
+  duration: number; // minutes
+  date: Date; // when the work was done
+  note: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const workLogSchema = new Schema<IWorkLog>(
+  {
+    issue: {
+      type: Schema.Types.ObjectId,
+      ref: "Issue",
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    duration: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    date: {
+      type: Date,
+      required: true,
+    },
+    note: {
+      type: String,
+      trim: true,
+      default: "",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for better query performance
+workLogSchema.index({ issue: 1, date: -1 });
+workLogSchema.index({ date: 1, user: 1 });
+
+const WorkLog = mongoose.model<IWorkLog>("WorkLog", workLogSchema);
+
+export default WorkLog;
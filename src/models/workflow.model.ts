@@ -0,0 +1,100 @@
+import mongoose, { Document, Schema } from "mongoose";
+import { StatusCategory } from "./issue.model";
+
+export interface IWorkflowStatus {
+  name: string;
+  category: StatusCategory;
+}
+
+export interface IWorkflowTransition {
+  from: string;
+  to: string;
+  requireComment: boolean; // the update must include a comment explaining the change
+}
+
+export interface IWorkflow extends Document {
+  name: string;
+  description: string;
+  statuses: IWorkflowStatus[]; // in display order
+  initialStatus: string; // status given to new issues
+  transitions: IWorkflowTransition[];
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const workflowStatusSchema = new Schema<IWorkflowStatus>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    category: {
+      type: String,
+      enum: Object.values(StatusCategory),
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const workflowTransitionSchema = new Schema<IWorkflowTransition>(
+  {
+    from: {
+      type: String,
+      required: true,
+    },
+    to: {
+      type: String,
+      required: true,
+    },
+    requireComment: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false }
+);
+
+const workflowSchema = new Schema<IWorkflow>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+      default: "",
+    },
+    statuses: {
+      type: [workflowStatusSchema],
+      required: true,
+    },
+    initialStatus: {
+      type: String,
+      required: true,
+    },
+    transitions: {
+      type: [workflowTransitionSchema],
+      default: [],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Workflow names are unique regardless of case
+workflowSchema.index({ name: 1 }, { unique: true, collation: { locale: "en", strength: 2 } });
+
+const Workflow = mongoose.model<IWorkflow>("Workflow", workflowSchema);
+
+export default Workflow;
@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { authenticate, authorize } from "../middleware/auth.middleware";
+import { Permission } from "../config/permissions";
+import { downloadAttachmentController, deleteAttachmentController } from "../controllers/attachment.controller";
+
+const router = Router();
+
+// Files are uploaded through their issue or comment; only the uploader (or an admin) can delete one
+router.get("/:id", authenticate, authorize(Permission.ISSUES_READ), downloadAttachmentController);
+router.delete("/:id", authenticate, authorize(Permission.ISSUES_WRITE), deleteAttachmentController);
+
+export default router;
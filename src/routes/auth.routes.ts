@@ -1,11 +1,29 @@
 import { Router } from "express";
-import { login, logout } from "../controllers/auth.controller";
-import { authenticate } from "../middleware/auth.middleware";
+import {
+  login,
+  logout,
+  refresh,
+  revokeUserSessionsController,
+  changePasswordController,
+  requestMagicLinkController,
+  verifyMagicLinkController,
+  oidcConfigController,
+  oidcLogin,
+  oidcCallback,
+} from "../controllers/auth.controller";
+import { authenticate, requireSession } from "../middleware/auth.middleware";
 
 const router = Router();
 
 router.post("/login", login);
 router.post("/logout", authenticate, logout);
+router.post("/refresh", refresh);
+router.delete("/sessions/user/:userId", authenticate, requireSession, revokeUserSessionsController);
+router.post("/password", authenticate, requireSession, changePasswordController);
+router.post("/magic-link", requestMagicLinkController);
+router.post("/magic-link/verify", verifyMagicLinkController);
+router.get("/oidc/config", oidcConfigController);
+router.get("/oidc/login", oidcLogin);
+router.get("/oidc/callback", oidcCallback);
 
 export default router;
-
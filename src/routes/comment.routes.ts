@@ -1,19 +1,22 @@
 import { Router } from "express";
-import { authenticate } from "../middleware/auth.middleware";
+import { authenticate, authorize } from "../middleware/auth.middleware";
+import { Permission } from "../config/permissions";
 import {
   createCommentController,
   getCommentsController,
   updateCommentController,
   deleteCommentController,
 } from "../controllers/comment.controller";
+import { addCommentAttachmentController } from "../controllers/attachment.controller";
 
 const router = Router();
 
-// All routes are protected with authentication middleware
-router.post("/", authenticate, createCommentController);
-router.get("/issue/:issueId", authenticate, getCommentsController);
-router.patch("/:id", authenticate, updateCommentController);
-router.delete("/:id", authenticate, deleteCommentController);
+// All routes are protected with authentication and permission middleware
+router.post("/", authenticate, authorize(Permission.COMMENTS_WRITE), createCommentController);
+router.get("/issue/:issueId", authenticate, authorize(Permission.COMMENTS_READ), getCommentsController);
+router.patch("/:id", authenticate, authorize(Permission.COMMENTS_WRITE), updateCommentController);
+router.post("/:id/attachments", authenticate, authorize(Permission.COMMENTS_WRITE), addCommentAttachmentController);
+router.delete("/:id", authenticate, authorize(Permission.COMMENTS_WRITE), deleteCommentController);
 
 export default router;
 
@@ -1,25 +1,62 @@
 import { Router } from "express";
-import { authenticate } from "../middleware/auth.middleware";
+import { authenticate, authorize } from "../middleware/auth.middleware";
+import { Permission } from "../config/permissions";
 import {
   createIssueController,
   getIssuesController,
   getIssueByIdController,
   updateIssueController,
+  bulkUpdateIssuesController,
   getIssueSummaryController,
   getMyIssuesController,
   getMentionedIssuesController,
+  archiveIssueController,
+  restoreIssueController,
+  purgeIssueController,
+  getIssueActivityController,
 } from "../controllers/issue.controller";
+import {
+  getIssueRelationsController,
+  addIssueRelationController,
+  removeIssueRelationController,
+} from "../controllers/relation.controller";
+import {
+  getIssueWatchersController,
+  watchIssueController,
+  unwatchIssueController,
+} from "../controllers/watcher.controller";
+import { addIssueAttachmentController } from "../controllers/attachment.controller";
+import { getWorkLogsController, addWorkLogController } from "../controllers/workLog.controller";
 
 const router = Router();
 
-// All routes are protected with authentication middleware
-router.post("/", authenticate, createIssueController);
-router.get("/", authenticate, getIssuesController);
-router.get("/my-issues", authenticate, getMyIssuesController);
-router.get("/mentioned", authenticate, getMentionedIssuesController);
-router.get("/summary", authenticate, getIssueSummaryController);
-router.get("/:id", authenticate, getIssueByIdController);
-router.patch("/:id", authenticate, updateIssueController);
+// All routes are protected with authentication and permission middleware
+router.post("/", authenticate, authorize(Permission.ISSUES_WRITE), createIssueController);
+router.get("/", authenticate, authorize(Permission.ISSUES_READ), getIssuesController);
+router.get("/my-issues", authenticate, authorize(Permission.ISSUES_READ), getMyIssuesController);
+router.get("/mentioned", authenticate, authorize(Permission.ISSUES_READ), getMentionedIssuesController);
+router.get("/summary", authenticate, authorize(Permission.ISSUES_READ), getIssueSummaryController);
+router.patch("/bulk", authenticate, authorize(Permission.ISSUES_WRITE), bulkUpdateIssuesController);
+router.get("/:id", authenticate, authorize(Permission.ISSUES_READ), getIssueByIdController);
+router.get("/:id/activity", authenticate, authorize(Permission.ISSUES_READ), getIssueActivityController);
+router.get("/:id/relations", authenticate, authorize(Permission.ISSUES_READ), getIssueRelationsController);
+router.post("/:id/relations", authenticate, authorize(Permission.ISSUES_WRITE), addIssueRelationController);
+router.delete(
+  "/:id/relations/:relationId",
+  authenticate,
+  authorize(Permission.ISSUES_WRITE),
+  removeIssueRelationController
+);
+router.post("/:id/attachments", authenticate, authorize(Permission.ISSUES_WRITE), addIssueAttachmentController);
+router.get("/:id/worklogs", authenticate, authorize(Permission.ISSUES_READ), getWorkLogsController);
+router.post("/:id/worklogs", authenticate, authorize(Permission.ISSUES_WRITE), addWorkLogController);
+router.get("/:id/watchers", authenticate, authorize(Permission.ISSUES_READ), getIssueWatchersController);
+router.post("/:id/watch", authenticate, authorize(Permission.ISSUES_READ), watchIssueController);
+router.delete("/:id/watch", authenticate, authorize(Permission.ISSUES_READ), unwatchIssueController);
+router.patch("/:id", authenticate, authorize(Permission.ISSUES_WRITE), updateIssueController);
+router.delete("/:id", authenticate, authorize(Permission.ISSUES_WRITE), archiveIssueController);
+router.post("/:id/restore", authenticate, authorize(Permission.ISSUES_WRITE), restoreIssueController);
+router.delete("/:id/purge", authenticate, authorize(Permission.ISSUES_PURGE), purgeIssueController);
 
 export default router;
 
@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { authenticate, authorize } from "../middleware/auth.middleware";
+import { Permission } from "../config/permissions";
+import {
+  getLabelsController,
+  getLabelByIdController,
+  createLabelController,
+  updateLabelController,
+  deleteLabelController,
+} from "../controllers/label.controller";
+
+const router = Router();
+
+// Anyone who can read issues can see labels; managing them is restricted
+router.get("/", authenticate, authorize(Permission.ISSUES_READ), getLabelsController);
+router.get("/:id", authenticate, authorize(Permission.ISSUES_READ), getLabelByIdController);
+router.post("/", authenticate, authorize(Permission.LABELS_MANAGE), createLabelController);
+router.patch("/:id", authenticate, authorize(Permission.LABELS_MANAGE), updateLabelController);
+router.delete("/:id", authenticate, authorize(Permission.LABELS_MANAGE), deleteLabelController);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from "express";
-import { authenticate } from "../middleware/auth.middleware";
+import { authenticate, authorize } from "../middleware/auth.middleware";
+import { Permission } from "../config/permissions";
 import {
   getNotificationsController,
   markNotificationAsReadController,
@@ -8,10 +9,10 @@ import {
 
 const router = Router();
 
-// All routes are protected with authentication middleware
-router.get("/", authenticate, getNotificationsController);
-router.patch("/:id/read", authenticate, markNotificationAsReadController);
-router.patch("/read-all", authenticate, markAllNotificationsAsReadController);
+// All routes are protected with authentication and permission middleware
+router.get("/", authenticate, authorize(Permission.NOTIFICATIONS_READ), getNotificationsController);
+router.patch("/:id/read", authenticate, authorize(Permission.NOTIFICATIONS_READ), markNotificationAsReadController);
+router.patch("/read-all", authenticate, authorize(Permission.NOTIFICATIONS_READ), markAllNotificationsAsReadController);
 
 export default router;
 
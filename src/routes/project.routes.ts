@@ -0,0 +1,32 @@
+import { Router } from "express";
+import { authenticate, authorize } from "../middleware/auth.middleware";
+import { Permission } from "../config/permissions";
+import {
+  getProjectsController,
+  getProjectByIdController,
+  createProjectController,
+  updateProjectController,
+  addProjectMembersController,
+  removeProjectMemberController,
+  deleteProjectController,
+  getProjectWorkflowController,
+} from "../controllers/project.controller";
+
+const router = Router();
+
+// Users see the projects they are members of; managing projects is restricted
+router.get("/", authenticate, authorize(Permission.ISSUES_READ), getProjectsController);
+router.get("/:id", authenticate, authorize(Permission.ISSUES_READ), getProjectByIdController);
+router.get("/:id/workflow", authenticate, authorize(Permission.ISSUES_READ), getProjectWorkflowController);
+router.post("/", authenticate, authorize(Permission.PROJECTS_MANAGE), createProjectController);
+router.patch("/:id", authenticate, authorize(Permission.PROJECTS_MANAGE), updateProjectController);
+router.delete("/:id", authenticate, authorize(Permission.PROJECTS_MANAGE), deleteProjectController);
+router.post("/:id/members", authenticate, authorize(Permission.PROJECTS_MANAGE), addProjectMembersController);
+router.delete(
+  "/:id/members/:userId",
+  authenticate,
+  authorize(Permission.PROJECTS_MANAGE),
+  removeProjectMemberController
+);
+
+export default router;
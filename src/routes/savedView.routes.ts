@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { authenticate, authorize } from "../middleware/auth.middleware";
+import { Permission } from "../config/permissions";
+import {
+  getSavedViewsController,
+  getSavedViewByIdController,
+  createSavedViewController,
+  updateSavedViewController,
+  deleteSavedViewController,
+} from "../controllers/savedView.controller";
+
+const router = Router();
+
+// Anyone who can read issues can save views; changing someone else's shared view is checked in the service
+router.get("/", authenticate, authorize(Permission.ISSUES_READ), getSavedViewsController);
+router.get("/:id", authenticate, authorize(Permission.ISSUES_READ), getSavedViewByIdController);
+router.post("/", authenticate, authorize(Permission.ISSUES_READ), createSavedViewController);
+router.patch("/:id", authenticate, authorize(Permission.ISSUES_READ), updateSavedViewController);
+router.delete("/:id", authenticate, authorize(Permission.ISSUES_READ), deleteSavedViewController);
+
+export default router;
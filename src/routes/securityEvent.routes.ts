@@ -0,0 +1,10 @@
+import { Router } from "express";
+import { authenticate, authorize } from "../middleware/auth.middleware";
+import { Permission } from "../config/permissions";
+import { getSecurityEventsController } from "../controllers/securityEvent.controller";
+
+const router = Router();
+
+router.get("/", authenticate, authorize(Permission.SECURITY_EVENTS_READ), getSecurityEventsController);
+
+export default router;
@@ -0,0 +1,18 @@
+import { Router } from "express";
+import { authenticate, requireSession } from "../middleware/auth.middleware";
+import {
+  createTokenController,
+  getTokensController,
+  updateTokenController,
+  revokeTokenController,
+} from "../controllers/token.controller";
+
+const router = Router();
+
+// Tokens can only be managed from a login session, never with another token
+router.post("/", authenticate, requireSession, createTokenController);
+router.get("/", authenticate, requireSession, getTokensController);
+router.patch("/:id", authenticate, requireSession, updateTokenController);
+router.delete("/:id", authenticate, requireSession, revokeTokenController);
+
+export default router;
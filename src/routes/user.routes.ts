@@ -1,9 +1,28 @@
 import { Router } from "express";
-import { authenticate } from "../middleware/auth.middleware";
-import { getUsers } from "../controllers/user.controller";
+import { authenticate, authorize, requireSession } from "../middleware/auth.middleware";
+import { Permission } from "../config/permissions";
+import {
+  getUsers,
+  searchUsersController,
+  getUserProfileController,
+  createUserController,
+  inviteUserController,
+  updateMyProfileController,
+  updateUserRoleController,
+  deactivateUserController,
+  reactivateUserController,
+} from "../controllers/user.controller";
 
 const router = Router();
 
-router.get("/all-users", authenticate, getUsers);
+router.get("/", authenticate, authorize(Permission.USERS_READ), searchUsersController);
+router.get("/all-users", authenticate, authorize(Permission.USERS_READ), getUsers);
+router.post("/", authenticate, authorize(Permission.USERS_MANAGE), createUserController);
+router.post("/invite", authenticate, authorize(Permission.USERS_MANAGE), inviteUserController);
+router.patch("/me", authenticate, requireSession, updateMyProfileController);
+router.get("/:id", authenticate, authorize(Permission.USERS_READ), getUserProfileController);
+router.patch("/:id/role", authenticate, authorize(Permission.USERS_MANAGE), updateUserRoleController);
+router.post("/:id/deactivate", authenticate, authorize(Permission.USERS_MANAGE), deactivateUserController);
+router.post("/:id/reactivate", authenticate, authorize(Permission.USERS_MANAGE), reactivateUserController);
 
-export default router;
\ No newline at end of file
+export default router;
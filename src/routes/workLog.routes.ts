@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { authenticate, authorize } from "../middleware/auth.middleware";
+import { Permission } from "../config/permissions";
+import {
+  updateWorkLogController,
+  deleteWorkLogController,
+  getTimeReportController,
+} from "../controllers/workLog.controller";
+
+const router = Router();
+
+// Time is logged through its issue; changing someone else's work log is checked in the service
+router.get("/report", authenticate, authorize(Permission.ISSUES_READ), getTimeReportController);
+router.patch("/:id", authenticate, authorize(Permission.ISSUES_WRITE), updateWorkLogController);
+router.delete("/:id", authenticate, authorize(Permission.ISSUES_WRITE), deleteWorkLogController);
+
+export default router;
@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { authenticate, authorize } from "../middleware/auth.middleware";
+import { Permission } from "../config/permissions";
+import {
+  getWorkflowsController,
+  getWorkflowByIdController,
+  createWorkflowController,
+  updateWorkflowController,
+  deleteWorkflowController,
+} from "../controllers/workflow.controller";
+
+const router = Router();
+
+// Anyone who can read issues can see workflows; defining them is restricted
+router.get("/", authenticate, authorize(Permission.ISSUES_READ), getWorkflowsController);
+router.get("/:id", authenticate, authorize(Permission.ISSUES_READ), getWorkflowByIdController);
+router.post("/", authenticate, authorize(Permission.WORKFLOWS_MANAGE), createWorkflowController);
+router.patch("/:id", authenticate, authorize(Permission.WORKFLOWS_MANAGE), updateWorkflowController);
+router.delete("/:id", authenticate, authorize(Permission.WORKFLOWS_MANAGE), deleteWorkflowController);
+
+export default router;
@@ -0,0 +1,52 @@
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import Issue from "../models/issue.model";
+import Project from "../models/project.model";
+import { ensureProjectKey, reserveIssueKey } from "../services/project.service";
+
+dotenv.config();
+
+/**
+ * One-off migration for databases created before issue keys existed: gives every
+ * project a key derived from its name and numbers its issues without a key in the
+ * order they were created. Safe to run more than once.
+ */
+const migrateIssueKeys = async () => {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGO_URI;
+    if (!mongoUri) {
+      throw new Error("MONGO_URI is not defined in environment variables");
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log("Connected to MongoDB");
+
+    const projects = await Project.find().select("name key");
+    for (const project of projects) {
+      const key = await ensureProjectKey(project._id as mongoose.Types.ObjectId);
+
+      const issues = await Issue.find({ project: project._id, key: null }).select("_id").sort({ createdAt: 1, _id: 1 });
+      for (const issue of issues) {
+        await Issue.updateOne(
+          { _id: issue._id },
+          { $set: { key: await reserveIssueKey(project._id as mongoose.Types.ObjectId) } },
+          { timestamps: false }
+        );
+      }
+
+      console.log(`Project "${project.name}" (${key}): added keys to ${issues.length} issues`);
+    }
+
+    // Close connection
+    await mongoose.connection.close();
+    console.log("Database connection closed");
+    process.exit(0);
+  } catch (error) {
+    console.error("Error migrating issue keys:", error);
+    await mongoose.connection.close();
+    process.exit(1);
+  }
+};
+
+migrateIssueKeys();
@@ -0,0 +1,43 @@
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import Issue, { Priority, PRIORITY_RANK } from "../models/issue.model";
+
+dotenv.config();
+
+/**
+ * One-off migration for databases created before issues could be sorted by priority:
+ * stores the severity rank of every issue's priority. Safe to run more than once.
+ */
+const migratePriorityRanks = async () => {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGO_URI;
+    if (!mongoUri) {
+      throw new Error("MONGO_URI is not defined in environment variables");
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log("Connected to MongoDB");
+
+    for (const priority of Object.values(Priority)) {
+      const rank = PRIORITY_RANK[priority];
+      const result = await Issue.updateMany(
+        { priority, priorityRank: { $ne: rank } },
+        { $set: { priorityRank: rank } },
+        { timestamps: false }
+      );
+      console.log(`Updated ${result.modifiedCount} ${priority} priority issues`);
+    }
+
+    // Close connection
+    await mongoose.connection.close();
+    console.log("Database connection closed");
+    process.exit(0);
+  } catch (error) {
+    console.error("Error migrating priority ranks:", error);
+    await mongoose.connection.close();
+    process.exit(1);
+  }
+};
+
+migratePriorityRanks();
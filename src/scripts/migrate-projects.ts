@@ -0,0 +1,63 @@
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import User, { Role } from "../models/user.model";
+import Issue from "../models/issue.model";
+import Project, { DEFAULT_PROJECT_NAME } from "../models/project.model";
+
+dotenv.config();
+
+/**
+ * One-off migration for databases created before projects existed: moves every
+ * issue without a project into the default project and makes all active users
+ * members of it. Safe to run more than once.
+ */
+const migrateProjects = async () => {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGO_URI;
+    if (!mongoUri) {
+      throw new Error("MONGO_URI is not defined in environment variables");
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log("Connected to MongoDB");
+
+    const owner =
+      (await User.findOne({ role: Role.ADMIN, deactivatedAt: null }).sort({ createdAt: 1 })) ||
+      (await User.findOne().sort({ createdAt: 1 }));
+    if (!owner) {
+      throw new Error("No users found. Run the seed script first");
+    }
+
+    let project = await Project.findOne({ name: DEFAULT_PROJECT_NAME }).collation({ locale: "en", strength: 2 });
+    if (!project) {
+      project = await Project.create({ name: DEFAULT_PROJECT_NAME, members: [], createdBy: owner._id });
+      console.log(`Created project "${DEFAULT_PROJECT_NAME}"`);
+    }
+
+    const activeUsers = await User.find({ deactivatedAt: null }).select("_id");
+    await Project.updateOne(
+      { _id: project._id },
+      { $addToSet: { members: { $each: activeUsers.map((user) => user._id) } } }
+    );
+    console.log(`Added ${activeUsers.length} active users to "${project.name}"`);
+
+    const result = await Issue.updateMany(
+      { project: null },
+      { $set: { project: project._id } },
+      { timestamps: false }
+    );
+    console.log(`Moved ${result.modifiedCount} issues into "${project.name}"`);
+
+    // Close connection
+    await mongoose.connection.close();
+    console.log("Database connection closed");
+    process.exit(0);
+  } catch (error) {
+    console.error("Error migrating projects:", error);
+    await mongoose.connection.close();
+    process.exit(1);
+  }
+};
+
+migrateProjects();
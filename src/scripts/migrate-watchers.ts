@@ -0,0 +1,53 @@
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import Issue from "../models/issue.model";
+import Comment from "../models/comment.model";
+
+dotenv.config();
+
+/**
+ * One-off migration for databases created before watchers existed: subscribes the
+ * creator, the assignee, the commenters and the mentioned users of every issue that
+ * has no watcher list yet. Safe to run more than once.
+ */
+const migrateWatchers = async () => {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGO_URI;
+    if (!mongoUri) {
+      throw new Error("MONGO_URI is not defined in environment variables");
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log("Connected to MongoDB");
+
+    const issues = await Issue.find({ watchers: { $exists: false } }).select("createdBy assignee").lean();
+
+    for (const issue of issues) {
+      const comments = await Comment.find({ issue: issue._id }).select("createdBy mentions").lean();
+      const participants = [
+        issue.createdBy,
+        issue.assignee,
+        ...comments.flatMap((comment) => [comment.createdBy, ...(comment.mentions || [])]),
+      ];
+      const watchers = [...new Set(participants.filter(Boolean).map(String))].map(
+        (id) => new mongoose.Types.ObjectId(id)
+      );
+
+      await Issue.updateOne({ _id: issue._id }, { $set: { watchers } }, { timestamps: false });
+    }
+
+    console.log(`Added watchers to ${issues.length} issues`);
+
+    // Close connection
+    await mongoose.connection.close();
+    console.log("Database connection closed");
+    process.exit(0);
+  } catch (error) {
+    console.error("Error migrating watchers:", error);
+    await mongoose.connection.close();
+    process.exit(1);
+  }
+};
+
+migrateWatchers();
@@ -0,0 +1,52 @@
+import dotenv from "dotenv";
+import mongoose from "mongoose";
+import Issue from "../models/issue.model";
+import Project from "../models/project.model";
+import { getWorkflowForProject, syncStatusCategories } from "../services/workflow.service";
+
+dotenv.config();
+
+/**
+ * One-off migration for databases created before workflows existed: stores the
+ * status category of every issue according to its project's workflow and reports
+ * issues whose status the workflow does not have. Safe to run more than once.
+ */
+const migrateWorkflows = async () => {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGO_URI;
+    if (!mongoUri) {
+      throw new Error("MONGO_URI is not defined in environment variables");
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log("Connected to MongoDB");
+
+    const projects = await Project.find().select("name workflow");
+
+    for (const project of projects) {
+      const workflow = await getWorkflowForProject(project._id as mongoose.Types.ObjectId);
+      const updated = await syncStatusCategories(project._id, workflow.statuses);
+      console.log(`Updated ${updated} issues in "${project.name}" (workflow "${workflow.name}")`);
+
+      const unknownStatuses: string[] = await Issue.distinct("status", {
+        project: project._id,
+        status: { $nin: workflow.statuses.map((status) => status.name) },
+      });
+      if (unknownStatuses.length > 0) {
+        console.warn(`  Statuses not in the workflow, fix these issues by hand: ${unknownStatuses.join(", ")}`);
+      }
+    }
+
+    // Close connection
+    await mongoose.connection.close();
+    console.log("Database connection closed");
+    process.exit(0);
+  } catch (error) {
+    console.error("Error migrating workflows:", error);
+    await mongoose.connection.close();
+    process.exit(1);
+  }
+};
+
+migrateWorkflows();
@@ -0,0 +1,160 @@
+import crypto from "crypto";
+import dotenv from "dotenv";
+import express from "express";
+import jwt from "jsonwebtoken";
+
+dotenv.config();
+
+/**
+ * Minimal OpenID Connect provider for trying SSO locally. It signs ID tokens
+ * with a throwaway RSA key and approves every login without a password.
+ *
+ * Point the API at it with:
+ *   OIDC_ISSUER=http://localhost:4000
+ *   OIDC_CLIENT_ID=bxtrack-local
+ *   OIDC_CLIENT_SECRET=bxtrack-local-secret
+ *   OIDC_REDIRECT_URI=http://localhost:5000/api/auth/oidc/callback
+ *
+ * Then open http://localhost:5000/api/auth/oidc/login?login_hint=<email>.
+ * Without a login hint, MOCK_IDP_EMAIL is used.
+ */
+
+const PORT = parseInt(process.env.MOCK_IDP_PORT || "4000", 10);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.OIDC_CLIENT_ID || "bxtrack-local";
+const CLIENT_SECRET = process.env.OIDC_CLIENT_SECRET || "bxtrack-local-secret";
+const DEFAULT_EMAIL = process.env.MOCK_IDP_EMAIL || "syedhishamshah27@gmail.com";
+const KEY_ID = "mock-idp-key";
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  email: string;
+  expiresAt: number;
+}
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const codes = new Map<string, PendingCode>();
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (req, res) => {
+  res.json({
+    issuer: ISSUER,
+    authorization_endpoint: `${ISSUER}/authorize`,
+    token_endpoint: `${ISSUER}/token`,
+    jwks_uri: `${ISSUER}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    token_endpoint_auth_methods_supported: ["client_secret_basic", "client_secret_post"],
+    code_challenge_methods_supported: ["S256"],
+    scopes_supported: ["openid", "email", "profile"],
+  });
+});
+
+app.get("/jwks", (req, res) => {
+  res.json({
+    keys: [{ ...publicKey.export({ format: "jwk" }), kid: KEY_ID, use: "sig", alg: "RS256" }],
+  });
+});
+
+// Approves immediately and redirects back with a code
+app.get("/authorize", (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, login_hint } =
+    req.query as Record<string, string | undefined>;
+
+  if (client_id !== CLIENT_ID || !redirect_uri) {
+    res.status(400).send("Unknown client_id or missing redirect_uri");
+    return;
+  }
+
+  if (code_challenge && code_challenge_method !== "S256") {
+    res.status(400).send("Only S256 code challenges are supported");
+    return;
+  }
+
+  const code = crypto.randomBytes(16).toString("hex");
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    nonce,
+    codeChallenge: code_challenge,
+    email: login_hint || DEFAULT_EMAIL,
+    expiresAt: Date.now() + 60 * 1000,
+  });
+
+  const redirect = new URL(redirect_uri);
+  redirect.searchParams.set("code", code);
+  if (state) {
+    redirect.searchParams.set("state", state);
+  }
+  res.redirect(redirect.toString());
+});
+
+app.post("/token", (req, res) => {
+  let clientId = req.body.client_id;
+  let clientSecret = req.body.client_secret;
+
+  // client_secret_basic
+  const authHeader = req.headers.authorization;
+  if (authHeader && authHeader.startsWith("Basic ")) {
+    const [id, secret] = Buffer.from(authHeader.substring(6), "base64").toString().split(":");
+    clientId = decodeURIComponent(id);
+    clientSecret = decodeURIComponent(secret || "");
+  }
+
+  if (clientId !== CLIENT_ID || clientSecret !== CLIENT_SECRET) {
+    res.status(401).json({ error: "invalid_client" });
+    return;
+  }
+
+  const pending = codes.get(req.body.code);
+  codes.delete(req.body.code);
+
+  if (!pending || pending.expiresAt < Date.now() || pending.redirectUri !== req.body.redirect_uri) {
+    res.status(400).json({ error: "invalid_grant" });
+    return;
+  }
+
+  if (pending.codeChallenge) {
+    const challenge = crypto
+      .createHash("sha256")
+      .update(req.body.code_verifier || "")
+      .digest("base64url");
+    if (challenge !== pending.codeChallenge) {
+      res.status(400).json({ error: "invalid_grant", error_description: "PKCE verification failed" });
+      return;
+    }
+  }
+
+  const idToken = jwt.sign(
+    {
+      email: pending.email,
+      email_verified: true,
+      name: pending.email.split("@")[0],
+      ...(pending.nonce && { nonce: pending.nonce }),
+    },
+    privateKey,
+    {
+      algorithm: "RS256",
+      keyid: KEY_ID,
+      issuer: ISSUER,
+      audience: pending.clientId,
+      subject: crypto.createHash("sha256").update(pending.email).digest("hex").substring(0, 24),
+      expiresIn: "5m",
+    }
+  );
+
+  res.json({
+    access_token: crypto.randomBytes(16).toString("hex"),
+    token_type: "Bearer",
+    expires_in: 300,
+    id_token: idToken,
+  });
+});
+
+app.listen(PORT, () => console.log(`Mock OIDC provider running at ${ISSUER}`));
@@ -1,6 +1,8 @@
 import dotenv from "dotenv";
 import mongoose from "mongoose";
-import User from "../models/user.model";
+import User, { Role } from "../models/user.model";
+import Project, { DEFAULT_PROJECT_NAME } from "../models/project.model";
+import { hashPassword } from "../utils/password";
 
 dotenv.config();
 
@@ -24,6 +26,7 @@ const seedUsers = async () => {
         name: "Syed Hisham Shah",
         email: "syedhishamshah27@gmail.com",
         profileImage: "https://avatar.iran.liara.run/public/1.png",
+        role: Role.ADMIN,
       },
       {
         name: "Ali Ahmed",
@@ -42,13 +45,31 @@ const seedUsers = async () => {
       },
     ];
 
+    // Optionally give every seeded user the same password for local development.
+    // Without it, users sign in with a magic link and set their own password.
+    const seedPassword = process.env.SEED_USER_PASSWORD;
+    const passwordHash = seedPassword ? await hashPassword(seedPassword) : undefined;
+
     // Insert users
-    const createdUsers = await User.insertMany(users);
+    const createdUsers = await User.insertMany(
+      users.map((user) => ({ ...user, ...(passwordHash && { passwordHash }) }))
+    );
     console.log(`Seeded ${createdUsers.length} users:`);
     createdUsers.forEach((user) => {
       console.log(`   - ${user.name} (${user.email})`);
     });
 
+    // Put every seeded user in the default project so they can create issues
+    const project = await Project.findOneAndUpdate(
+      { name: DEFAULT_PROJECT_NAME },
+      {
+        $set: { members: createdUsers.map((user) => user._id) },
+        $setOnInsert: { name: DEFAULT_PROJECT_NAME, createdBy: createdUsers[0]._id },
+      },
+      { upsert: true, new: true, collation: { locale: "en", strength: 2 } }
+    );
+    console.log(`Seeded project "${project.name}" with ${project.members.length} members`);
+
     // Close connection
     await mongoose.connection.close();
     console.log("Database connection closed");
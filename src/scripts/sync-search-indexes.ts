@@ -0,0 +1,43 @@
+import dotenv from "dotenv";
+dotenv.config();
+
+import mongoose from "mongoose";
+import Issue from "../models/issue.model";
+import Comment from "../models/comment.model";
+import { SEARCH_LANGUAGE } from "../config/search";
+
+/**
+ * Rebuild the issue and comment indexes from the schemas. MongoDB allows one text
+ * index per collection and will not replace it in place, so run this after changing
+ * SEARCH_LANGUAGE or the indexed fields to keep both collections in step.
+ */
+const syncSearchIndexes = async () => {
+  try {
+    const mongoUri = process.env.MONGO_URI;
+    if (!mongoUri) {
+      throw new Error("MONGO_URI is not defined in environment variables");
+    }
+
+    await mongoose.connect(mongoUri);
+    console.log("Connected to MongoDB");
+
+    for (const model of [Issue, Comment] as mongoose.Model<any>[]) {
+      const dropped = await model.syncIndexes();
+      console.log(
+        `Synced ${model.collection.collectionName} indexes (language: ${SEARCH_LANGUAGE})` +
+          (dropped.length > 0 ? `, dropped: ${dropped.join(", ")}` : "")
+      );
+    }
+
+    // Close connection
+    await mongoose.connection.close();
+    console.log("Database connection closed");
+    process.exit(0);
+  } catch (error) {
+    console.error("Error syncing search indexes:", error);
+    await mongoose.connection.close();
+    process.exit(1);
+  }
+};
+
+syncSearchIndexes();
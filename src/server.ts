@@ -3,9 +3,20 @@ dotenv.config();
 
 import app from "./app";
 import connectDB from "./config/db";
+import { startDueDateReminders } from "./services/reminder.service";
+import { ensureMailTransport } from "./utils/mail";
 
 const PORT = process.env.PORT || 5000;
 
+// Refuse to start without a way to deliver sign-in links
+try {
+  ensureMailTransport();
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
+
 connectDB().then(() => {
   app.listen(PORT, () => console.log(`Server running on port ${PORT}`));
+  startDueDateReminders();
 });
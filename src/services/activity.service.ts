@@ -0,0 +1,107 @@
+import mongoose from "mongoose";
+import IssueActivity from "../models/issueActivity.model";
+import Issue from "../models/issue.model";
+import { Role } from "../models/user.model";
+import { RecordActivityParams, ActivityRef, ActivityResponse, PaginatedActivity } from "../types/activity.types";
+import { isValidObjectId } from "../utils/validation";
+import { assertIssueAccess } from "./project.service";
+
+// Helper to format activity response with populated actor
+const formatActivity = (activity: any): ActivityResponse => {
+  return {
+    _id: String(activity._id),
+    issue: String(activity.issue),
+    type: activity.type,
+    actor: activity.actor
+      ? {
+          _id: String(activity.actor._id),
+          name: activity.actor.name,
+          email: activity.actor.email,
+          profileImage: activity.actor.profileImage,
+        }
+      : null,
+    ...(activity.field && { field: activity.field }),
+    ...(activity.oldValue !== undefined && { oldValue: activity.oldValue }),
+    ...(activity.newValue !== undefined && { newValue: activity.newValue }),
+    ...(activity.comment && { comment: String(activity.comment) }),
+    createdAt: activity.createdAt,
+  };
+};
+
+/**
+ * Snapshot a referenced user, label or project so the entry still reads correctly
+ * after it is renamed or deleted
+ */
+export const toActivityRef = (doc: any): ActivityRef | null => {
+  return doc ? { _id: String(doc._id), name: doc.name } : null;
+};
+
+/**
+ * Append entries to issues' activity logs
+ */
+export const recordActivity = async (entries: RecordActivityParams | RecordActivityParams[]): Promise<void> => {
+  const list = Array.isArray(entries) ? entries : [entries];
+  if (list.length === 0) {
+    return;
+  }
+
+  try {
+    await IssueActivity.insertMany(
+      list.map((entry) => ({
+        issue: new mongoose.Types.ObjectId(String(entry.issueId)),
+        actor: entry.actorId && isValidObjectId(entry.actorId) ? new mongoose.Types.ObjectId(entry.actorId) : null,
+        type: entry.type,
+        field: entry.field,
+        oldValue: entry.oldValue,
+        newValue: entry.newValue,
+        ...(entry.commentId && { comment: new mongoose.Types.ObjectId(entry.commentId) }),
+      }))
+    );
+  } catch (error) {
+    console.error("Error recording issue activity:", error);
+    // Don't throw error - the change itself has already been saved
+  }
+};
+
+/**
+ * Get an issue's activity log, newest first
+ */
+export const getIssueActivity = async (
+  issueId: string,
+  page: number = 1,
+  limit: number = 20,
+  userId?: string,
+  role?: Role
+): Promise<PaginatedActivity> => {
+  if (!isValidObjectId(issueId)) {
+    throw new Error("Invalid issue ID format");
+  }
+
+  const issue = await Issue.findById(issueId).select("project");
+  if (!issue) {
+    throw new Error("Issue not found");
+  }
+
+  await assertIssueAccess(issue, userId, role);
+
+  const skip = (page - 1) * limit;
+  const query = { issue: issue._id };
+
+  // Get total count for pagination
+  const total = await IssueActivity.countDocuments(query);
+
+  // Entries written together share a timestamp, so _id keeps them in insertion order
+  const activities = await IssueActivity.find(query)
+    .populate("actor", "name email profileImage")
+    .sort({ createdAt: -1, _id: -1 })
+    .skip(skip)
+    .limit(limit);
+
+  return {
+    activities: activities.map(formatActivity),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+};
@@ -0,0 +1,270 @@
+import mongoose from "mongoose";
+import { Readable } from "stream";
+import Attachment from "../models/attachment.model";
+import Issue from "../models/issue.model";
+import Comment from "../models/comment.model";
+import { Role } from "../models/user.model";
+import { ActivityType } from "../models/issueActivity.model";
+import { AttachmentResponse } from "../types/attachment.types";
+import { isValidObjectId } from "../utils/validation";
+import { UploadedFile } from "../utils/multipart";
+import { getAttachmentStorage } from "../utils/storage";
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENTS_PER_ISSUE,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENT_SIZE_MB,
+} from "../config/attachments";
+import { Permission, hasPermission } from "../config/permissions";
+import { recordActivity } from "./activity.service";
+import { assertIssueAccess } from "./project.service";
+
+// File signatures of the image types, so a script can't be uploaded as image/png and shown inline
+const imageSignatures: Record<string, (data: Buffer) => boolean> = {
+  "image/png": (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  "image/jpeg": (data) => data.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  "image/gif": (data) => /^GIF8[79]a/.test(data.subarray(0, 6).toString("latin1")),
+  "image/webp": (data) =>
+    data.subarray(0, 4).toString("latin1") === "RIFF" && data.subarray(8, 12).toString("latin1") === "WEBP",
+};
+
+/**
+ * Populate options that load the attachments of issues or comments for formatting
+ */
+export const attachmentsPopulate = {
+  path: "attachments",
+  select: "issue comment filename mimeType size uploadedBy createdAt",
+  options: { sort: { createdAt: 1 } },
+  populate: { path: "uploadedBy", select: "name email" },
+};
+
+/**
+ * Format populated attachments as listed on an issue or comment
+ */
+export const formatAttachments = (attachments: any[] | undefined): AttachmentResponse[] => {
+  return (attachments || []).map((attachment: any) => ({
+    _id: String(attachment._id),
+    issue: String(attachment.issue),
+    comment: attachment.comment ? String(attachment.comment) : null,
+    filename: attachment.filename,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    uploadedBy: attachment.uploadedBy?.name
+      ? {
+          _id: String(attachment.uploadedBy._id),
+          name: attachment.uploadedBy.name,
+          email: attachment.uploadedBy.email,
+        }
+      : null,
+    createdAt: attachment.createdAt,
+  }));
+};
+
+// Helper to check a file against the size and type limits
+const validateFile = (file: UploadedFile): void => {
+  if (file.data.length === 0) {
+    throw new Error("Invalid file: it is empty");
+  }
+
+  if (file.data.length > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`File too large. Attachments can be at most ${MAX_ATTACHMENT_SIZE_MB} MB`);
+  }
+
+  if (!ALLOWED_ATTACHMENT_TYPES.includes(file.mimeType)) {
+    throw new Error(`Invalid file type ${file.mimeType}. Allowed types: ${ALLOWED_ATTACHMENT_TYPES.join(", ")}`);
+  }
+
+  const matchesSignature = imageSignatures[file.mimeType];
+  if (matchesSignature && !matchesSignature(file.data)) {
+    throw new Error(`Invalid file: its content is not ${file.mimeType}`);
+  }
+};
+
+// Helper to store a file and record it against an issue (and optionally one of its comments)
+const storeAttachment = async (
+  issue: any,
+  commentId: mongoose.Types.ObjectId | null,
+  file: UploadedFile,
+  userId: string
+): Promise<AttachmentResponse> => {
+  validateFile(file);
+
+  const count = await Attachment.countDocuments({ issue: issue._id });
+  if (count >= MAX_ATTACHMENTS_PER_ISSUE) {
+    throw new Error(`Invalid upload: an issue can have at most ${MAX_ATTACHMENTS_PER_ISSUE} attachments`);
+  }
+
+  // The storage key never contains the uploaded filename
+  const _id = new mongoose.Types.ObjectId();
+  const storageKey = `${issue._id}/${_id}`;
+  const storage = getAttachmentStorage();
+  await storage.save(storageKey, file.data);
+
+  let attachment;
+  try {
+    attachment = await Attachment.create({
+      _id,
+      issue: issue._id,
+      comment: commentId,
+      filename: file.filename,
+      mimeType: file.mimeType,
+      size: file.data.length,
+      storageKey,
+      uploadedBy: new mongoose.Types.ObjectId(userId),
+    });
+  } catch (error) {
+    await storage.remove(storageKey);
+    throw error;
+  }
+
+  await recordActivity({
+    issueId: issue._id,
+    actorId: userId,
+    type: ActivityType.ATTACHMENT_ADDED,
+    newValue: { _id: String(_id), name: attachment.filename },
+    ...(commentId && { commentId: String(commentId) }),
+  });
+
+  await attachment.populate("uploadedBy", "name email");
+  return formatAttachments([attachment])[0];
+};
+
+/**
+ * Attach a file to an issue. Anyone who can see the issue can attach files to it.
+ */
+export const addIssueAttachment = async (
+  issueId: string,
+  file: UploadedFile,
+  userId: string,
+  role?: Role
+): Promise<AttachmentResponse> => {
+  if (!isValidObjectId(issueId)) {
+    throw new Error("Invalid issue ID format");
+  }
+
+  const issue = await Issue.findById(issueId);
+  if (!issue) {
+    throw new Error("Issue not found");
+  }
+
+  await assertIssueAccess(issue, userId, role);
+
+  return storeAttachment(issue, null, file, userId);
+};
+
+/**
+ * Attach a file to a comment. Only the comment's author can attach files to it.
+ */
+export const addCommentAttachment = async (
+  commentId: string,
+  file: UploadedFile,
+  userId: string,
+  role?: Role
+): Promise<AttachmentResponse> => {
+  if (!isValidObjectId(commentId)) {
+    throw new Error("Invalid comment ID format");
+  }
+
+  const comment = await Comment.findById(commentId);
+  if (!comment) {
+    throw new Error("Comment not found");
+  }
+
+  const issue = await Issue.findById(comment.issue);
+  if (!issue) {
+    throw new Error("Issue not found");
+  }
+
+  await assertIssueAccess(issue, userId, role);
+
+  if (String(comment.createdBy) !== userId) {
+    throw new Error("You can only attach files to your own comments");
+  }
+
+  return storeAttachment(issue, comment._id as mongoose.Types.ObjectId, file, userId);
+};
+
+// Helper to load an attachment the user can see through its issue
+const loadAttachment = async (attachmentId: string, userId: string, role?: Role) => {
+  if (!isValidObjectId(attachmentId)) {
+    throw new Error("Invalid attachment ID format");
+  }
+
+  const attachment = await Attachment.findById(attachmentId);
+  if (!attachment) {
+    throw new Error("Attachment not found");
+  }
+
+  const issue = await Issue.findById(attachment.issue).select("project");
+  if (!issue) {
+    throw new Error("Attachment not found");
+  }
+
+  try {
+    await assertIssueAccess(issue, userId, role);
+  } catch {
+    throw new Error("Attachment not found");
+  }
+
+  return attachment;
+};
+
+/**
+ * Open an attachment for download
+ */
+export const getAttachmentContent = async (
+  attachmentId: string,
+  userId: string,
+  role?: Role
+): Promise<{ filename: string; mimeType: string; size: number; stream: Readable }> => {
+  const attachment = await loadAttachment(attachmentId, userId, role);
+  const stream = await getAttachmentStorage().read(attachment.storageKey);
+
+  return {
+    filename: attachment.filename,
+    mimeType: attachment.mimeType,
+    size: attachment.size,
+    stream,
+  };
+};
+
+/**
+ * Delete an attachment. Only its uploader can delete it (admins may delete any attachment).
+ */
+export const deleteAttachment = async (attachmentId: string, userId: string, role?: Role): Promise<{ _id: string }> => {
+  const attachment = await loadAttachment(attachmentId, userId, role);
+
+  if (String(attachment.uploadedBy) !== userId && !hasPermission(role, Permission.ATTACHMENTS_DELETE_ANY)) {
+    throw new Error("You can only delete attachments you uploaded");
+  }
+
+  await Attachment.deleteOne({ _id: attachment._id });
+  await getAttachmentStorage().remove(attachment.storageKey);
+
+  await recordActivity({
+    issueId: attachment.issue,
+    actorId: userId,
+    type: ActivityType.ATTACHMENT_REMOVED,
+    oldValue: { _id: attachmentId, name: attachment.filename },
+    ...(attachment.comment && { commentId: String(attachment.comment) }),
+  });
+
+  return { _id: attachmentId };
+};
+
+/**
+ * Delete the attachments of a purged issue or a deleted comment, files included
+ */
+export const deleteAttachmentsFor = async (owner: { issue?: unknown; comment?: unknown }): Promise<number> => {
+  const query = owner.comment !== undefined ? { comment: owner.comment } : { issue: owner.issue };
+  const attachments = await Attachment.find(query).select("storageKey");
+  if (attachments.length === 0) {
+    return 0;
+  }
+
+  const storage = getAttachmentStorage();
+  await Promise.all(attachments.map((attachment) => storage.remove(attachment.storageKey)));
+  await Attachment.deleteMany({ _id: { $in: attachments.map((attachment) => attachment._id) } });
+
+  return attachments.length;
+};
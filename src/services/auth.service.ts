@@ -1,33 +1,161 @@
 import User from "../models/user.model";
-import { LoginDto, UserResponse } from "../types/user.types";
+import MagicLink from "../models/magicLink.model";
+import { LoginDto, ChangePasswordDto, UserResponse } from "../types/user.types";
+import { isValidObjectId } from "../utils/validation";
+import {
+  hashPassword,
+  verifyPassword,
+  generateRandomToken,
+  hashToken,
+  MIN_PASSWORD_LENGTH,
+} from "../utils/password";
+import { sendMail } from "../utils/mail";
+import { revokeOtherSessionsForUser } from "./session.service";
 
-export const loginUser = async (loginDto: LoginDto): Promise<UserResponse> => {
-  const { email } = loginDto;
-
-  const user = await User.findOne({ email: email.toLowerCase().trim() });
+const MAGIC_LINK_EXPIRES_MINUTES = parseInt(process.env.MAGIC_LINK_EXPIRES_MINUTES || "15", 10);
 
-  if (!user) {
-    throw new Error("User not found");
+// Hash checked when the account does not exist so both paths take the same time
+let dummyPasswordHash: Promise<string> | null = null;
+const getDummyPasswordHash = (): Promise<string> => {
+  if (!dummyPasswordHash) {
+    dummyPasswordHash = hashPassword(generateRandomToken());
   }
+  return dummyPasswordHash;
+};
 
+// Helper to format user response
+export const formatUser = (user: any): UserResponse => {
   return {
     _id: String(user._id),
     email: user.email,
     name: user.name,
     profileImage: user.profileImage,
+    role: user.role,
+    deactivatedAt: user.deactivatedAt ?? null,
     createdAt: user.createdAt,
   };
 };
 
-export const getAllUsers = async (): Promise<UserResponse[]> => {
-  const users = await User.find().sort({ createdAt: -1 });
+export const loginUser = async (loginDto: LoginDto): Promise<UserResponse> => {
+  const { email, password } = loginDto;
+
+  const user = await User.findOne({ email: email.toLowerCase().trim() }).select("+passwordHash");
 
-  return users.map((user) => ({
-    _id: String(user._id),
-    email: user.email,
-    name: user.name,
-    profileImage: user.profileImage,
-    createdAt: user.createdAt,
-  }));
+  // Same error (and timing) for unknown email, missing password and wrong password
+  if (!user || !user.passwordHash) {
+    await verifyPassword(password, await getDummyPasswordHash());
+    throw new Error("Invalid email or password");
+  }
+
+  const isValid = await verifyPassword(password, user.passwordHash);
+  if (!isValid) {
+    throw new Error("Invalid email or password");
+  }
+
+  if (user.deactivatedAt) {
+    throw new Error("This account has been deactivated");
+  }
+
+  return formatUser(user);
+};
+
+/**
+ * Set a password for the user, or change it if one already exists.
+ * Changing an existing password requires the current one. Every other session
+ * of the user is signed out; the session making the change stays open.
+ */
+export const changePassword = async (
+  userId: string,
+  changeDto: ChangePasswordDto,
+  currentSessionId?: string
+): Promise<void> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  if (!changeDto.newPassword || changeDto.newPassword.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const user = await User.findById(userId).select("+passwordHash");
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  if (user.passwordHash) {
+    if (!changeDto.currentPassword) {
+      throw new Error("Current password is required");
+    }
+    const isValid = await verifyPassword(changeDto.currentPassword, user.passwordHash);
+    if (!isValid) {
+      throw new Error("Current password is incorrect");
+    }
+  }
+
+  user.passwordHash = await hashPassword(changeDto.newPassword);
+  user.passwordChangedAt = new Date();
+  await user.save();
+
+  await revokeOtherSessionsForUser(userId, currentSessionId);
+};
+
+/**
+ * Create a one-time login link for a user and return its URL
+ */
+export const createMagicLinkUrl = async (userId: string, expiresInMinutes: number): Promise<string> => {
+  const token = generateRandomToken();
+  await MagicLink.create({
+    user: userId,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+  });
+
+  const baseUrl = process.env.FRONTEND_URL || "http://localhost:3000";
+  return `${baseUrl}/auth/magic-link?token=${encodeURIComponent(token)}`;
 };
 
+/**
+ * Email a one-time login link. Resolves silently for unknown emails so the
+ * endpoint cannot be used to discover which addresses have accounts.
+ */
+export const requestMagicLink = async (email: string): Promise<void> => {
+  const user = await User.findOne({ email: email.toLowerCase().trim(), deactivatedAt: null });
+  if (!user) {
+    return;
+  }
+
+  const link = await createMagicLinkUrl(String(user._id), MAGIC_LINK_EXPIRES_MINUTES);
+
+  await sendMail({
+    to: user.email,
+    subject: "Your BXTrack sign-in link",
+    text: `Hi ${user.name},\n\nUse the link below to sign in. It expires in ${MAGIC_LINK_EXPIRES_MINUTES} minutes and can only be used once.\n\n${link}\n\nIf you did not request this, you can ignore this email.`,
+  });
+};
+
+/**
+ * Consume a magic link token and return the user it belongs to
+ */
+export const verifyMagicLink = async (token: string): Promise<UserResponse> => {
+  // Mark as used atomically so the same link cannot be redeemed twice
+  const magicLink = await MagicLink.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      usedAt: null,
+      expiresAt: { $gt: new Date() },
+    },
+    { usedAt: new Date() },
+    { new: true }
+  );
+
+  if (!magicLink) {
+    throw new Error("Invalid or expired login link");
+  }
+
+  const user = await User.findById(magicLink.user);
+  if (!user || user.deactivatedAt) {
+    throw new Error("Invalid or expired login link");
+  }
+
+  return formatUser(user);
+};
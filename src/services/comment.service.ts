@@ -1,11 +1,23 @@
 import mongoose from "mongoose";
 import Comment from "../models/comment.model";
 import Issue from "../models/issue.model";
-import User from "../models/user.model";
+import User, { Role } from "../models/user.model";
 import { CreateCommentDto, UpdateCommentDto, CommentResponse, PaginatedComments } from "../types/comment.types";
 import { isValidObjectId } from "../utils/validation";
-import { createNotification } from "../utils/notifications";
+import { createNotification, getIssueLink } from "../utils/notifications";
 import { NotificationType } from "../models/notification.model";
+import { Permission, hasPermission } from "../config/permissions";
+import { assertIssueAccess, getAccessibleProjectIds, isProjectMember } from "./project.service";
+import { ActivityType } from "../models/issueActivity.model";
+import { recordActivity } from "./activity.service";
+import { addWatchers, notifyWatchers } from "./watcher.service";
+import { attachmentsPopulate, deleteAttachmentsFor, formatAttachments } from "./attachment.service";
+
+const COMMENT_CONFLICT_MESSAGE = "Comment has changed since you loaded it";
+const MAX_REFERENCES = 20;
+
+// Issue keys written in comment text, e.g. "same cause as BX-142"
+const issueKeyPattern = /\b[A-Z][A-Z0-9]{1,9}-[1-9]\d*\b/g;
 
 // Helper to format comment response with populated fields
 const formatComment = (comment: any): CommentResponse => {
@@ -33,12 +45,52 @@ const formatComment = (comment: any): CommentResponse => {
           profileImage: user.profileImage,
         }))
       : [],
+    references: (comment.references || [])
+      .filter((issue: any) => issue && issue.key)
+      .map((issue: any) => ({
+        _id: String(issue._id),
+        key: issue.key,
+      })),
+    attachments: formatAttachments(comment.attachments),
+    version: comment.__v ?? 0,
     createdAt: comment.createdAt,
     updatedAt: comment.updatedAt,
   };
 };
 
-export const createComment = async (createDto: CreateCommentDto, userId: string): Promise<CommentResponse> => {
+// Helper to find the issues referenced by key in a comment. Keys that match no issue the author
+// can see stay plain text, so a comment never reveals issues from other projects.
+const resolveReferences = async (
+  content: string,
+  issueId: string | mongoose.Types.ObjectId,
+  userId: string,
+  role?: Role
+): Promise<mongoose.Types.ObjectId[]> => {
+  const keys = [...new Set(content.match(issueKeyPattern) || [])].slice(0, MAX_REFERENCES);
+  if (keys.length === 0) {
+    return [];
+  }
+
+  const projectIds = await getAccessibleProjectIds(userId, role);
+  const issues = await Issue.find({
+    $or: [{ key: { $in: keys } }, { previousKeys: { $in: keys } }],
+    ...(projectIds !== null && { project: { $in: projectIds } }),
+  }).select("_id");
+  return issues
+    .filter((issue) => String(issue._id) !== String(issueId))
+    .map((issue) => issue._id as mongoose.Types.ObjectId);
+};
+
+/**
+ * Post a comment on an issue. Pass `notifyWatchers: false` when the caller already tells
+ * the watchers about it (e.g. bulk updates send one summary); mentioned users are still notified.
+ */
+export const createComment = async (
+  createDto: CreateCommentDto,
+  userId: string,
+  role?: Role,
+  options: { notifyWatchers?: boolean } = {}
+): Promise<CommentResponse> => {
   // Validate issue ID format
   if (!isValidObjectId(createDto.issue)) {
     throw new Error("Invalid issue ID format");
@@ -57,6 +109,8 @@ export const createComment = async (createDto: CreateCommentDto, userId: string)
     throw new Error("Issue not found");
   }
 
+  await assertIssueAccess(issue, userId, role);
+
   // Validate that user exists
   const user = await User.findById(userId);
   if (!user) {
@@ -79,6 +133,9 @@ export const createComment = async (createDto: CreateCommentDto, userId: string)
       if (!mentionedUser) {
         throw new Error(`Mentioned user not found: ${mentionId}`);
       }
+      if (!(await isProjectMember(issue.project, mentionId))) {
+        throw new Error(`Invalid mention: user is not a member of this project: ${mentionId}`);
+      }
       mentionIds.push(new mongoose.Types.ObjectId(mentionId));
     }
   }
@@ -88,24 +145,36 @@ export const createComment = async (createDto: CreateCommentDto, userId: string)
     issue: new mongoose.Types.ObjectId(createDto.issue),
     createdBy: new mongoose.Types.ObjectId(userId),
     mentions: mentionIds,
+    references: await resolveReferences(createDto.content, issue._id as mongoose.Types.ObjectId, userId, role),
   });
 
   const savedComment = await comment.save();
   const populatedComment = await Comment.findById(savedComment._id)
     .populate("createdBy", "name email profileImage")
-    .populate("mentions", "name email profileImage");
+    .populate("mentions", "name email profileImage")
+    .populate("references", "key")
+    .populate(attachmentsPopulate);
 
   if (!populatedComment) {
     throw new Error("Failed to create comment");
   }
+
+  await recordActivity({
+    issueId: issue._id as mongoose.Types.ObjectId,
+    actorId: userId,
+    type: ActivityType.COMMENT_ADDED,
+    newValue: populatedComment.content,
+    commentId: String(populatedComment._id),
+  });
+
+  // Commenting on or being mentioned in an issue subscribes to it
+  await addWatchers(issue._id as mongoose.Types.ObjectId, [userId, ...mentionIds]);
   
   if (issue) {
     const commenterName = user.name;
     const issueId = String(issue._id);
     const issueTitle = issue.title;
     const commenterId = String(user._id);
-    const issueCreatorId = issue.createdBy ? String(issue.createdBy._id) : null;
-    const issueAssigneeId = issue.assignee ? String(issue.assignee._id) : null;
 
     // Notify mentioned users
     if (mentionIds.length > 0) {
@@ -120,39 +189,25 @@ export const createComment = async (createDto: CreateCommentDto, userId: string)
               title: "You were mentioned",
               description: `${commenterName} has mentioned you in a comment on issue: "${issueTitle}"`,
               type: NotificationType.MENTIONED,
-              link: `/issues/${issueId}`,
+              link: getIssueLink(issue),
             });
           }
         }
       }
     }
 
-    // Notify issue creator (if different from commenter and not already mentioned)
-    if (issueCreatorId && issueCreatorId !== commenterId) {
-      const isAlreadyMentioned = mentionIds.some((id) => String(id) === issueCreatorId);
-      if (!isAlreadyMentioned) {
-        await createNotification({
-          recipientId: issueCreatorId,
-          title: "Comment added",
-          description: `${commenterName} has added a comment to your issue: "${issueTitle}"`,
-          type: NotificationType.COMMENT_ADDED,
-          link: `/issues/${issueId}`,
-        });
-      }
-    }
-
-    // Notify issue assignee (if different from commenter, creator, and not already mentioned)
-    if (issueAssigneeId && issueAssigneeId !== commenterId && issueAssigneeId !== issueCreatorId) {
-      const isAlreadyMentioned = mentionIds.some((id) => String(id) === issueAssigneeId);
-      if (!isAlreadyMentioned) {
-        await createNotification({
-          recipientId: issueAssigneeId,
+    // Notify the other watchers (mentioned users already got their own notification)
+    if (options.notifyWatchers !== false) {
+      await notifyWatchers(
+        issueId,
+        commenterId,
+        {
           title: "Comment added",
           description: `${commenterName} has added a comment to issue: "${issueTitle}"`,
           type: NotificationType.COMMENT_ADDED,
-          link: `/issues/${issueId}`,
-        });
-      }
+        },
+        mentionIds.map(String)
+      );
     }
   }
 
@@ -162,7 +217,9 @@ export const createComment = async (createDto: CreateCommentDto, userId: string)
 export const getCommentsByIssue = async (
   issueId: string,
   page: number = 1,
-  limit: number = 10
+  limit: number = 10,
+  userId?: string,
+  role?: Role
 ): Promise<PaginatedComments> => {
   // Validate issue ID format
   if (!isValidObjectId(issueId)) {
@@ -175,6 +232,8 @@ export const getCommentsByIssue = async (
     throw new Error("Issue not found");
   }
 
+  await assertIssueAccess(issue, userId, role);
+
   // Validate pagination parameters
   if (page < 1) {
     throw new Error("Page must be greater than 0");
@@ -193,6 +252,8 @@ export const getCommentsByIssue = async (
   const comments = await Comment.find({ issue: new mongoose.Types.ObjectId(issueId) })
     .populate("createdBy", "name email profileImage")
     .populate("mentions", "name email profileImage")
+    .populate("references", "key")
+    .populate(attachmentsPopulate)
     .sort({ createdAt: -1 })
     .skip(skip)
     .limit(limit);
@@ -206,10 +267,36 @@ export const getCommentsByIssue = async (
   };
 };
 
+/**
+ * Get a single comment, e.g. to show the current state after a conflicting edit
+ */
+export const getCommentById = async (commentId: string): Promise<CommentResponse> => {
+  if (!isValidObjectId(commentId)) {
+    throw new Error("Invalid comment ID format");
+  }
+
+  const comment = await Comment.findById(commentId)
+    .populate("createdBy", "name email profileImage")
+    .populate("mentions", "name email profileImage")
+    .populate("references", "key")
+    .populate(attachmentsPopulate);
+  if (!comment) {
+    throw new Error("Comment not found");
+  }
+
+  return formatComment(comment);
+};
+
+/**
+ * Edit a comment. With `expectedVersion` (from If-Match), the edit is rejected if the
+ * comment changed since the client loaded that version.
+ */
 export const updateComment = async (
   commentId: string,
   updateDto: UpdateCommentDto,
-  userId: string
+  userId: string,
+  role?: Role,
+  expectedVersion?: number
 ): Promise<CommentResponse> => {
   // Validate comment ID format
   if (!isValidObjectId(commentId)) {
@@ -236,10 +323,20 @@ export const updateComment = async (
     throw new Error("You can only update your own comments");
   }
 
+  if (expectedVersion !== undefined && comment.__v !== expectedVersion) {
+    throw new Error(COMMENT_CONFLICT_MESSAGE);
+  }
+
+  const oldContent = comment.content;
+  const oldMentionIds = comment.mentions.map(String);
   comment.content = updateDto.content.trim();
+  if (comment.content !== oldContent) {
+    comment.references = await resolveReferences(comment.content, comment.issue, userId, role);
+  }
 
   // Update mentions if provided
   if (updateDto.mentions !== undefined) {
+    const issue = await Issue.findById(comment.issue).select("project");
     const mentionIds: mongoose.Types.ObjectId[] = [];
     if (Array.isArray(updateDto.mentions)) {
       for (const mentionId of updateDto.mentions) {
@@ -250,25 +347,56 @@ export const updateComment = async (
         if (!mentionedUser) {
           throw new Error(`Mentioned user not found: ${mentionId}`);
         }
+        if (issue && !(await isProjectMember(issue.project, mentionId))) {
+          throw new Error(`Invalid mention: user is not a member of this project: ${mentionId}`);
+        }
         mentionIds.push(new mongoose.Types.ObjectId(mentionId));
       }
     }
     comment.mentions = mentionIds;
   }
 
-  const updatedComment = await comment.save();
+  // A concurrent save between loading and saving is a conflict as well
+  let updatedComment;
+  try {
+    updatedComment = await comment.save();
+  } catch (error) {
+    if (error instanceof mongoose.Error.VersionError) {
+      throw new Error(COMMENT_CONFLICT_MESSAGE);
+    }
+    throw error;
+  }
   const populatedComment = await Comment.findById(updatedComment._id)
     .populate("createdBy", "name email profileImage")
-    .populate("mentions", "name email profileImage");
+    .populate("mentions", "name email profileImage")
+    .populate("references", "key")
+    .populate(attachmentsPopulate);
 
   if (!populatedComment) {
     throw new Error("Failed to update comment");
   }
 
+  if (oldContent !== populatedComment.content) {
+    await recordActivity({
+      issueId: comment.issue,
+      actorId: userId,
+      type: ActivityType.COMMENT_EDITED,
+      oldValue: oldContent,
+      newValue: populatedComment.content,
+      commentId,
+    });
+  }
+
+  // Users newly mentioned in the edit start watching the issue
+  await addWatchers(
+    comment.issue,
+    updatedComment.mentions.filter((id) => !oldMentionIds.includes(String(id)))
+  );
+
   return formatComment(populatedComment);
 };
 
-export const deleteComment = async (commentId: string, userId: string): Promise<void> => {
+export const deleteComment = async (commentId: string, userId: string, role?: Role): Promise<void> => {
   // Validate comment ID format
   if (!isValidObjectId(commentId)) {
     throw new Error("Invalid comment ID format");
@@ -284,11 +412,20 @@ export const deleteComment = async (commentId: string, userId: string): Promise<
     throw new Error("Comment not found");
   }
 
-  // Check if user is the creator of the comment
-  if (String(comment.createdBy) !== userId) {
+  // Check if user is the creator of the comment (admins may delete any comment)
+  if (String(comment.createdBy) !== userId && !hasPermission(role, Permission.COMMENTS_DELETE_ANY)) {
     throw new Error("You can only delete your own comments");
   }
 
   await Comment.findByIdAndDelete(commentId);
+  await deleteAttachmentsFor({ comment: comment._id });
+
+  await recordActivity({
+    issueId: comment.issue,
+    actorId: userId,
+    type: ActivityType.COMMENT_DELETED,
+    oldValue: comment.content,
+    commentId,
+  });
 };
 
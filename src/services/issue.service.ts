@@ -1,19 +1,60 @@
 import mongoose from "mongoose";
-import Issue, { Priority, Status } from "../models/issue.model";
-import User from "../models/user.model";
+import Issue, { Priority, StatusCategory } from "../models/issue.model";
+import User, { Role } from "../models/user.model";
 import Comment from "../models/comment.model";
+import Notification from "../models/notification.model";
 import {
   CreateIssueDto,
   UpdateIssueDto,
   IssueFilters,
   IssueSummary,
+  IssueSummaryOptions,
+  IssueSearchMatch,
+  IssueSort,
+  PaginatedIssues,
+  PurgeIssueResponse,
+  SortOrder,
 } from "../types/issue.types";
-import { isValidObjectId } from "../utils/validation";
+import { isIssueKey, isValidObjectId, parseDate } from "../utils/validation";
+import { toEstimate } from "../utils/duration";
+import { decodeCursor, encodeCursor } from "../utils/cursor";
+import { getSearchTerms, highlight, buildSnippet } from "../utils/search";
+import { COMMENT_SCORE_WEIGHT, MAX_SEARCH_CANDIDATES } from "../config/search";
 import {
   createNotification,
-  createNotificationForAllUsers,
+  createNotificationsForUsers,
+  getIssueLink,
 } from "../utils/notifications";
 import { NotificationType } from "../models/notification.model";
+import Label from "../models/label.model";
+import Project from "../models/project.model";
+import IssueActivity, { ActivityType } from "../models/issueActivity.model";
+import { recordActivity, toActivityRef } from "./activity.service";
+import { LabelMatch } from "../types/label.types";
+import { resolveLabelIds } from "./label.service";
+import IssueRelation from "../models/issueRelation.model";
+import WorkLog from "../models/workLog.model";
+import { getOpenBlockers, getRelationsForIssue } from "./relation.service";
+import { getWatcherRecipients } from "./watcher.service";
+import { compileIssueQuery, overdueCondition } from "./issueQuery.service";
+import {
+  getAccessibleProject,
+  getAccessibleProjectIds,
+  isProjectMember,
+  assertIssueAccess,
+  reserveIssueKey,
+} from "./project.service";
+import {
+  getWorkflowForProject,
+  getWorkflowsForProjects,
+  findWorkflowStatus,
+  assertTransitionAllowed,
+} from "./workflow.service";
+import { attachmentsPopulate, deleteAttachmentsFor, formatAttachments } from "./attachment.service";
+import { createComment } from "./comment.service";
+import { Permission, hasPermission } from "../config/permissions";
+
+const ISSUE_CONFLICT_MESSAGE = "Issue has changed since you loaded it";
 
 // Helper to validate and convert string to ObjectId
 const toObjectId = (
@@ -28,14 +69,66 @@ const toObjectId = (
   return new mongoose.Types.ObjectId(id);
 };
 
+// Helper to find an issue by ObjectId or by key. Keys it had before moving to another project still work.
+const byIdOrKey = (idOrKey: string): any => {
+  if (isIssueKey(idOrKey)) {
+    const key = idOrKey.toUpperCase();
+    return { $or: [{ key }, { previousKeys: key }] };
+  }
+  if (!isValidObjectId(idOrKey)) {
+    throw new Error("Invalid issue ID format. Must be an issue ID or a key such as BX-142");
+  }
+  return { _id: idOrKey };
+};
+
+// Helper to limit a query to the projects a user can see, optionally narrowed to one project
+const getProjectScope = async (userId: string, role?: Role, projectId?: string): Promise<any> => {
+  if (projectId) {
+    const project = await getAccessibleProject(projectId, userId, role);
+    return project._id;
+  }
+  const projectIds = await getAccessibleProjectIds(userId, role);
+  return projectIds === null ? undefined : { $in: projectIds };
+};
+
+// Helper to parse a due date from a create/update request. A plain date means the end of that day (UTC)
+const toDueDate = (value: string | null | undefined): Date | null => {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const dueDate = parseDate(String(value), true);
+  if (!dueDate) {
+    throw new Error("Invalid dueDate. Must be an ISO 8601 date such as 2025-03-31 or a date-time");
+  }
+  return dueDate;
+};
+
+// Helper to apply the due date filters shared by the issue list endpoints
+const applyDueDateFilters = (query: any, filters?: IssueFilters): void => {
+  if (filters?.dueBefore || filters?.dueAfter) {
+    query.dueDate = {
+      ...(filters.dueAfter && { $gte: filters.dueAfter }),
+      ...(filters.dueBefore && { $lte: filters.dueBefore }),
+    };
+  }
+
+  if (filters?.overdue === true) {
+    query.$and = [...(query.$and || []), overdueCondition()];
+  } else if (filters?.overdue === false) {
+    query.$nor = [...(query.$nor || []), overdueCondition()];
+  }
+};
+
 // Helper to format issue response with populated fields
 const formatIssue = (issue: any) => {
   return {
     _id: String(issue._id),
+    key: issue.key || null,
     title: issue.title,
     description: issue.description,
     priority: issue.priority,
     status: issue.status,
+    statusCategory: issue.statusCategory,
     assignee: issue.assignee
       ? {
           _id: String(issue.assignee._id),
@@ -52,12 +145,35 @@ const formatIssue = (issue: any) => {
           profileImage: issue.createdBy.profileImage,
         }
       : null,
+    project: issue.project
+      ? {
+          _id: String(issue.project._id || issue.project),
+          name: issue.project.name,
+        }
+      : null,
+    labels: (issue.labels || [])
+      .filter((label: any) => label && label.name)
+      .map((label: any) => ({
+        _id: String(label._id),
+        name: label.name,
+        color: label.color,
+      })),
+    watchers: (issue.watchers || []).map(String),
+    attachments: formatAttachments(issue.attachments),
+    version: issue.__v ?? 0,
+    dueDate: issue.dueDate || null,
+    overdue: !!issue.dueDate && issue.dueDate < new Date() && issue.statusCategory !== StatusCategory.DONE,
+    originalEstimate: issue.originalEstimate ?? null,
+    remainingEstimate: issue.remainingEstimate ?? null,
+    timeSpent: issue.timeSpent ?? 0,
+    archivedAt: issue.archivedAt || null,
+    archivedBy: issue.archivedBy ? String(issue.archivedBy._id || issue.archivedBy) : null,
     createdAt: issue.createdAt,
     updatedAt: issue.updatedAt,
   };
 };
 
-export const createIssue = async (createDto: CreateIssueDto) => {
+export const createIssue = async (createDto: CreateIssueDto, role?: Role) => {
   const assigneeId = toObjectId(createDto.assignee);
   const createdById = toObjectId(createDto.createdBy);
 
@@ -67,45 +183,79 @@ export const createIssue = async (createDto: CreateIssueDto) => {
     throw new Error("Creator user not found");
   }
 
+  // Issues can only be created in projects the creator can see
+  const project = await getAccessibleProject(createDto.project, createDto.createdBy, role);
+
   // Validate that assignee user exists if provided
   if (assigneeId) {
     const assignee = await User.findById(assigneeId);
     if (!assignee) {
       throw new Error("Assignee user not found");
     }
+    if (assignee.deactivatedAt) {
+      throw new Error("Invalid assignee: user is deactivated");
+    }
+    if (!(await isProjectMember(project._id as mongoose.Types.ObjectId, assigneeId))) {
+      throw new Error("Invalid assignee: user is not a member of this project");
+    }
+  }
+
+  const labelIds = createDto.labels ? await resolveLabelIds(createDto.labels) : [];
+  const dueDate = toDueDate(createDto.dueDate);
+  const originalEstimate =
+    createDto.originalEstimate !== undefined ? toEstimate(createDto.originalEstimate, "originalEstimate") : null;
+  const remainingEstimate =
+    createDto.remainingEstimate !== undefined
+      ? toEstimate(createDto.remainingEstimate, "remainingEstimate")
+      : originalEstimate;
+
+  // New issues start in the workflow's initial status unless another one is given
+  const workflow = await getWorkflowForProject(project._id as mongoose.Types.ObjectId);
+  const status = findWorkflowStatus(workflow, createDto.status ?? workflow.initialStatus);
+  if (!status) {
+    throw new Error(`Invalid status. Must be one of: ${workflow.statuses.map((item) => item.name).join(", ")}`);
   }
 
   const issue = new Issue({
+    key: await reserveIssueKey(project._id as mongoose.Types.ObjectId),
     title: createDto.title,
     description: createDto.description,
     priority: createDto.priority,
-    status: createDto.status,
+    status: status.name,
+    statusCategory: status.category,
     assignee: assigneeId,
     createdBy: createdById,
+    project: project._id,
+    labels: labelIds,
+    // The creator and the assignee follow the issue from the start
+    watchers: [...new Set([createdById, assigneeId].filter(Boolean).map(String))],
+    dueDate,
+    originalEstimate,
+    remainingEstimate,
   });
 
   const savedIssue = await issue.save();
   const populatedIssue = await Issue.findById(savedIssue._id)
     .populate("assignee", "name email profileImage")
-    .populate("createdBy", "name email profileImage");
+    .populate("createdBy", "name email profileImage")
+    .populate("labels", "name color")
+    .populate("project", "name")
+    .populate(attachmentsPopulate);
 
   if (!populatedIssue) {
     throw new Error("Failed to create issue");
   }
 
-  const issueId = String(savedIssue._id);
-  const creatorName = creator.name;
-
-  // Create notification for all users about new issue
-  await createNotificationForAllUsers(createdById!, {
-    title: "Issue Created",
-    description: `${creatorName} has created a new issue: "${createDto.title}"`,
-    type: NotificationType.ISSUE_CREATED,
-    link: `/issues/${issueId}`,
+  await recordActivity({
+    issueId: savedIssue._id as mongoose.Types.ObjectId,
+    actorId: createDto.createdBy,
+    type: ActivityType.ISSUE_CREATED,
   });
 
-  // If issue is assigned, create specific notification for assignee
-  if (assigneeId) {
+  const creatorName = creator.name;
+
+  // The assignee is the only other watcher of a new issue
+  if (assigneeId && String(assigneeId) !== String(createdById)) {
     const assignee = await User.findById(assigneeId);
     if (assignee) {
       await createNotification({
@@ -113,7 +263,7 @@ export const createIssue = async (createDto: CreateIssueDto) => {
         title: "Issue Assigned",
         description: `${creatorName} has assigned you to issue: "${createDto.title}"`,
         type: NotificationType.ISSUE_ASSIGNED,
-        link: `/issues/${issueId}`,
+        link: getIssueLink(savedIssue),
       });
     }
   }
@@ -121,13 +271,140 @@ export const createIssue = async (createDto: CreateIssueDto) => {
   return formatIssue(populatedIssue);
 };
 
-export const getIssues = async (filters: IssueFilters) => {
+// Field behind each sort option, its default order and how to read its value back from a cursor
+const issueSorts: Record<IssueSort, { field: string; defaultOrder: SortOrder; parse: (value: unknown) => unknown }> = {
+  [IssueSort.CREATED_AT]: { field: "createdAt", defaultOrder: SortOrder.DESC, parse: (value) => parseCursorDate(value) },
+  [IssueSort.UPDATED_AT]: { field: "updatedAt", defaultOrder: SortOrder.DESC, parse: (value) => parseCursorDate(value) },
+  [IssueSort.PRIORITY]: {
+    field: "priorityRank",
+    defaultOrder: SortOrder.DESC,
+    parse: (value) => (typeof value === "number" ? value : null),
+  },
+  [IssueSort.STATUS]: {
+    field: "status",
+    defaultOrder: SortOrder.ASC,
+    parse: (value) => (typeof value === "string" ? value : null),
+  },
+  [IssueSort.TITLE]: {
+    field: "title",
+    defaultOrder: SortOrder.ASC,
+    parse: (value) => (typeof value === "string" ? value : null),
+  },
+};
+
+// Helper to turn a date stored in a cursor back into a Date
+const parseCursorDate = (value: unknown): Date | null => {
+  if (typeof value !== "string") {
+    return null;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+/**
+ * Sort and paginate the issues matching a query. Without a cursor, pages are numbered;
+ * with `after` or `before`, the page starts right after or ends right before the cursor,
+ * so it stays stable while issues are added or changed. Issues with the same sort value
+ * are ordered by ID.
+ */
+const listIssues = async (query: any, filters?: IssueFilters): Promise<PaginatedIssues> => {
+  const sort = filters?.sort || IssueSort.CREATED_AT;
+  const { field, defaultOrder, parse } = issueSorts[sort];
+  const order = filters?.order || defaultOrder;
+  const sortKey = `${sort}:${order}`;
+  const limit = filters?.limit || 10;
+  const page = filters?.page || 1;
+  const cursor = filters?.after || filters?.before;
+  const backwards = !filters?.after && !!filters?.before;
+
+  // Get total count for pagination
+  const total = await Issue.countDocuments(query);
+
+  // Walking backwards from a cursor reads the issues in reverse and flips them afterwards
+  const direction = ((order === SortOrder.ASC ? 1 : -1) * (backwards ? -1 : 1)) as 1 | -1;
+  const pageQuery = { ...query };
+  if (cursor) {
+    const position = decodeCursor<{ sort: string; value: unknown; id: string }>(cursor);
+    const value = position && position.sort === sortKey ? parse(position.value) : null;
+    if (!position || value === null || typeof position.id !== "string" || !isValidObjectId(position.id)) {
+      throw new Error("Invalid cursor. Cursors only work with the sort and order they were returned for");
+    }
+
+    const operator = direction === 1 ? "$gt" : "$lt";
+    pageQuery.$and = [
+      ...(query.$and || []),
+      {
+        $or: [
+          { [field]: { [operator]: value } },
+          { [field]: value, _id: { [operator]: new mongoose.Types.ObjectId(position.id) } },
+        ],
+      },
+    ];
+  }
+
+  // Fetch one extra issue to find out whether there is another page
+  const results = await Issue.find(pageQuery)
+    .populate("assignee", "name email profileImage")
+    .populate("createdBy", "name email profileImage")
+    .populate("labels", "name color")
+    .populate("project", "name")
+    .populate(attachmentsPopulate)
+    .sort({ [field]: direction, _id: direction })
+    .skip(cursor ? 0 : (page - 1) * limit)
+    .limit(limit + 1);
+
+  const hasMore = results.length > limit;
+  const issues = results.slice(0, limit);
+  if (backwards) {
+    issues.reverse();
+  }
+
+  const toCursor = (issue: any) => encodeCursor({ sort: sortKey, value: issue.get(field), id: String(issue._id) });
+  const hasNext = backwards ? issues.length > 0 : hasMore;
+  const hasPrev = backwards ? hasMore : !!cursor || page > 1;
+
+  return {
+    issues: issues.map(formatIssue),
+    total,
+    ...(!cursor && { page }),
+    limit,
+    ...(!cursor && { totalPages: Math.ceil(total / limit) }),
+    nextCursor: hasNext && issues.length > 0 ? toCursor(issues[issues.length - 1]) : null,
+    prevCursor: hasPrev && issues.length > 0 ? toCursor(issues[0]) : null,
+  };
+};
+
+// Helper to build the Mongo query for the issue list filters, with any free text kept apart for searchIssues
+const buildIssueQuery = async (
+  filters: IssueFilters,
+  userId: string,
+  role?: Role
+): Promise<{ query: any; text: string }> => {
   const query: any = {};
 
+  // Compile the query language first so syntax errors are reported before anything else runs
+  const compiled = filters.query ? await compileIssueQuery(filters.query, userId, role) : null;
+
+  const projectScope = await getProjectScope(userId, role, filters.project);
+  if (projectScope) {
+    query.project = projectScope;
+  }
+
+  // Archived (soft-deleted) issues are hidden unless explicitly requested
+  if (!filters.includeArchived && !compiled?.includeArchived) {
+    query.archivedAt = null;
+  }
+
   if (filters.status) {
     query.status = filters.status;
   }
 
+  if (filters.statusCategory) {
+    query.statusCategory = filters.statusCategory;
+  }
+
+  applyDueDateFilters(query, filters);
+
   if (filters.priority) {
     query.priority = filters.priority;
   }
@@ -143,32 +420,189 @@ export const getIssues = async (filters: IssueFilters) => {
     }
   }
 
-  // Pagination
-  const page = filters.page || 1;
-  const limit = filters.limit || 10;
-  const skip = (page - 1) * limit;
+  if (filters.labels && filters.labels.length > 0) {
+    if (filters.labels.some((labelId) => !isValidObjectId(labelId))) {
+      throw new Error("Invalid label ID format");
+    }
+    const labelIds = filters.labels.map((labelId) => new mongoose.Types.ObjectId(labelId));
+
+    switch (filters.labelMatch || LabelMatch.ANY) {
+      case LabelMatch.ALL:
+        query.labels = { $all: labelIds };
+        break;
+      case LabelMatch.NONE:
+        query.labels = { $nin: labelIds };
+        break;
+      default:
+        query.labels = { $in: labelIds };
+    }
+  }
 
-  // Get total count for pagination
-  const total = await Issue.countDocuments(query);
+  // Conditions from the query language apply on top of the other filters
+  if (compiled && compiled.conditions.length > 0) {
+    query.$and = [...(query.$and || []), ...compiled.conditions];
+  }
+
+  const text = [filters.q, compiled?.text].filter(Boolean).join(" ").trim();
+
+  return { query, text };
+};
 
-  // Fetch paginated issues
-  const issues = await Issue.find(query)
+export const getIssues = async (filters: IssueFilters, userId: string, role?: Role) => {
+  const { query, text } = await buildIssueQuery(filters, userId, role);
+
+  // Search results are ranked by relevance and always paged by number
+  if (text) {
+    if (filters.sort || filters.order || filters.after || filters.before) {
+      throw new Error("Invalid search: sort, order, after and before cannot be combined with free text");
+    }
+    return searchIssues(text, query, filters.page || 1, filters.limit || 10);
+  }
+
+  return listIssues(query, filters);
+};
+
+/**
+ * Count the issues matching the list filters, optionally only those updated after `updatedSince`
+ */
+export const countIssues = async (
+  filters: IssueFilters,
+  userId: string,
+  role?: Role,
+  updatedSince?: Date
+): Promise<number> => {
+  const { query, text } = await buildIssueQuery(filters, userId, role);
+
+  if (updatedSince) {
+    query.updatedAt = { $gt: updatedSince };
+  }
+
+  // Free text can match through comments, so count the way searchIssues finds issues
+  if (text) {
+    const result = await searchIssues(text, query, 1, 1);
+    return result.total;
+  }
+
+  return Issue.countDocuments(query);
+};
+
+/**
+ * IDs of the issues matching the list filters, newest first (or by relevance for free
+ * text), up to `limit`, with how many match in total
+ */
+export const findIssueIds = async (
+  filters: IssueFilters,
+  userId: string,
+  role: Role | undefined,
+  limit: number
+): Promise<{ ids: string[]; total: number }> => {
+  const { query, text } = await buildIssueQuery(filters, userId, role);
+
+  if (text) {
+    const result = await searchIssues(text, query, 1, limit);
+    return { ids: result.issues.map((issue: any) => String(issue._id)), total: result.total };
+  }
+
+  const [issues, total] = await Promise.all([
+    Issue.find(query).sort({ createdAt: -1, _id: -1 }).limit(limit).select("_id"),
+    Issue.countDocuments(query),
+  ]);
+  return { ids: issues.map((issue) => String(issue._id)), total };
+};
+
+/**
+ * Full-text search over issue titles, descriptions and comments. Each issue is ranked
+ * by its own text score plus a down-weighted score from its best matching comment,
+ * and returned with highlighted snippets.
+ */
+const searchIssues = async (q: string, query: any, page: number, limit: number) => {
+  const [issueMatches, commentMatches] = await Promise.all([
+    Issue.find({ ...query, $text: { $search: q } })
+      .select({ score: { $meta: "textScore" }, createdAt: 1 })
+      .sort({ score: { $meta: "textScore" } })
+      .limit(MAX_SEARCH_CANDIDATES)
+      .lean<Array<{ _id: mongoose.Types.ObjectId; createdAt: Date; score: number }>>(),
+    Comment.find({ $text: { $search: q } })
+      .select({ score: { $meta: "textScore" }, issue: 1, content: 1 })
+      .sort({ score: { $meta: "textScore" } })
+      .limit(MAX_SEARCH_CANDIDATES)
+      .lean<Array<{ _id: mongoose.Types.ObjectId; issue: mongoose.Types.ObjectId; content: string; score: number }>>(),
+  ]);
+
+  // Comments come back best first, so the first one seen per issue is its best match
+  const bestComments = new Map<string, { _id: string; content: string; score: number }>();
+  for (const comment of commentMatches) {
+    const issueId = String(comment.issue);
+    if (!bestComments.has(issueId)) {
+      bestComments.set(issueId, { _id: String(comment._id), content: comment.content, score: comment.score });
+    }
+  }
+
+  const candidates = new Map<string, { score: number; createdAt: Date }>();
+  issueMatches.forEach((issue) => {
+    candidates.set(String(issue._id), { score: issue.score, createdAt: issue.createdAt });
+  });
+
+  // Issues found only through a comment still have to pass the other filters
+  const commentOnlyIds = [...bestComments.keys()].filter((issueId) => !candidates.has(issueId));
+  if (commentOnlyIds.length > 0) {
+    const commentOnlyIssues = await Issue.find({ ...query, _id: { $in: commentOnlyIds } })
+      .select("createdAt")
+      .lean<Array<{ _id: mongoose.Types.ObjectId; createdAt: Date }>>();
+    commentOnlyIssues.forEach((issue) => {
+      candidates.set(String(issue._id), { score: 0, createdAt: issue.createdAt });
+    });
+  }
+
+  const ranked = [...candidates.entries()]
+    .map(([issueId, candidate]) => ({
+      issueId,
+      createdAt: candidate.createdAt,
+      score: candidate.score + (bestComments.get(issueId)?.score || 0) * COMMENT_SCORE_WEIGHT,
+    }))
+    .sort((a, b) => b.score - a.score || b.createdAt.getTime() - a.createdAt.getTime());
+
+  const total = ranked.length;
+  const pageResults = ranked.slice((page - 1) * limit, page * limit);
+
+  const issues = await Issue.find({ _id: { $in: pageResults.map((result) => result.issueId) } })
     .populate("assignee", "name email profileImage")
     .populate("createdBy", "name email profileImage")
-    .sort({ createdAt: -1 })
-    .skip(skip)
-    .limit(limit);
+    .populate("labels", "name color")
+    .populate("project", "name")
+    .populate(attachmentsPopulate);
+  const issuesById = new Map(issues.map((issue) => [String(issue._id), issue]));
+
+  const terms = getSearchTerms(q);
 
   return {
-    issues: issues.map(formatIssue),
+    issues: pageResults
+      .filter((result) => issuesById.has(result.issueId))
+      .map((result) => {
+        const issue = issuesById.get(result.issueId)!;
+        const comment = bestComments.get(result.issueId);
+
+        const search: IssueSearchMatch = {
+          score: Math.round(result.score * 1000) / 1000,
+          highlights: {
+            title: highlight(issue.title, terms),
+            description: buildSnippet(issue.description, terms),
+            comment: comment ? { _id: comment._id, snippet: buildSnippet(comment.content, terms) } : null,
+          },
+        };
+
+        return { ...formatIssue(issue), search };
+      }),
     total,
     page,
     limit,
     totalPages: Math.ceil(total / limit),
+    nextCursor: null,
+    prevCursor: null,
   };
 };
 
-export const getMyIssues = async (userId: string, filters?: Omit<IssueFilters, "assignee">) => {
+export const getMyIssues = async (userId: string, filters?: Omit<IssueFilters, "assignee">, role?: Role) => {
   if (!isValidObjectId(userId)) {
     throw new Error("Invalid user ID format");
   }
@@ -177,68 +611,81 @@ export const getMyIssues = async (userId: string, filters?: Omit<IssueFilters, "
     assignee: new mongoose.Types.ObjectId(userId),
   };
 
+  const projectScope = await getProjectScope(userId, role, filters?.project);
+  if (projectScope) {
+    query.project = projectScope;
+  }
+
+  if (!filters?.includeArchived) {
+    query.archivedAt = null;
+  }
+
   if (filters?.status) {
     query.status = filters.status;
   }
 
-  if (filters?.priority) {
-    query.priority = filters.priority;
+  if (filters?.statusCategory) {
+    query.statusCategory = filters.statusCategory;
   }
 
-  // Pagination
-  const page = filters?.page || 1;
-  const limit = filters?.limit || 10;
-  const skip = (page - 1) * limit;
+  applyDueDateFilters(query, filters);
 
-  // Get total count for pagination
-  const total = await Issue.countDocuments(query);
-
-  // Fetch paginated issues
-  const issues = await Issue.find(query)
-    .populate("assignee", "name email profileImage")
-    .populate("createdBy", "name email profileImage")
-    .sort({ createdAt: -1 })
-    .skip(skip)
-    .limit(limit);
+  if (filters?.priority) {
+    query.priority = filters.priority;
+  }
 
-  return {
-    issues: issues.map(formatIssue),
-    total,
-    page,
-    limit,
-    totalPages: Math.ceil(total / limit),
-  };
+  return listIssues(query, filters);
 };
 
-export const getIssueById = async (id: string) => {
-  if (!isValidObjectId(id)) {
-    throw new Error("Invalid issue ID format");
-  }
-
-  const issue = await Issue.findById(id)
+/**
+ * Get an issue by ID or key
+ */
+export const getIssueById = async (id: string, userId?: string, role?: Role) => {
+  const issue = await Issue.findOne(byIdOrKey(id))
     .populate("assignee", "name email profileImage")
-    .populate("createdBy", "name email profileImage");
+    .populate("createdBy", "name email profileImage")
+    .populate("labels", "name color")
+    .populate("project", "name")
+    .populate(attachmentsPopulate);
 
   if (!issue) {
     throw new Error("Issue not found");
   }
 
-  return formatIssue(issue);
-};
+  await assertIssueAccess(issue, userId, role);
 
-export const updateIssue = async (id: string, updateDto: UpdateIssueDto, userId?: string) => {
-  if (!isValidObjectId(id)) {
-    throw new Error("Invalid issue ID format");
-  }
+  return {
+    ...formatIssue(issue),
+    relations: await getRelationsForIssue(issue._id as mongoose.Types.ObjectId, userId, role),
+  };
+};
 
-  const issue = await Issue.findById(id)
+/**
+ * Update an issue, found by ID or key. With `expectedVersion` (from If-Match), the update is rejected if the
+ * issue changed since the client loaded that version.
+ */
+export const updateIssue = async (
+  id: string,
+  updateDto: UpdateIssueDto,
+  userId?: string,
+  role?: Role,
+  expectedVersion?: number
+) => {
+  const issue = await Issue.findOne(byIdOrKey(id))
     .populate("createdBy", "name email profileImage")
     .populate("assignee", "name email profileImage");
   if (!issue) {
     throw new Error("Issue not found");
   }
 
+  await assertIssueAccess(issue, userId, role);
+
+  if (expectedVersion !== undefined && issue.__v !== expectedVersion) {
+    throw new Error(ISSUE_CONFLICT_MESSAGE);
+  }
+
   const oldStatus = issue.status;
+  const oldStatusCategory = issue.statusCategory;
   const oldPriority = issue.priority;
   const oldAssignee = issue.assignee 
     ? (typeof issue.assignee === "object" && "_id" in issue.assignee 
@@ -248,6 +695,17 @@ export const updateIssue = async (id: string, updateDto: UpdateIssueDto, userId?
   const issueId = String(issue._id);
   const issueTitle = issue.title;
 
+  // Snapshot the current values for the activity log
+  const previous = {
+    description: issue.description,
+    dueDate: issue.dueDate,
+    originalEstimate: issue.originalEstimate ?? null,
+    remainingEstimate: issue.remainingEstimate ?? null,
+    assignee: toActivityRef(issue.assignee),
+    labelIds: issue.labels.map(String),
+    projectId: String(issue.project),
+  };
+
   // Get the user making the update
   let updaterName = "Someone";
   if (userId) {
@@ -269,30 +727,188 @@ export const updateIssue = async (id: string, updateDto: UpdateIssueDto, userId?
   if (updateDto.priority !== undefined) {
     issue.priority = updateDto.priority;
   }
-  if (updateDto.status !== undefined) {
-    issue.status = updateDto.status;
-  }
   if (updateDto.assignee !== undefined) {
     const assigneeId = toObjectId(updateDto.assignee);
+
+    // Only users allowed to reassign any issue may take an issue away from someone else
+    const isReassigningOther =
+      oldAssignee !== null && oldAssignee !== userId && oldAssignee !== (assigneeId ? String(assigneeId) : null);
+    if (isReassigningOther && !hasPermission(role, Permission.ISSUES_ASSIGN_ANY)) {
+      throw new Error("Only admins can change another person's assignee");
+    }
+
     // Validate assignee exists if provided
     if (assigneeId) {
       const assignee = await User.findById(assigneeId);
       if (!assignee) {
         throw new Error("Assignee user not found");
       }
+      if (assignee.deactivatedAt) {
+        throw new Error("Invalid assignee: user is deactivated");
+      }
     }
     issue.assignee = assigneeId;
   }
+  if (updateDto.dueDate !== undefined) {
+    issue.dueDate = toDueDate(updateDto.dueDate);
+  }
+  if (updateDto.originalEstimate !== undefined) {
+    issue.originalEstimate = toEstimate(updateDto.originalEstimate, "originalEstimate");
+  }
+  if (updateDto.remainingEstimate !== undefined) {
+    issue.remainingEstimate = toEstimate(updateDto.remainingEstimate, "remainingEstimate");
+  }
+
+  // A new due date or assignee gets its own due soon / overdue reminders
+  const dueDateChanged = (previous.dueDate?.getTime() ?? null) !== (issue.dueDate?.getTime() ?? null);
+  const assigneeChanged =
+    updateDto.assignee !== undefined && oldAssignee !== (issue.assignee ? String(issue.assignee) : null);
+  if (dueDateChanged || assigneeChanged) {
+    issue.dueSoonNotifiedAt = null;
+    issue.overdueNotifiedAt = null;
+  }
+
+  // New assignees start watching the issue
+  if (assigneeChanged && issue.assignee && !issue.watchers.some((id) => String(id) === String(issue.assignee))) {
+    issue.watchers.push(issue.assignee);
+  }
+  if (updateDto.labels !== undefined) {
+    issue.labels = await resolveLabelIds(updateDto.labels);
+  }
 
-  const updatedIssue = await issue.save();
+  // Moving to another project requires access to that project too
+  const isMovingProject = updateDto.project !== undefined && updateDto.project !== String(issue.project);
+  if (isMovingProject) {
+    const targetProject = await getAccessibleProject(updateDto.project!, userId || "", role);
+    issue.project = targetProject._id as mongoose.Types.ObjectId;
+
+    // Watchers who can't see the target project stop hearing about the issue, as when they leave a project
+    const memberIds = new Set(targetProject.members.map(String));
+    issue.watchers = issue.watchers.filter((watcherId) => memberIds.has(String(watcherId)));
+  }
+
+  // Status changes have to follow the workflow of the issue's project
+  if (updateDto.status !== undefined || isMovingProject) {
+    const workflow = await getWorkflowForProject(issue.project);
+    const newStatus = updateDto.status ?? oldStatus;
+
+    if (isMovingProject) {
+      // The old project's transitions don't apply, but the status has to exist in the new workflow
+      if (!findWorkflowStatus(workflow, newStatus)) {
+        throw new Error(
+          `Invalid status: "${newStatus}" is not part of the target project's workflow. Pass one of: ${workflow.statuses
+            .map((status) => status.name)
+            .join(", ")}`
+        );
+      }
+    } else {
+      assertTransitionAllowed(workflow, oldStatus, newStatus, updateDto.comment);
+    }
+
+    const status = findWorkflowStatus(workflow, newStatus)!;
+    issue.status = status.name;
+    issue.statusCategory = status.category;
+  }
+
+  // The assignee must be a member of the issue's project, including after a move
+  const finalAssignee = updateDto.assignee !== undefined ? toObjectId(updateDto.assignee) : oldAssignee;
+  if (
+    finalAssignee &&
+    (updateDto.assignee !== undefined || isMovingProject) &&
+    !(await isProjectMember(issue.project, finalAssignee))
+  ) {
+    throw new Error("Invalid assignee: user is not a member of this project");
+  }
+
+  // A moved issue gets the next key of its new project; the old one keeps working in lookups
+  if (isMovingProject) {
+    if (issue.key) {
+      issue.previousKeys.push(issue.key);
+    }
+    issue.key = await reserveIssueKey(issue.project);
+  }
+
+  // A concurrent save between loading and saving is a conflict as well
+  let updatedIssue;
+  try {
+    updatedIssue = await issue.save();
+  } catch (error) {
+    if (error instanceof mongoose.Error.VersionError) {
+      throw new Error(ISSUE_CONFLICT_MESSAGE);
+    }
+    throw error;
+  }
   const populatedIssue = await Issue.findById(updatedIssue._id)
     .populate("assignee", "name email profileImage")
-    .populate("createdBy", "name email profileImage");
+    .populate("createdBy", "name email profileImage")
+    .populate("labels", "name color")
+    .populate("project", "name")
+    .populate(attachmentsPopulate);
 
   if (!populatedIssue) {
     throw new Error("Failed to update issue");
   }
 
+  // Record every changed field in the issue's activity log
+  const changes: Array<{ field: string; oldValue: unknown; newValue: unknown }> = [];
+  if (issueTitle !== updatedIssue.title) {
+    changes.push({ field: "title", oldValue: issueTitle, newValue: updatedIssue.title });
+  }
+  if (previous.description !== updatedIssue.description) {
+    changes.push({ field: "description", oldValue: previous.description, newValue: updatedIssue.description });
+  }
+  if (oldStatus !== updatedIssue.status) {
+    changes.push({ field: "status", oldValue: oldStatus, newValue: updatedIssue.status });
+  }
+  if (oldPriority !== updatedIssue.priority) {
+    changes.push({ field: "priority", oldValue: oldPriority, newValue: updatedIssue.priority });
+  }
+  if (dueDateChanged) {
+    changes.push({ field: "dueDate", oldValue: previous.dueDate, newValue: updatedIssue.dueDate });
+  }
+  for (const field of ["originalEstimate", "remainingEstimate"] as const) {
+    if (previous[field] !== (updatedIssue[field] ?? null)) {
+      changes.push({ field, oldValue: previous[field], newValue: updatedIssue[field] ?? null });
+    }
+  }
+  const newAssigneeRef = toActivityRef(populatedIssue.assignee);
+  if ((previous.assignee?._id ?? null) !== (newAssigneeRef?._id ?? null)) {
+    changes.push({ field: "assignee", oldValue: previous.assignee, newValue: newAssigneeRef });
+  }
+  const newLabels = (populatedIssue.labels as any[]).filter(Boolean);
+  const newLabelIds = newLabels.map((label) => String(label._id));
+  if ([...previous.labelIds].sort().join(",") !== [...newLabelIds].sort().join(",")) {
+    const oldLabels = await Label.find({ _id: { $in: previous.labelIds } }).select("name");
+    const oldLabelsById = new Map(oldLabels.map((label) => [String(label._id), label]));
+    changes.push({
+      field: "labels",
+      oldValue: previous.labelIds.map((labelId) => toActivityRef(oldLabelsById.get(labelId)) || { _id: labelId, name: "Unknown" }),
+      newValue: newLabels.map(toActivityRef),
+    });
+  }
+  if (previous.projectId !== String(updatedIssue.project)) {
+    const oldProject = await Project.findById(previous.projectId).select("name");
+    changes.push({
+      field: "project",
+      oldValue: toActivityRef(oldProject) || { _id: previous.projectId, name: "Unknown" },
+      newValue: toActivityRef(populatedIssue.project),
+    });
+  }
+
+  await recordActivity(
+    changes.map((change) => ({
+      issueId: issueId,
+      actorId: userId,
+      type: ActivityType.FIELD_CHANGED,
+      ...change,
+    }))
+  );
+
+  // Post the comment that came with the update, the same way as any other comment
+  if (updateDto.comment && updateDto.comment.trim() && userId) {
+    await createComment({ content: updateDto.comment, issue: issueId }, userId, role);
+  }
+
   // Create notifications for changes
   const newAssigneeId = updatedIssue.assignee 
     ? (typeof updatedIssue.assignee === "object" && "_id" in updatedIssue.assignee 
@@ -300,77 +916,50 @@ export const updateIssue = async (id: string, updateDto: UpdateIssueDto, userId?
         : String(updatedIssue.assignee))
     : null;
 
+  // Everyone watching the issue hears about changes, except whoever made them
+  const watcherIds = await getWatcherRecipients(issueId, userId);
+
   // Notification for status change
   if (updateDto.status !== undefined && oldStatus !== updateDto.status) {
-    const recipients: (string | mongoose.Types.ObjectId)[] = [];
-    
-    // Notify assignee if exists
-    if (updatedIssue.assignee) {
-      recipients.push(updatedIssue.assignee._id);
-    }
-    
-    // Notify creator if different from assignee
-    if (updatedIssue.createdBy && String(updatedIssue.createdBy._id) !== String(updatedIssue.assignee?._id || "")) {
-      recipients.push(updatedIssue.createdBy._id);
-    }
-
-    for (const recipientId of recipients) {
-      await createNotification({
-        recipientId,
-        title: "Status Changed",
-        description: `${updaterName} has changed the status of issue "${issueTitle}" from ${oldStatus} to ${updateDto.status}`,
-        type: NotificationType.STATUS_CHANGED,
-        link: `/issues/${issueId}`,
-      });
-    }
+    await createNotificationsForUsers(watcherIds, {
+      title: "Status Changed",
+      description: `${updaterName} has changed the status of issue "${issueTitle}" from ${oldStatus} to ${updateDto.status}`,
+      type: NotificationType.STATUS_CHANGED,
+      link: getIssueLink(updatedIssue),
+    });
   }
 
   // Notification for priority change
   if (updateDto.priority !== undefined && oldPriority !== updateDto.priority) {
-    const recipients: (string | mongoose.Types.ObjectId)[] = [];
-    
-    // Notify assignee if exists
-    if (updatedIssue.assignee) {
-      recipients.push(updatedIssue.assignee._id);
-    }
-    
-    // Notify creator if different from assignee
-    if (updatedIssue.createdBy && String(updatedIssue.createdBy._id) !== String(updatedIssue.assignee?._id || "")) {
-      recipients.push(updatedIssue.createdBy._id);
-    }
-
-    for (const recipientId of recipients) {
-      await createNotification({
-        recipientId,
-        title: "Priority Changed",
-        description: `${updaterName} has changed the priority of issue "${issueTitle}" from ${oldPriority} to ${updateDto.priority}`,
-        type: NotificationType.PRIORITY_CHANGED,
-        link: `/issues/${issueId}`,
-      });
-    }
+    await createNotificationsForUsers(watcherIds, {
+      title: "Priority Changed",
+      description: `${updaterName} has changed the priority of issue "${issueTitle}" from ${oldPriority} to ${updateDto.priority}`,
+      type: NotificationType.PRIORITY_CHANGED,
+      link: getIssueLink(updatedIssue),
+    });
   }
 
   // Notification for assignment change
   if (updateDto.assignee !== undefined && oldAssignee !== newAssigneeId) {
     // Notify new assignee if assigned
-    if (newAssigneeId && newAssigneeId !== oldAssignee) {
+    if (newAssigneeId && newAssigneeId !== oldAssignee && watcherIds.includes(newAssigneeId)) {
       await createNotification({
         recipientId: newAssigneeId,
         title: "Issue Assigned",
         description: `${updaterName} has assigned you to issue: "${issueTitle}"`,
         type: NotificationType.ISSUE_ASSIGNED,
-        link: `/issues/${issueId}`,
+        link: getIssueLink(updatedIssue),
       });
     }
 
     // Notify old assignee if unassigned
-    if (oldAssignee && !newAssigneeId) {
+    if (oldAssignee && !newAssigneeId && watcherIds.includes(oldAssignee)) {
       await createNotification({
         recipientId: oldAssignee,
         title: "Issue Unassigned",
         description: `${updaterName} has unassigned you from issue: "${issueTitle}"`,
         type: NotificationType.ISSUE_UPDATED,
-        link: `/issues/${issueId}`,
+        link: getIssueLink(updatedIssue),
       });
     }
   }
@@ -382,58 +971,195 @@ export const updateIssue = async (id: string, updateDto: UpdateIssueDto, userId?
     updateDto.priority === undefined &&
     updateDto.assignee === undefined
   ) {
-    const recipients: (string | mongoose.Types.ObjectId)[] = [];
-    
-    // Notify assignee if exists
-    if (updatedIssue.assignee) {
-      recipients.push(updatedIssue.assignee._id);
-    }
-    
-    // Notify creator if different from assignee
-    if (updatedIssue.createdBy && String(updatedIssue.createdBy._id) !== String(updatedIssue.assignee?._id || "")) {
-      recipients.push(updatedIssue.createdBy._id);
-    }
+    await createNotificationsForUsers(watcherIds, {
+      title: "Issue Updated",
+      description: `${updaterName} has updated issue: "${issueTitle}"`,
+      type: NotificationType.ISSUE_UPDATED,
+      link: getIssueLink(updatedIssue),
+    });
+  }
 
-    for (const recipientId of recipients) {
-      await createNotification({
-        recipientId,
-        title: "Issue Updated",
-        description: `${updaterName} has updated issue: "${issueTitle}"`,
-        type: NotificationType.ISSUE_UPDATED,
-        link: `/issues/${issueId}`,
-      });
+  const result = {
+    ...formatIssue(populatedIssue),
+    relations: await getRelationsForIssue(updatedIssue._id as mongoose.Types.ObjectId, userId, role),
+  };
+
+  // Resolving an issue that is still blocked is allowed, but the client should warn about it
+  if (oldStatusCategory !== StatusCategory.DONE && updatedIssue.statusCategory === StatusCategory.DONE) {
+    const blockers = await getOpenBlockers(updatedIssue._id as mongoose.Types.ObjectId);
+    if (blockers.length > 0) {
+      return {
+        ...result,
+        warnings: [
+          `Issue is still blocked by open issues: ${blockers.map((blocker) => `"${blocker.title}"`).join(", ")}`,
+        ],
+      };
     }
   }
 
-  return formatIssue(populatedIssue);
+  return result;
+};
+
+// Helper to check that a user may archive or restore an issue
+const assertCanArchive = (issue: any, userId: string, role?: Role): void => {
+  if (String(issue.createdBy) !== userId && !hasPermission(role, Permission.ISSUES_ARCHIVE_ANY)) {
+    throw new Error("Only admins can archive or restore another person's issue");
+  }
+};
+
+/**
+ * Soft-delete an issue. Archived issues are hidden from lists and summaries
+ * but keep their comments and can be restored.
+ */
+export const archiveIssue = async (id: string, userId: string, role?: Role) => {
+  if (!isValidObjectId(id)) {
+    throw new Error("Invalid issue ID format");
+  }
+
+  const issue = await Issue.findById(id);
+  if (!issue) {
+    throw new Error("Issue not found");
+  }
+
+  await assertIssueAccess(issue, userId, role);
+  assertCanArchive(issue, userId, role);
+
+  if (issue.archivedAt) {
+    throw new Error("Issue is already archived");
+  }
+
+  issue.archivedAt = new Date();
+  issue.archivedBy = new mongoose.Types.ObjectId(userId);
+  await issue.save();
+
+  await recordActivity({ issueId: id, actorId: userId, type: ActivityType.ISSUE_ARCHIVED });
+
+  return getIssueById(id, userId, role);
 };
 
-export const getIssueSummary = async (assigneePage?: number, assigneeLimit?: number): Promise<IssueSummary> => {
-  // Get total count
-  const total = await Issue.countDocuments();
+/**
+ * Restore an archived issue
+ */
+export const restoreIssue = async (id: string, userId: string, role?: Role) => {
+  if (!isValidObjectId(id)) {
+    throw new Error("Invalid issue ID format");
+  }
+
+  const issue = await Issue.findById(id);
+  if (!issue) {
+    throw new Error("Issue not found");
+  }
+
+  await assertIssueAccess(issue, userId, role);
+  assertCanArchive(issue, userId, role);
+
+  if (!issue.archivedAt) {
+    throw new Error("Issue is not archived");
+  }
+
+  issue.archivedAt = null;
+  issue.archivedBy = null;
+  await issue.save();
+
+  await recordActivity({ issueId: id, actorId: userId, type: ActivityType.ISSUE_RESTORED });
+
+  return getIssueById(id, userId, role);
+};
+
+/**
+ * Permanently delete an archived issue together with its comments, attachments, work logs, notifications,
+ * activity log and relations
+ */
+export const purgeIssue = async (id: string): Promise<PurgeIssueResponse> => {
+  if (!isValidObjectId(id)) {
+    throw new Error("Invalid issue ID format");
+  }
+
+  const issue = await Issue.findById(id);
+  if (!issue) {
+    throw new Error("Issue not found");
+  }
+
+  // Purging is only a second step so a single click can never destroy an issue
+  if (!issue.archivedAt) {
+    throw new Error("Issue is not archived. Archive it before purging");
+  }
+
+  const [comments, notifications] = await Promise.all([
+    Comment.deleteMany({ issue: issue._id }),
+    Notification.deleteMany({
+      link: { $in: [id, issue.key, ...issue.previousKeys].filter(Boolean).map((value) => `/issues/${value}`) },
+    }),
+    IssueActivity.deleteMany({ issue: issue._id }),
+    IssueRelation.deleteMany({ $or: [{ source: issue._id }, { target: issue._id }] }),
+  ]);
+  const deletedAttachments = await deleteAttachmentsFor({ issue: issue._id });
+  const workLogs = await WorkLog.deleteMany({ issue: issue._id });
+  await Issue.deleteOne({ _id: issue._id });
+
+  return {
+    _id: id,
+    deletedComments: comments.deletedCount,
+    deletedNotifications: notifications.deletedCount,
+    deletedAttachments,
+    deletedWorkLogs: workLogs.deletedCount,
+  };
+};
+
+export const getIssueSummary = async (
+  userId: string,
+  role?: Role,
+  options: IssueSummaryOptions = {}
+): Promise<IssueSummary> => {
+  const match: any = options.includeArchived ? {} : { archivedAt: null };
+
+  const projectScope = await getProjectScope(userId, role, options.project);
+  if (projectScope) {
+    match.project = projectScope;
+  }
+
+  // Get total and overdue counts
+  const [total, overdue] = await Promise.all([
+    Issue.countDocuments(match),
+    Issue.countDocuments({ ...match, ...overdueCondition() }),
+  ]);
+
+  // Count by status. Every status of the workflows in scope is listed, in workflow order
+  const workflows = projectScope
+    ? await getWorkflowsForProjects(projectScope.$in || [projectScope])
+    : await getWorkflowsForProjects(null);
 
-  // Count by status
   const statusCounts = await Issue.aggregate([
+    { $match: match },
     {
       $group: {
-        _id: "$status",
+        _id: { status: "$status", category: "$statusCategory" },
         count: { $sum: 1 },
       },
     },
   ]);
 
-  const byStatus = {
-    [Status.OPEN]: 0,
-    [Status.IN_PROGRESS]: 0,
-    [Status.RESOLVED]: 0,
+  const byStatus: Record<string, number> = {};
+  workflows.forEach((workflow) => {
+    workflow.statuses.forEach((status) => {
+      byStatus[status.name] = 0;
+    });
+  });
+
+  const byStatusCategory = {
+    [StatusCategory.OPEN]: 0,
+    [StatusCategory.IN_PROGRESS]: 0,
+    [StatusCategory.DONE]: 0,
   };
 
   statusCounts.forEach((item) => {
-    byStatus[item._id as Status] = item.count;
+    byStatus[item._id.status] = (byStatus[item._id.status] || 0) + item.count;
+    byStatusCategory[item._id.category as StatusCategory] += item.count;
   });
 
   // Count by priority
   const priorityCounts = await Issue.aggregate([
+    { $match: match },
     {
       $group: {
         _id: "$priority",
@@ -454,6 +1180,7 @@ export const getIssueSummary = async (assigneePage?: number, assigneeLimit?: num
 
   // Count by assignee with pagination
   const assigneeCounts = await Issue.aggregate([
+    { $match: match },
     {
       $group: {
         _id: "$assignee",
@@ -466,8 +1193,8 @@ export const getIssueSummary = async (assigneePage?: number, assigneeLimit?: num
   const totalAssignees = assigneeCounts.length;
 
   // Apply pagination if provided
-  const page = assigneePage || 1;
-  const limit = assigneeLimit || 5;
+  const page = options.assigneePage || 1;
+  const limit = options.assigneeLimit || 5;
   const skip = (page - 1) * limit;
   const totalPages = Math.ceil(totalAssignees / limit);
 
@@ -497,10 +1224,44 @@ export const getIssueSummary = async (assigneePage?: number, assigneeLimit?: num
     })
   );
 
+  // Count by label. An issue with several labels counts once for each; issues
+  // without labels are grouped under "Unlabeled"
+  const labelCounts = await Issue.aggregate([
+    { $match: match },
+    { $unwind: { path: "$labels", preserveNullAndEmptyArrays: true } },
+    {
+      $group: {
+        _id: "$labels",
+        count: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const labels = await Label.find({ _id: { $in: labelCounts.map((item) => item._id).filter(Boolean) } });
+  const labelsById = new Map(labels.map((label) => [String(label._id), label]));
+
+  const byLabel = labelCounts
+    .map((item) => {
+      if (!item._id) {
+        return { labelId: null, name: "Unlabeled", color: null, count: item.count };
+      }
+      const label = labelsById.get(String(item._id));
+      return {
+        labelId: String(item._id),
+        name: label ? label.name : "Unknown",
+        color: label ? label.color : null,
+        count: item.count,
+      };
+    })
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+
   return {
     total,
+    overdue,
     byStatus,
+    byStatusCategory,
     byPriority,
+    byLabel,
     byAssignee: byAssignee as Array<{
       assigneeId: string | null;
       assigneeName: string | null;
@@ -517,7 +1278,11 @@ export const getIssueSummary = async (assigneePage?: number, assigneeLimit?: num
   };
 };
 
-export const getMentionedIssues = async (userId: string, filters?: Omit<IssueFilters, "assignee">) => {
+export const getMentionedIssues = async (
+  userId: string,
+  filters?: Omit<IssueFilters, "assignee">,
+  role?: Role
+) => {
   if (!isValidObjectId(userId)) {
     throw new Error("Invalid user ID format");
   }
@@ -527,49 +1292,32 @@ export const getMentionedIssues = async (userId: string, filters?: Omit<IssueFil
     mentions: new mongoose.Types.ObjectId(userId),
   }).distinct("issue");
 
-  if (commentsWithMentions.length === 0) {
-    return {
-      issues: [],
-      total: 0,
-      page: 1,
-      limit: 10,
-      totalPages: 0,
-    };
-  }
-
   const query: any = {
     _id: { $in: commentsWithMentions },
   };
 
+  const projectScope = await getProjectScope(userId, role, filters?.project);
+  if (projectScope) {
+    query.project = projectScope;
+  }
+
+  if (!filters?.includeArchived) {
+    query.archivedAt = null;
+  }
+
   if (filters?.status) {
     query.status = filters.status;
   }
 
-  if (filters?.priority) {
-    query.priority = filters.priority;
+  if (filters?.statusCategory) {
+    query.statusCategory = filters.statusCategory;
   }
 
-  // Pagination
-  const page = filters?.page || 1;
-  const limit = filters?.limit || 10;
-  const skip = (page - 1) * limit;
-
-  // Get total count for pagination
-  const total = await Issue.countDocuments(query);
+  applyDueDateFilters(query, filters);
 
-  // Fetch paginated issues
-  const issues = await Issue.find(query)
-    .populate("assignee", "name email profileImage")
-    .populate("createdBy", "name email profileImage")
-    .sort({ createdAt: -1 })
-    .skip(skip)
-    .limit(limit);
+  if (filters?.priority) {
+    query.priority = filters.priority;
+  }
 
-  return {
-    issues: issues.map(formatIssue),
-    total,
-    page,
-    limit,
-    totalPages: Math.ceil(total / limit),
-  };
+  return listIssues(query, filters);
 };
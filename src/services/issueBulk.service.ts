@@ -0,0 +1,353 @@
+import mongoose from "mongoose";
+import Issue, { Priority } from "../models/issue.model";
+import User, { Role } from "../models/user.model";
+import { ActivityType } from "../models/issueActivity.model";
+import { NotificationType } from "../models/notification.model";
+import { BulkIssueResult, BulkUpdateIssuesDto, BulkUpdateIssuesResponse, IssueFilters } from "../types/issue.types";
+import { WorkflowResponse } from "../types/workflow.types";
+import { isValidObjectId } from "../utils/validation";
+import { parseIssueFilters } from "../utils/issueFilters";
+import { createNotificationsForUsers, getIssueLink } from "../utils/notifications";
+import { Permission, hasPermission } from "../config/permissions";
+import { recordActivity, toActivityRef } from "./activity.service";
+import { findIssueIds } from "./issue.service";
+import { getAccessibleProjectIds, isProjectMember } from "./project.service";
+import { getWorkflowForProject, assertTransitionAllowed, findWorkflowStatus } from "./workflow.service";
+import { addWatchers, getWatcherRecipients } from "./watcher.service";
+import { createComment } from "./comment.service";
+
+export const MAX_BULK_ISSUES = 100;
+
+type NotificationParams = Parameters<typeof createNotificationsForUsers>[1];
+
+// What a recipient hears about: the issues they watch that changed, and which of them were (un)assigned to them
+interface RecipientSummary {
+  issues: Array<{ _id: string; key?: string; title: string }>;
+  assigned: number;
+  unassigned: number;
+}
+
+// Helper to validate the change set shared by every issue
+const validateChanges = async (changes: BulkUpdateIssuesDto["changes"]) => {
+  if (!changes || typeof changes !== "object" || Array.isArray(changes)) {
+    throw new Error("Invalid changes. Must be an object with status, priority and/or assignee");
+  }
+
+  const { status, priority, assignee, comment } = changes;
+  if (status === undefined && priority === undefined && assignee === undefined) {
+    throw new Error("At least one of status, priority or assignee must be provided");
+  }
+
+  if (status !== undefined && (typeof status !== "string" || !status.trim())) {
+    throw new Error("Invalid status. Must be a status name");
+  }
+
+  if (priority !== undefined && !Object.values(Priority).includes(priority)) {
+    throw new Error(`Invalid priority. Must be one of: ${Object.values(Priority).join(", ")}`);
+  }
+
+  if (comment !== undefined && comment !== null && typeof comment !== "string") {
+    throw new Error("Invalid comment. Must be a string");
+  }
+
+  let assigneeUser = null;
+  if (assignee !== undefined && assignee !== null) {
+    if (typeof assignee !== "string" || !isValidObjectId(assignee)) {
+      throw new Error("Invalid assignee ID format");
+    }
+    assigneeUser = await User.findById(assignee).select("name deactivatedAt");
+    if (!assigneeUser) {
+      throw new Error("Assignee user not found");
+    }
+    if (assigneeUser.deactivatedAt) {
+      throw new Error("Invalid assignee: user is deactivated");
+    }
+  }
+
+  return {
+    status: status?.trim(),
+    priority,
+    assignee: assignee === undefined ? undefined : assigneeUser,
+    comment: typeof comment === "string" && comment.trim() ? comment.trim() : undefined,
+  };
+};
+
+// Helper to find the issues a request selects, by ID or by list filters
+const selectIssueIds = async (dto: BulkUpdateIssuesDto, userId: string, role?: Role): Promise<string[]> => {
+  if ((dto.ids === undefined) === (dto.filter === undefined)) {
+    throw new Error("Either ids or filter is required");
+  }
+
+  if (dto.ids !== undefined) {
+    if (!Array.isArray(dto.ids) || dto.ids.length === 0) {
+      throw new Error("Invalid ids. Must be a non-empty array of issue IDs");
+    }
+    if (dto.ids.some((id) => typeof id !== "string" || !isValidObjectId(id))) {
+      throw new Error("Invalid issue ID format");
+    }
+    const ids = [...new Set(dto.ids)];
+    if (ids.length > MAX_BULK_ISSUES) {
+      throw new Error(`Invalid ids. At most ${MAX_BULK_ISSUES} issues can be updated at once`);
+    }
+    return ids;
+  }
+
+  const filters: IssueFilters = parseIssueFilters(dto.filter);
+  if (filters.assignee === "me") {
+    filters.assignee = userId;
+  }
+
+  const { ids, total } = await findIssueIds(filters, userId, role, MAX_BULK_ISSUES);
+  if (total > MAX_BULK_ISSUES) {
+    throw new Error(
+      `Invalid filter: it matches ${total} issues and at most ${MAX_BULK_ISSUES} can be updated at once`
+    );
+  }
+  return ids;
+};
+
+// Fields a bulk update can change, saved before the update so a failed batch can be rolled back
+const ROLLBACK_FIELDS = [
+  "status",
+  "statusCategory",
+  "priority",
+  "assignee",
+  "dueSoonNotifiedAt",
+  "overdueNotifiedAt",
+  "updatedAt",
+] as const;
+
+// Helper to undo the saved part of a failed batch. An issue someone else changed in the
+// meantime is left alone rather than overwriting their edit.
+const rollBackIssues = async (saved: Array<{ issue: any; previous: Record<string, unknown> }>): Promise<void> => {
+  for (const { issue, previous } of saved) {
+    const restored = await Issue.updateOne(
+      { _id: issue._id, __v: issue.__v },
+      { $set: previous, $inc: { __v: 1 } },
+      { timestamps: false }
+    );
+    if (restored.modifiedCount === 0) {
+      console.error(`Bulk update rollback skipped issue ${issue._id}: it changed in the meantime`);
+    }
+  }
+};
+
+// Helper to describe a change set for a notification, e.g. "status set to Done, assigned to Jane"
+const describeChanges = (changes: { status?: string; priority?: Priority; assignee?: any }): string => {
+  const parts: string[] = [];
+  if (changes.status !== undefined) parts.push(`status set to ${changes.status}`);
+  if (changes.priority !== undefined) parts.push(`priority set to ${changes.priority}`);
+  if (changes.assignee !== undefined) parts.push(changes.assignee ? `assigned to ${changes.assignee.name}` : "unassigned");
+  return parts.join(", ");
+};
+
+/**
+ * Apply one change set to many issues. Every issue is checked first, the same way a
+ * single update is (access, workflow transitions, assignee rules), and nothing is
+ * changed unless all of them pass. If an issue then fails to save (e.g. someone edited
+ * it in between), the issues already saved are rolled back and the failure is reported
+ * like a failed check. Instead of one notification per issue and change, each watcher
+ * gets a single notification summarizing the issues they watch.
+ */
+export const bulkUpdateIssues = async (
+  dto: BulkUpdateIssuesDto,
+  userId: string,
+  role?: Role
+): Promise<BulkUpdateIssuesResponse> => {
+  const changes = await validateChanges(dto.changes);
+  const ids = await selectIssueIds(dto, userId, role);
+
+  const issues = await Issue.find({ _id: { $in: ids } }).populate("assignee", "name");
+  const issuesById = new Map(issues.map((issue) => [String(issue._id), issue]));
+
+  const accessibleIds = await getAccessibleProjectIds(userId, role);
+  const accessibleProjects = accessibleIds ? new Set(accessibleIds.map(String)) : null;
+
+  // Projects usually repeat, so look up their workflows and memberships once
+  const workflows = new Map<string, WorkflowResponse>();
+  const assigneeMemberships = new Map<string, boolean>();
+  const newAssigneeId = changes.assignee ? String(changes.assignee._id) : null;
+
+  // Check every issue before changing any
+  const results: BulkIssueResult[] = [];
+  for (const id of ids) {
+    const issue = issuesById.get(id);
+    const projectId = issue ? String(issue.project) : "";
+    if (!issue || (accessibleProjects && !accessibleProjects.has(projectId))) {
+      results.push({ _id: id, title: "", changed: [], error: "Issue not found" });
+      continue;
+    }
+
+    const result: BulkIssueResult = { _id: id, title: issue.title, changed: [], error: null };
+    results.push(result);
+
+    try {
+      if (issue.archivedAt) {
+        throw new Error("Issue is archived. Restore it before updating it");
+      }
+
+      if (changes.status !== undefined && changes.status !== issue.status) {
+        if (!workflows.has(projectId)) {
+          workflows.set(projectId, await getWorkflowForProject(issue.project));
+        }
+        assertTransitionAllowed(workflows.get(projectId)!, issue.status, changes.status, changes.comment);
+        result.changed.push("status");
+      }
+
+      if (changes.priority !== undefined && changes.priority !== issue.priority) {
+        result.changed.push("priority");
+      }
+
+      const oldAssigneeId = issue.assignee ? String(issue.assignee._id) : null;
+      if (changes.assignee !== undefined && oldAssigneeId !== newAssigneeId) {
+        if (oldAssigneeId !== null && oldAssigneeId !== userId && !hasPermission(role, Permission.ISSUES_ASSIGN_ANY)) {
+          throw new Error("Only admins can change another person's assignee");
+        }
+        if (newAssigneeId) {
+          if (!assigneeMemberships.has(projectId)) {
+            assigneeMemberships.set(projectId, await isProjectMember(projectId, newAssigneeId));
+          }
+          if (!assigneeMemberships.get(projectId)) {
+            throw new Error("Invalid assignee: user is not a member of this project");
+          }
+        }
+        result.changed.push("assignee");
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : "Issue cannot be updated";
+      result.changed = [];
+    }
+  }
+
+  if (results.some((result) => result.error)) {
+    return { updated: 0, results };
+  }
+
+  const changedResults = results.filter((result) => result.changed.length > 0);
+
+  // Save every issue before any comments, activity or notifications, so a failed save can be undone
+  const saved: Array<{ result: BulkIssueResult; issue: any; previous: Record<string, unknown>; oldAssignee: any }> = [];
+  for (const result of changedResults) {
+    const issue = issuesById.get(result._id)!;
+    const oldAssignee = toActivityRef(issue.assignee);
+    const previous: Record<string, unknown> = {};
+    for (const field of ROLLBACK_FIELDS) {
+      previous[field] = field === "assignee" ? issue.assignee?._id ?? null : issue.get(field);
+    }
+
+    if (result.changed.includes("status")) {
+      const status = findWorkflowStatus(workflows.get(String(issue.project))!, changes.status!)!;
+      issue.status = status.name;
+      issue.statusCategory = status.category;
+    }
+    if (result.changed.includes("priority")) {
+      issue.priority = changes.priority!;
+    }
+    if (result.changed.includes("assignee")) {
+      issue.assignee = changes.assignee ? (changes.assignee._id as mongoose.Types.ObjectId) : null;
+      // A new assignee gets their own due soon / overdue reminders
+      issue.dueSoonNotifiedAt = null;
+      issue.overdueNotifiedAt = null;
+    }
+
+    try {
+      await issue.save();
+      saved.push({ result, issue, previous, oldAssignee });
+    } catch (error) {
+      result.error =
+        error instanceof mongoose.Error.VersionError
+          ? "Issue was changed by someone else during the update"
+          : error instanceof Error
+            ? error.message
+            : "Issue cannot be updated";
+      await rollBackIssues(saved);
+      for (const item of results) {
+        item.changed = [];
+      }
+      return { updated: 0, results };
+    }
+  }
+
+  const actor = await User.findById(userId).select("name");
+  const actorName = actor ? actor.name : "Someone";
+  const summaries = new Map<string, RecipientSummary>();
+
+  for (const { result, issue, previous, oldAssignee } of saved) {
+    const activity: Array<{ field: string; oldValue: unknown; newValue: unknown }> = [];
+    if (result.changed.includes("status")) {
+      activity.push({ field: "status", oldValue: previous.status, newValue: issue.status });
+    }
+    if (result.changed.includes("priority")) {
+      activity.push({ field: "priority", oldValue: previous.priority, newValue: issue.priority });
+    }
+    if (result.changed.includes("assignee")) {
+      activity.push({ field: "assignee", oldValue: oldAssignee, newValue: toActivityRef(changes.assignee) });
+    }
+    await recordActivity(
+      activity.map((change) => ({
+        issueId: result._id,
+        actorId: userId,
+        type: ActivityType.FIELD_CHANGED,
+        ...change,
+      }))
+    );
+
+    // Watchers hear about the comment in the summary below
+    if (changes.comment) {
+      await createComment({ content: changes.comment, issue: result._id }, userId, role, { notifyWatchers: false });
+    }
+
+    // New assignees start watching (createComment already subscribed whoever commented)
+    if (result.changed.includes("assignee")) {
+      await addWatchers(result._id, [newAssigneeId]);
+    }
+
+    const assigneeChanged = result.changed.includes("assignee");
+    for (const recipientId of await getWatcherRecipients(result._id, userId)) {
+      const summary = summaries.get(recipientId) || { issues: [], assigned: 0, unassigned: 0 };
+      summary.issues.push({ _id: result._id, key: issue.key, title: issue.title });
+      if (assigneeChanged && recipientId === newAssigneeId) {
+        summary.assigned++;
+      }
+      if (assigneeChanged && recipientId === oldAssignee?._id) {
+        summary.unassigned++;
+      }
+      summaries.set(recipientId, summary);
+    }
+  }
+
+  // One notification per person; people with the same summary share a single insert
+  const notifications = new Map<string, { recipientIds: string[]; params: NotificationParams }>();
+  for (const [recipientId, summary] of summaries) {
+    const single = summary.issues.length === 1;
+    const sentences = [
+      single
+        ? `${actorName} has updated issue "${summary.issues[0].title}": ${describeChanges(changes)}`
+        : `${actorName} has updated ${summary.issues.length} issues you watch: ${describeChanges(changes)}`,
+    ];
+    if (summary.assigned > 0 && !single) {
+      sentences.push(`${summary.assigned} of them are now assigned to you`);
+    }
+    if (summary.unassigned > 0) {
+      sentences.push(single ? "You are no longer assigned to it" : `You were unassigned from ${summary.unassigned} of them`);
+    }
+
+    const params: NotificationParams = {
+      title: single ? "Issue Updated" : "Issues Updated",
+      description: sentences.join(". "),
+      type: summary.assigned > 0 ? NotificationType.ISSUE_ASSIGNED : NotificationType.ISSUE_UPDATED,
+      link: single ? getIssueLink(summary.issues[0]) : "/issues",
+    };
+
+    const key = JSON.stringify(params);
+    const group = notifications.get(key) || { recipientIds: [], params };
+    group.recipientIds.push(recipientId);
+    notifications.set(key, group);
+  }
+
+  for (const { recipientIds, params } of notifications.values()) {
+    await createNotificationsForUsers(recipientIds, params);
+  }
+
+  return { updated: changedResults.length, results };
+};
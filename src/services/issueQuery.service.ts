@@ -0,0 +1,300 @@
+import mongoose from "mongoose";
+import { Priority, PRIORITY_RANK, StatusCategory } from "../models/issue.model";
+import User, { Role } from "../models/user.model";
+import Label from "../models/label.model";
+import Project from "../models/project.model";
+import { QueryOperator, QueryTerm, QueryValue } from "../types/query.types";
+import { parseQuery, queryError } from "../utils/queryParser";
+import { isValidObjectId, parseDate } from "../utils/validation";
+import { getAccessibleProjectIds } from "./project.service";
+
+type Condition = Record<string, unknown>;
+
+interface CompileContext {
+  userId: string;
+  role?: Role;
+  includeArchived: boolean;
+}
+
+export interface CompiledIssueQuery {
+  conditions: Condition[]; // ANDed with the rest of the issue query
+  text: string; // free-text part, in MongoDB $text syntax
+  includeArchived: boolean; // the query asks for archived issues (is:archived)
+}
+
+const nameCollation = { locale: "en", strength: 2 };
+
+const fieldAliases: Record<string, string> = {
+  category: "statuscategory",
+  reporter: "creator",
+  labels: "label",
+};
+
+const isValues = ["overdue", "archived", "watching"];
+
+const comparisonOperators: Record<QueryOperator, string> = {
+  [QueryOperator.EQUALS]: "$eq",
+  [QueryOperator.GREATER_THAN]: "$gt",
+  [QueryOperator.GREATER_THAN_OR_EQUAL]: "$gte",
+  [QueryOperator.LESS_THAN]: "$lt",
+  [QueryOperator.LESS_THAN_OR_EQUAL]: "$lte",
+};
+
+// Helper to match issues that are past due and not done
+export const overdueCondition = (now: Date = new Date()) => ({
+  dueDate: { $lt: now },
+  statusCategory: { $ne: StatusCategory.DONE },
+});
+
+// Helper to reject comparisons on fields that only support equality
+const requireEquals = (term: QueryTerm): void => {
+  if (term.operator !== QueryOperator.EQUALS) {
+    throw queryError(term.values[0].position, `"${term.field}" does not support "${term.operator}"`);
+  }
+};
+
+// Helper to match one of several values of a field the way the list filters do
+const matchValues = (field: string, values: unknown[]): Condition => {
+  return values.length === 1 ? { [field]: values[0] } : { [field]: { $in: values } };
+};
+
+// Helper to combine alternatives from a comma-separated list
+const anyOf = (conditions: Condition[]): Condition => {
+  return conditions.length === 1 ? conditions[0] : { $or: conditions };
+};
+
+// Helper to resolve "me", "none", a user ID or an email to a user ID (null for none)
+const resolveUser = async (
+  value: QueryValue,
+  context: CompileContext,
+  allowNone: boolean
+): Promise<mongoose.Types.ObjectId | null> => {
+  const text = value.text.toLowerCase();
+
+  if (text === "me") {
+    return new mongoose.Types.ObjectId(context.userId);
+  }
+  if (allowNone && (text === "none" || text === "unassigned")) {
+    return null;
+  }
+  if (isValidObjectId(value.text)) {
+    return new mongoose.Types.ObjectId(value.text);
+  }
+  if (text.includes("@")) {
+    const user = await User.findOne({ email: text }).select("_id");
+    if (!user) {
+      throw queryError(value.position, `no user with email "${value.text}"`);
+    }
+    return user._id as mongoose.Types.ObjectId;
+  }
+
+  throw queryError(value.position, `expected "me",${allowNone ? ' "none",' : ""} a user ID or an email`);
+};
+
+// Helper to build a date range condition. A plain date covers that whole day (UTC).
+const compileDate = (field: string, term: QueryTerm): Condition => {
+  const conditions = term.values.map((value) => {
+    if (field === "dueDate" && value.text.toLowerCase() === "none") {
+      requireEquals(term);
+      return { dueDate: null };
+    }
+
+    const start = parseDate(value.text);
+    const end = parseDate(value.text, true);
+    if (!start || !end) {
+      throw queryError(value.position, `invalid date "${value.text}". Use an ISO 8601 date such as 2026-01-01 or a date-time`);
+    }
+
+    switch (term.operator) {
+      case QueryOperator.GREATER_THAN:
+        return { [field]: { $gt: end } };
+      case QueryOperator.GREATER_THAN_OR_EQUAL:
+        return { [field]: { $gte: start } };
+      case QueryOperator.LESS_THAN:
+        return { [field]: { $lt: start } };
+      case QueryOperator.LESS_THAN_OR_EQUAL:
+        return { [field]: { $lte: end } };
+      default:
+        return { [field]: { $gte: start, $lte: end } };
+    }
+  });
+
+  return anyOf(conditions);
+};
+
+// How each field's values become conditions. Every handler sees the term without its negation.
+const fieldCompilers: Record<string, (term: QueryTerm, context: CompileContext) => Promise<Condition> | Condition> = {
+  status: (term) => {
+    requireEquals(term);
+    return matchValues("status", term.values.map((value) => value.text));
+  },
+
+  statuscategory: (term) => {
+    requireEquals(term);
+    const categories = term.values.map((value) => {
+      const category = Object.values(StatusCategory).find((item) => item === value.text.toLowerCase());
+      if (!category) {
+        throw queryError(
+          value.position,
+          `unknown status category "${value.text}". Use one of: ${Object.values(StatusCategory).join(", ")}`
+        );
+      }
+      return category;
+    });
+    return matchValues("statusCategory", categories);
+  },
+
+  // Comparisons use the severity rank, so priority:>=Medium means Medium or High
+  priority: (term) => {
+    const priorities = term.values.map((value) => {
+      const priority = Object.values(Priority).find((item) => item.toLowerCase() === value.text.toLowerCase());
+      if (!priority) {
+        throw queryError(
+          value.position,
+          `unknown priority "${value.text}". Use one of: ${Object.values(Priority).join(", ")}`
+        );
+      }
+      return priority;
+    });
+
+    if (term.operator === QueryOperator.EQUALS) {
+      return matchValues("priority", priorities);
+    }
+    return { priorityRank: { [comparisonOperators[term.operator]]: PRIORITY_RANK[priorities[0]] } };
+  },
+
+  assignee: async (term, context) => {
+    requireEquals(term);
+    const assignees = [];
+    for (const value of term.values) {
+      assignees.push(await resolveUser(value, context, true));
+    }
+    return matchValues("assignee", assignees);
+  },
+
+  creator: async (term, context) => {
+    requireEquals(term);
+    const creators = [];
+    for (const value of term.values) {
+      creators.push(await resolveUser(value, context, false));
+    }
+    return matchValues("createdBy", creators);
+  },
+
+  label: async (term) => {
+    requireEquals(term);
+    const conditions: Condition[] = [];
+    const labelIds: mongoose.Types.ObjectId[] = [];
+
+    for (const value of term.values) {
+      if (!value.quoted && value.text.toLowerCase() === "none") {
+        conditions.push({ labels: { $size: 0 } });
+        continue;
+      }
+
+      const label = isValidObjectId(value.text)
+        ? await Label.findById(value.text).select("_id")
+        : await Label.findOne({ name: value.text }).collation(nameCollation).select("_id");
+      if (!label) {
+        throw queryError(value.position, `unknown label "${value.text}"`);
+      }
+      labelIds.push(label._id as mongoose.Types.ObjectId);
+    }
+
+    if (labelIds.length > 0) {
+      conditions.unshift({ labels: { $in: labelIds } });
+    }
+    return anyOf(conditions);
+  },
+
+  project: async (term, context) => {
+    requireEquals(term);
+    const accessibleIds = await getAccessibleProjectIds(context.userId, context.role);
+
+    const projectIds = [];
+    for (const value of term.values) {
+      const project = isValidObjectId(value.text)
+        ? await Project.findById(value.text).select("_id")
+        : await Project.findOne({ name: value.text }).collation(nameCollation).select("_id");
+
+      // Projects the user cannot see are reported like missing ones
+      if (!project || (accessibleIds && !accessibleIds.some((id) => String(id) === String(project._id)))) {
+        throw queryError(value.position, `unknown project "${value.text}"`);
+      }
+      projectIds.push(project._id);
+    }
+    return matchValues("project", projectIds);
+  },
+
+  created: (term) => compileDate("createdAt", term),
+
+  updated: (term) => compileDate("updatedAt", term),
+
+  due: (term) => compileDate("dueDate", term),
+
+  is: (term, context) => {
+    requireEquals(term);
+    const conditions = term.values.map((value) => {
+      switch (value.text.toLowerCase()) {
+        case "overdue":
+          return overdueCondition();
+        case "archived":
+          if (!term.negated) {
+            context.includeArchived = true;
+          }
+          return { archivedAt: { $ne: null } };
+        case "watching":
+          return { watchers: new mongoose.Types.ObjectId(context.userId) };
+        default:
+          throw queryError(value.position, `unknown value "${value.text}" for "is". Use one of: ${isValues.join(", ")}`);
+      }
+    });
+    return anyOf(conditions);
+  },
+};
+
+/**
+ * Compile a search query (see parseQuery) into MongoDB conditions for issues visible to
+ * the user. Filters compile to the same conditions as the equivalent list filters, and
+ * free text is returned separately so it can be searched like `q`. Values are resolved
+ * up front, so unknown labels, projects or users are reported with their position.
+ */
+export const compileIssueQuery = async (query: string, userId: string, role?: Role): Promise<CompiledIssueQuery> => {
+  const terms = parseQuery(query);
+  const context: CompileContext = { userId, role, includeArchived: false };
+  const conditions: Condition[] = [];
+  const textTerms: QueryTerm[] = [];
+
+  for (const term of terms) {
+    if (term.field === null) {
+      textTerms.push(term);
+      continue;
+    }
+
+    const field = fieldAliases[term.field] || term.field;
+    const compile = fieldCompilers[field];
+    if (!compile) {
+      throw queryError(
+        term.position + (term.negated ? 1 : 0),
+        `unknown field "${term.field}". Use one of: ${Object.keys(fieldCompilers).join(", ")}`
+      );
+    }
+
+    const condition = await compile({ ...term, field }, context);
+    conditions.push(term.negated ? { $nor: [condition] } : condition);
+  }
+
+  // MongoDB text search needs at least one term to look for
+  if (textTerms.length > 0 && textTerms.every((term) => term.negated)) {
+    throw queryError(textTerms[0].position, "free text needs at least one word or phrase that is not negated");
+  }
+
+  const text = textTerms
+    .map((term) => {
+      const value = term.values[0];
+      return `${term.negated ? "-" : ""}${value.quoted ? `"${value.text}"` : value.text}`;
+    })
+    .join(" ");
+
+  return { conditions, text, includeArchived: context.includeArchived };
+};
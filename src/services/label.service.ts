@@ -0,0 +1,170 @@
+import mongoose from "mongoose";
+import Label, { DEFAULT_LABEL_COLOR } from "../models/label.model";
+import Issue from "../models/issue.model";
+import { CreateLabelDto, UpdateLabelDto, LabelResponse } from "../types/label.types";
+import { isValidObjectId } from "../utils/validation";
+
+const MAX_LABEL_NAME_LENGTH = 50;
+const nameCollation = { locale: "en", strength: 2 };
+const colorRegex = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+// Helper to format label response
+const formatLabel = (label: any, issueCount?: number): LabelResponse => {
+  return {
+    _id: String(label._id),
+    name: label.name,
+    color: label.color,
+    description: label.description,
+    ...(issueCount !== undefined && { issueCount }),
+    createdAt: label.createdAt,
+    updatedAt: label.updatedAt,
+  };
+};
+
+// Helper to validate a label name and make sure no other label already uses it
+const validateName = async (name: string, excludeId?: string): Promise<string> => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Label name is required");
+  }
+  if (trimmed.length > MAX_LABEL_NAME_LENGTH) {
+    throw new Error(`Invalid label name. Must be at most ${MAX_LABEL_NAME_LENGTH} characters`);
+  }
+
+  const existing = await Label.findOne({
+    name: trimmed,
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  }).collation(nameCollation);
+  if (existing) {
+    throw new Error("A label with this name already exists");
+  }
+
+  return trimmed;
+};
+
+// Helper to validate and normalize a hex color to lowercase #rrggbb
+const normalizeColor = (color: string): string => {
+  if (!colorRegex.test(color)) {
+    throw new Error("Invalid color. Must be a hex color such as #d73a4a");
+  }
+  const hex = color.substring(1).toLowerCase();
+  return hex.length === 3 ? `#${hex.split("").map((char) => char + char).join("")}` : `#${hex}`;
+};
+
+/**
+ * Validate a list of label IDs from an issue create/update request and return them
+ * as unique ObjectIds
+ */
+export const resolveLabelIds = async (labelIds: string[]): Promise<mongoose.Types.ObjectId[]> => {
+  if (!Array.isArray(labelIds)) {
+    throw new Error("Invalid labels. Must be an array of label IDs");
+  }
+
+  const uniqueIds = [...new Set(labelIds.map(String))];
+  if (uniqueIds.some((id) => !isValidObjectId(id))) {
+    throw new Error("Invalid label ID format");
+  }
+
+  const found = await Label.countDocuments({ _id: { $in: uniqueIds } });
+  if (found !== uniqueIds.length) {
+    throw new Error("Label not found");
+  }
+
+  return uniqueIds.map((id) => new mongoose.Types.ObjectId(id));
+};
+
+/**
+ * List all labels alphabetically with the number of issues using each
+ */
+export const getLabels = async (): Promise<LabelResponse[]> => {
+  const [labels, counts] = await Promise.all([
+    Label.find().collation(nameCollation).sort({ name: 1 }),
+    Issue.aggregate([
+      { $match: { archivedAt: null } },
+      { $unwind: "$labels" },
+      { $group: { _id: "$labels", count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const countById = new Map(counts.map((item) => [String(item._id), item.count as number]));
+  return labels.map((label) => formatLabel(label, countById.get(String(label._id)) || 0));
+};
+
+export const getLabelById = async (labelId: string): Promise<LabelResponse> => {
+  if (!isValidObjectId(labelId)) {
+    throw new Error("Invalid label ID format");
+  }
+
+  const label = await Label.findById(labelId);
+  if (!label) {
+    throw new Error("Label not found");
+  }
+
+  const issueCount = await Issue.countDocuments({ labels: label._id, archivedAt: null });
+  return formatLabel(label, issueCount);
+};
+
+export const createLabel = async (createDto: CreateLabelDto, userId: string): Promise<LabelResponse> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  const name = await validateName(createDto.name || "");
+
+  const label = await Label.create({
+    name,
+    color: createDto.color !== undefined ? normalizeColor(createDto.color) : DEFAULT_LABEL_COLOR,
+    description: createDto.description ? createDto.description.trim() : "",
+    createdBy: new mongoose.Types.ObjectId(userId),
+  });
+
+  return formatLabel(label, 0);
+};
+
+export const updateLabel = async (labelId: string, updateDto: UpdateLabelDto): Promise<LabelResponse> => {
+  if (!isValidObjectId(labelId)) {
+    throw new Error("Invalid label ID format");
+  }
+
+  const label = await Label.findById(labelId);
+  if (!label) {
+    throw new Error("Label not found");
+  }
+
+  if (updateDto.name !== undefined) {
+    label.name = await validateName(updateDto.name, labelId);
+  }
+  if (updateDto.color !== undefined) {
+    label.color = normalizeColor(updateDto.color);
+  }
+  if (updateDto.description !== undefined) {
+    label.description = updateDto.description ? updateDto.description.trim() : "";
+  }
+
+  await label.save();
+
+  return getLabelById(labelId);
+};
+
+/**
+ * Delete a label and remove it from every issue that has it
+ */
+export const deleteLabel = async (labelId: string): Promise<{ _id: string; removedFromIssues: number }> => {
+  if (!isValidObjectId(labelId)) {
+    throw new Error("Invalid label ID format");
+  }
+
+  const label = await Label.findById(labelId);
+  if (!label) {
+    throw new Error("Label not found");
+  }
+
+  // Bump the version so edits based on the old labels are detected
+  const result = await Issue.updateMany({ labels: label._id }, { $pull: { labels: label._id }, $inc: { __v: 1 } });
+  await Label.deleteOne({ _id: label._id });
+
+  return {
+    _id: labelId,
+    removedFromIssues: result.modifiedCount,
+  };
+};
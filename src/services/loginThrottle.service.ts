@@ -0,0 +1,166 @@
+import LoginThrottle from "../models/loginThrottle.model";
+import { SecurityEventType } from "../models/securityEvent.model";
+import { ThrottleStatus } from "../types/securityEvent.types";
+import { recordSecurityEvent } from "./securityEvent.service";
+import { readPositiveInt } from "../utils/env";
+
+const MAX_ATTEMPTS_PER_ACCOUNT = readPositiveInt("LOGIN_MAX_ATTEMPTS_PER_ACCOUNT", 5);
+const MAX_ATTEMPTS_PER_IP = readPositiveInt("LOGIN_MAX_ATTEMPTS_PER_IP", 20);
+const ATTEMPT_WINDOW_MINUTES = readPositiveInt("LOGIN_ATTEMPT_WINDOW_MINUTES", 15);
+const LOCKOUT_MINUTES = readPositiveInt("LOGIN_LOCKOUT_MINUTES", 15);
+
+const accountKey = (email: string): string => `account:${email.toLowerCase().trim()}`;
+const ipKey = (ip: string): string => `ip:${ip}`;
+
+// Magic link requests are counted separately so they cannot lock out password logins
+const magicLinkAccountKey = (email: string): string => `magic-link:${accountKey(email)}`;
+const magicLinkIpKey = (ip: string): string => `magic-link:${ipKey(ip)}`;
+
+// Helper to get remaining lockout for a key, in seconds (0 when not locked)
+const getLockSeconds = async (key: string): Promise<number> => {
+  const throttle = await LoginThrottle.findOne({ key }).select("lockedUntil");
+  if (!throttle || !throttle.lockedUntil) {
+    return 0;
+  }
+  const remaining = throttle.lockedUntil.getTime() - Date.now();
+  return remaining > 0 ? Math.ceil(remaining / 1000) : 0;
+};
+
+/**
+ * Check whether login attempts from this IP or for this email are locked out.
+ * Unknown emails are throttled exactly like real ones so lockouts do not reveal
+ * which accounts exist.
+ */
+export const getLoginThrottleStatus = async (email: string, ip?: string): Promise<ThrottleStatus> => {
+  const [accountSeconds, ipSeconds] = await Promise.all([
+    getLockSeconds(accountKey(email)),
+    ip ? getLockSeconds(ipKey(ip)) : Promise.resolve(0),
+  ]);
+
+  const retryAfterSeconds = Math.max(accountSeconds, ipSeconds);
+  return { locked: retryAfterSeconds > 0, retryAfterSeconds };
+};
+
+/**
+ * Check whether magic link requests from this IP or for this email are locked out
+ */
+export const getMagicLinkThrottleStatus = async (email: string, ip?: string): Promise<ThrottleStatus> => {
+  const [accountSeconds, ipSeconds] = await Promise.all([
+    getLockSeconds(magicLinkAccountKey(email)),
+    ip ? getLockSeconds(magicLinkIpKey(ip)) : Promise.resolve(0),
+  ]);
+
+  const retryAfterSeconds = Math.max(accountSeconds, ipSeconds);
+  return { locked: retryAfterSeconds > 0, retryAfterSeconds };
+};
+
+// Helper to count a failure for a key and lock it once the limit is reached.
+// Returns true when this failure triggered a new lockout.
+const registerFailure = async (key: string, maxAttempts: number): Promise<boolean> => {
+  const now = new Date();
+  const windowCutoff = new Date(now.getTime() - ATTEMPT_WINDOW_MINUTES * 60 * 1000);
+  const expiresAt = new Date(now.getTime() + Math.max(ATTEMPT_WINDOW_MINUTES, LOCKOUT_MINUTES) * 60 * 1000);
+
+  // Start a fresh window when the previous one has passed and the key is not locked
+  await LoginThrottle.updateOne(
+    {
+      key,
+      windowStart: { $lt: windowCutoff },
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+    },
+    { failures: 0, windowStart: now, lockedUntil: null }
+  );
+
+  const throttle = await LoginThrottle.findOneAndUpdate(
+    { key },
+    {
+      $inc: { failures: 1 },
+      $setOnInsert: { windowStart: now, lockedUntil: null },
+      $set: { expiresAt },
+    },
+    { new: true, upsert: true }
+  );
+
+  if (throttle.failures >= maxAttempts && (!throttle.lockedUntil || throttle.lockedUntil <= now)) {
+    const lockedUntil = new Date(now.getTime() + LOCKOUT_MINUTES * 60 * 1000);
+    await LoginThrottle.updateOne(
+      { key },
+      {
+        lockedUntil,
+        failures: 0,
+        windowStart: now,
+        expiresAt: new Date(lockedUntil.getTime() + ATTEMPT_WINDOW_MINUTES * 60 * 1000),
+      }
+    );
+    return true;
+  }
+
+  return false;
+};
+
+/**
+ * Count a failed login for both the account and the IP address
+ */
+export const recordLoginFailure = async (email: string, ip?: string, userAgent?: string): Promise<void> => {
+  const accountLocked = await registerFailure(accountKey(email), MAX_ATTEMPTS_PER_ACCOUNT);
+  if (accountLocked) {
+    await recordSecurityEvent({
+      type: SecurityEventType.ACCOUNT_LOCKED,
+      email,
+      ip,
+      userAgent,
+      details: { lockoutMinutes: LOCKOUT_MINUTES },
+    });
+  }
+
+  if (ip) {
+    const ipLocked = await registerFailure(ipKey(ip), MAX_ATTEMPTS_PER_IP);
+    if (ipLocked) {
+      await recordSecurityEvent({
+        type: SecurityEventType.IP_LOCKED,
+        email,
+        ip,
+        userAgent,
+        details: { lockoutMinutes: LOCKOUT_MINUTES },
+      });
+    }
+  }
+};
+
+/**
+ * Count a magic link request for both the account and the IP address. Every
+ * request counts, since each one sends an email.
+ */
+export const recordMagicLinkRequest = async (email: string, ip?: string, userAgent?: string): Promise<void> => {
+  const accountLocked = await registerFailure(magicLinkAccountKey(email), MAX_ATTEMPTS_PER_ACCOUNT);
+  if (accountLocked) {
+    await recordSecurityEvent({
+      type: SecurityEventType.ACCOUNT_LOCKED,
+      email,
+      ip,
+      userAgent,
+      details: { lockoutMinutes: LOCKOUT_MINUTES, method: "magic_link" },
+    });
+  }
+
+  if (ip) {
+    const ipLocked = await registerFailure(magicLinkIpKey(ip), MAX_ATTEMPTS_PER_IP);
+    if (ipLocked) {
+      await recordSecurityEvent({
+        type: SecurityEventType.IP_LOCKED,
+        email,
+        ip,
+        userAgent,
+        details: { lockoutMinutes: LOCKOUT_MINUTES, method: "magic_link" },
+      });
+    }
+  }
+};
+
+/**
+ * Reset the account counter after a successful login. The IP counter is left
+ * alone so one valid account cannot be used to reset throttling for an IP.
+ */
+export const clearLoginFailures = async (email: string): Promise<void> => {
+  await LoginThrottle.deleteOne({ key: accountKey(email) });
+};
@@ -0,0 +1,302 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import User, { Role } from "../models/user.model";
+import OidcLoginState from "../models/oidcLoginState.model";
+import {
+  OidcConfig,
+  OidcDiscoveryDocument,
+  OidcIdTokenClaims,
+  OidcAuthorizationRequest,
+} from "../types/oidc.types";
+import { UserResponse } from "../types/user.types";
+import { generateRandomToken } from "../utils/password";
+import { formatUser } from "./auth.service";
+
+const LOGIN_STATE_EXPIRES_MINUTES = 10;
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+const SUPPORTED_ALGORITHMS: jwt.Algorithm[] = ["RS256", "RS384", "RS512", "ES256", "ES384", "ES512", "PS256"];
+
+let discoveryCache: { document: OidcDiscoveryDocument; fetchedAt: number } | null = null;
+let jwksCache: { keys: Array<Record<string, any>>; fetchedAt: number } | null = null;
+
+/**
+ * Read the OIDC provider settings from the environment, or null when SSO is not configured
+ */
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  const redirectUri = process.env.OIDC_REDIRECT_URI;
+
+  if (!issuer || !clientId || !redirectUri) {
+    return null;
+  }
+
+  return {
+    providerName: process.env.OIDC_PROVIDER_NAME || "SSO",
+    issuer: issuer.replace(/\/+$/, ""),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri,
+    scopes: process.env.OIDC_SCOPES || "openid email profile",
+    jitProvisioning: process.env.OIDC_JIT_PROVISIONING !== "false",
+    trustUnverifiedEmail: process.env.OIDC_TRUST_UNVERIFIED_EMAIL === "true",
+    allowedDomains: (process.env.OIDC_ALLOWED_DOMAINS || "")
+      .split(",")
+      .map((domain) => domain.trim().toLowerCase())
+      .filter(Boolean),
+  };
+};
+
+// Helper to require SSO configuration
+const requireOidcConfig = (): OidcConfig => {
+  const config = getOidcConfig();
+  if (!config) {
+    throw new Error("SSO is not configured");
+  }
+  return config;
+};
+
+// Helper to fetch JSON from the identity provider
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    const description = body && (body.error_description || body.error);
+    throw new Error(`Identity provider request failed (${response.status})${description ? `: ${description}` : ""}`);
+  }
+  return body as T;
+};
+
+/**
+ * Fetch (and cache) the provider's discovery document
+ */
+const getDiscoveryDocument = async (config: OidcConfig): Promise<OidcDiscoveryDocument> => {
+  if (discoveryCache && Date.now() - discoveryCache.fetchedAt < DISCOVERY_CACHE_MS) {
+    return discoveryCache.document;
+  }
+
+  const document = await fetchJson<OidcDiscoveryDocument>(`${config.issuer}/.well-known/openid-configuration`);
+
+  if (document.issuer.replace(/\/+$/, "") !== config.issuer) {
+    throw new Error("Identity provider issuer does not match OIDC_ISSUER");
+  }
+
+  discoveryCache = { document, fetchedAt: Date.now() };
+  return document;
+};
+
+/**
+ * Find the signing key for an ID token, refetching the JWKS once if the key ID is unknown
+ * (providers rotate keys)
+ */
+const getSigningKey = async (jwksUri: string, kid?: string): Promise<crypto.KeyObject> => {
+  const findKey = () =>
+    jwksCache?.keys.find((key) => (kid ? key.kid === kid : true) && (!key.use || key.use === "sig"));
+
+  let jwk = jwksCache && Date.now() - jwksCache.fetchedAt < DISCOVERY_CACHE_MS ? findKey() : undefined;
+
+  if (!jwk) {
+    const jwks = await fetchJson<{ keys: Array<Record<string, any>> }>(jwksUri);
+    jwksCache = { keys: jwks.keys || [], fetchedAt: Date.now() };
+    jwk = findKey();
+  }
+
+  if (!jwk) {
+    throw new Error("ID token signing key not found");
+  }
+
+  return crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: "jwk" });
+};
+
+// Helper to only allow redirects back to paths on our own frontend
+const sanitizeRedirect = (redirectTo?: string): string => {
+  if (!redirectTo || !redirectTo.startsWith("/") || redirectTo.startsWith("//") || redirectTo.includes("\\")) {
+    return "/";
+  }
+  return redirectTo;
+};
+
+/**
+ * Start the authorization-code flow: store state, nonce and PKCE verifier and
+ * build the provider's authorization URL
+ */
+export const createAuthorizationRequest = async (
+  redirectTo?: string,
+  loginHint?: string
+): Promise<OidcAuthorizationRequest> => {
+  const config = requireOidcConfig();
+  const discovery = await getDiscoveryDocument(config);
+
+  const state = generateRandomToken();
+  const nonce = generateRandomToken();
+  const codeVerifier = generateRandomToken(48);
+  const codeChallenge = crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+
+  await OidcLoginState.create({
+    state,
+    nonce,
+    codeVerifier,
+    redirectTo: sanitizeRedirect(redirectTo),
+    expiresAt: new Date(Date.now() + LOGIN_STATE_EXPIRES_MINUTES * 60 * 1000),
+  });
+
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: "S256",
+    // Pre-fills the account at the provider; it decides who signs in, so this is only a hint
+    ...(loginHint && { login_hint: loginHint }),
+  });
+
+  return {
+    authorizationUrl: `${discovery.authorization_endpoint}?${params.toString()}`,
+    state,
+  };
+};
+
+/**
+ * Exchange the authorization code for tokens and validate the ID token
+ */
+const exchangeCode = async (
+  config: OidcConfig,
+  discovery: OidcDiscoveryDocument,
+  code: string,
+  codeVerifier: string,
+  nonce: string
+): Promise<OidcIdTokenClaims> => {
+  const body = new URLSearchParams({
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: config.redirectUri,
+    code_verifier: codeVerifier,
+  });
+  const headers: Record<string, string> = {
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  };
+
+  // Confidential clients authenticate with client_secret_basic unless the provider only supports _post
+  const authMethods = discovery.token_endpoint_auth_methods_supported;
+  const usePostAuth =
+    !!authMethods && !authMethods.includes("client_secret_basic") && authMethods.includes("client_secret_post");
+
+  if (config.clientSecret && usePostAuth) {
+    body.set("client_id", config.clientId);
+    body.set("client_secret", config.clientSecret);
+  } else if (config.clientSecret) {
+    const credentials = `${encodeURIComponent(config.clientId)}:${encodeURIComponent(config.clientSecret)}`;
+    headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+  } else {
+    body.set("client_id", config.clientId);
+  }
+
+  const tokens = await fetchJson<{ id_token?: string }>(discovery.token_endpoint, {
+    method: "POST",
+    headers,
+    body: body.toString(),
+  });
+
+  if (!tokens.id_token) {
+    throw new Error("Identity provider did not return an ID token");
+  }
+
+  const decoded = jwt.decode(tokens.id_token, { complete: true });
+  if (!decoded || typeof decoded.payload === "string") {
+    throw new Error("Invalid ID token");
+  }
+
+  const key = await getSigningKey(discovery.jwks_uri, decoded.header.kid);
+
+  let claims: OidcIdTokenClaims;
+  try {
+    claims = jwt.verify(tokens.id_token, key, {
+      algorithms: SUPPORTED_ALGORITHMS,
+      issuer: discovery.issuer,
+      audience: config.clientId,
+      clockTolerance: 60,
+    }) as OidcIdTokenClaims;
+  } catch (error) {
+    throw new Error(`Invalid ID token: ${error instanceof Error ? error.message : "verification failed"}`);
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new Error("Invalid ID token: nonce mismatch");
+  }
+
+  return claims;
+};
+
+/**
+ * Find the local user for the ID token's email, creating one when just-in-time
+ * provisioning is enabled
+ */
+const resolveUser = async (config: OidcConfig, claims: OidcIdTokenClaims): Promise<UserResponse> => {
+  if (!claims.email) {
+    throw new Error("Identity provider did not return an email address");
+  }
+
+  // Users are matched by email, so an unverified address could take over someone else's account.
+  // Providers that never send email_verified can be trusted explicitly with OIDC_TRUST_UNVERIFIED_EMAIL.
+  const verified = claims.email_verified === true || (claims.email_verified === undefined && config.trustUnverifiedEmail);
+  if (!verified) {
+    throw new Error("Email address is not verified by the identity provider");
+  }
+
+  const email = claims.email.toLowerCase().trim();
+  const domain = email.split("@")[1];
+  if (config.allowedDomains.length > 0 && !config.allowedDomains.includes(domain)) {
+    throw new Error("Email domain is not allowed to sign in");
+  }
+
+  let user = await User.findOne({ email });
+
+  if (!user) {
+    if (!config.jitProvisioning) {
+      throw new Error("No account exists for this email");
+    }
+
+    const name =
+      claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(" ") || email.split("@")[0];
+
+    user = await User.create({
+      email,
+      name,
+      role: Role.MEMBER,
+      ...(claims.picture && { profileImage: claims.picture }),
+    });
+  }
+
+  if (user.deactivatedAt) {
+    throw new Error("This account has been deactivated");
+  }
+
+  return formatUser(user);
+};
+
+/**
+ * Complete the authorization-code flow: consume the stored state, exchange the code,
+ * validate the ID token and resolve the local user
+ */
+export const completeAuthorization = async (
+  code: string,
+  state: string
+): Promise<{ user: UserResponse; redirectTo: string }> => {
+  const config = requireOidcConfig();
+
+  // Consume the state so a callback URL cannot be replayed
+  const loginState = await OidcLoginState.findOneAndDelete({ state, expiresAt: { $gt: new Date() } });
+  if (!loginState) {
+    throw new Error("Invalid or expired login state");
+  }
+
+  const discovery = await getDiscoveryDocument(config);
+  const claims = await exchangeCode(config, discovery, code, loginState.codeVerifier, loginState.nonce);
+  const user = await resolveUser(config, claims);
+
+  return { user, redirectTo: loginState.redirectTo };
+};
@@ -0,0 +1,397 @@
+import mongoose from "mongoose";
+import Project from "../models/project.model";
+import Issue from "../models/issue.model";
+import User, { Role } from "../models/user.model";
+import { CreateProjectDto, UpdateProjectDto, ProjectResponse } from "../types/project.types";
+import { isValidObjectId, PROJECT_KEY_REGEX } from "../utils/validation";
+import { Permission, hasPermission } from "../config/permissions";
+import { WorkflowResponse } from "../types/workflow.types";
+import { assignProjectWorkflow, getWorkflowForProject, resolveWorkflow } from "./workflow.service";
+
+const MAX_PROJECT_NAME_LENGTH = 100;
+const MAX_KEY_ATTEMPTS = 20;
+const nameCollation = { locale: "en", strength: 2 };
+
+// Helper to format project response with populated members
+const formatProject = (project: any, issueCount?: number): ProjectResponse => {
+  return {
+    _id: String(project._id),
+    name: project.name,
+    key: project.key || null,
+    description: project.description,
+    members: (project.members || [])
+      .filter((member: any) => member && member.email)
+      .map((member: any) => ({
+        _id: String(member._id),
+        name: member.name,
+        email: member.email,
+        profileImage: member.profileImage,
+      })),
+    workflow: project.workflow ? String(project.workflow) : null,
+    createdBy: String(project.createdBy),
+    ...(issueCount !== undefined && { issueCount }),
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  };
+};
+
+// Helper to validate a project name and make sure no other project already uses it
+const validateName = async (name: string, excludeId?: string): Promise<string> => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Project name is required");
+  }
+  if (trimmed.length > MAX_PROJECT_NAME_LENGTH) {
+    throw new Error(`Invalid project name. Must be at most ${MAX_PROJECT_NAME_LENGTH} characters`);
+  }
+
+  const existing = await Project.findOne({
+    name: trimmed,
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  }).collation(nameCollation);
+  if (existing) {
+    throw new Error("A project with this name already exists");
+  }
+
+  return trimmed;
+};
+
+// Helper to check whether a key is taken, counting keys still carried by issues moved out of a deleted project
+const isKeyInUse = async (key: string): Promise<boolean> => {
+  if (await Project.exists({ key })) {
+    return true;
+  }
+  const prefix = new RegExp(`^${key}-`);
+  return !!(await Issue.exists({ $or: [{ key: prefix }, { previousKeys: prefix }] }));
+};
+
+// Helper to validate a project key chosen by the user and make sure no other project uses it
+const validateKey = async (key: string): Promise<string> => {
+  const normalized = key.trim().toUpperCase();
+  if (!PROJECT_KEY_REGEX.test(normalized)) {
+    throw new Error("Invalid project key. Must be 2-10 letters or digits, starting with a letter");
+  }
+
+  if (await isKeyInUse(normalized)) {
+    throw new Error("This project key is already in use");
+  }
+
+  return normalized;
+};
+
+// Helper to derive a free project key from its name: the initials of a multi-word name or
+// the start of a single word, with a number added if needed (Backend Platform -> BP, BP2, ...)
+const generateKey = async (name: string): Promise<string> => {
+  const words = name.toUpperCase().split(/[^A-Z0-9]+/).filter(Boolean);
+  const initials = (words.length > 1 ? words.map((word) => word[0]).join("") : (words[0] || "").slice(0, 3))
+    .replace(/^[0-9]+/, "")
+    .slice(0, 8);
+  const base = initials.length >= 2 ? initials : "PRJ";
+
+  for (let suffix = 1; ; suffix++) {
+    const key = suffix === 1 ? base : `${base}${suffix}`;
+    if (!(await isKeyInUse(key))) {
+      return key;
+    }
+  }
+};
+
+// Helper to validate user IDs being added to a project
+const resolveMemberIds = async (userIds: string[]): Promise<mongoose.Types.ObjectId[]> => {
+  if (!Array.isArray(userIds)) {
+    throw new Error("Invalid members. Must be an array of user IDs");
+  }
+
+  const uniqueIds = [...new Set(userIds.map(String))];
+  if (uniqueIds.some((id) => !isValidObjectId(id))) {
+    throw new Error("Invalid user ID format");
+  }
+
+  const users = await User.find({ _id: { $in: uniqueIds } }).select("deactivatedAt");
+  if (users.length !== uniqueIds.length) {
+    throw new Error("User not found");
+  }
+  if (users.some((user) => user.deactivatedAt)) {
+    throw new Error("Invalid member: user is deactivated");
+  }
+
+  return uniqueIds.map((id) => new mongoose.Types.ObjectId(id));
+};
+
+/**
+ * IDs of the projects a user can see, or null when they can see every project
+ */
+export const getAccessibleProjectIds = async (
+  userId: string,
+  role?: Role
+): Promise<mongoose.Types.ObjectId[] | null> => {
+  if (hasPermission(role, Permission.PROJECTS_MANAGE)) {
+    return null;
+  }
+
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  const projects = await Project.find({ members: new mongoose.Types.ObjectId(userId) }).select("_id");
+  return projects.map((project) => project._id as mongoose.Types.ObjectId);
+};
+
+/**
+ * Load a project the user is allowed to see. Projects the user does not belong to
+ * are reported as not found so their existence is not revealed.
+ */
+export const getAccessibleProject = async (projectId: string, userId: string, role?: Role) => {
+  if (!isValidObjectId(projectId)) {
+    throw new Error("Invalid project ID format");
+  }
+
+  const project = await Project.findById(projectId);
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const isMember = project.members.some((memberId) => String(memberId) === userId);
+  if (!isMember && !hasPermission(role, Permission.PROJECTS_MANAGE)) {
+    throw new Error("Project not found");
+  }
+
+  return project;
+};
+
+/**
+ * Check whether a user is a member of a project
+ */
+export const isProjectMember = async (
+  projectId: string | mongoose.Types.ObjectId,
+  userId: string | mongoose.Types.ObjectId
+): Promise<boolean> => {
+  const count = await Project.countDocuments({ _id: projectId, members: userId });
+  return count > 0;
+};
+
+/**
+ * Hide issues in projects the user is not a member of. They are reported as not
+ * found so their existence is not revealed.
+ */
+export const assertIssueAccess = async (issue: any, userId?: string, role?: Role): Promise<void> => {
+  if (!userId || hasPermission(role, Permission.PROJECTS_MANAGE)) {
+    return;
+  }
+  const projectId = issue.project?._id || issue.project;
+  if (!(await isProjectMember(projectId, userId))) {
+    throw new Error("Issue not found");
+  }
+};
+
+/**
+ * List the projects the user can see, alphabetically, with their active issue counts
+ */
+export const getProjects = async (userId: string, role?: Role): Promise<ProjectResponse[]> => {
+  const projectIds = await getAccessibleProjectIds(userId, role);
+  const query = projectIds === null ? {} : { _id: { $in: projectIds } };
+
+  const projects = await Project.find(query)
+    .populate("members", "name email profileImage")
+    .collation(nameCollation)
+    .sort({ name: 1 });
+
+  const counts = await Issue.aggregate([
+    { $match: { project: { $in: projects.map((project) => project._id) }, archivedAt: null } },
+    { $group: { _id: "$project", count: { $sum: 1 } } },
+  ]);
+  const countById = new Map(counts.map((item) => [String(item._id), item.count as number]));
+
+  return projects.map((project) => formatProject(project, countById.get(String(project._id)) || 0));
+};
+
+export const getProjectById = async (projectId: string, userId: string, role?: Role): Promise<ProjectResponse> => {
+  const project = await getAccessibleProject(projectId, userId, role);
+
+  await project.populate("members", "name email profileImage");
+  const issueCount = await Issue.countDocuments({ project: project._id, archivedAt: null });
+
+  return formatProject(project, issueCount);
+};
+
+export const createProject = async (createDto: CreateProjectDto, userId: string): Promise<ProjectResponse> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  const name = await validateName(createDto.name || "");
+  const key = createDto.key ? await validateKey(createDto.key) : await generateKey(name);
+  const memberIds = await resolveMemberIds([userId, ...(createDto.members || [])]);
+  const workflow = await resolveWorkflow(createDto.workflow || null);
+
+  let project;
+  try {
+    project = await Project.create({
+      name,
+      key,
+      description: createDto.description ? createDto.description.trim() : "",
+      members: memberIds,
+      workflow: workflow._id ? new mongoose.Types.ObjectId(workflow._id) : null,
+      createdBy: new mongoose.Types.ObjectId(userId),
+    });
+  } catch (error: any) {
+    // Lost a race with a request creating a project with the same name or key
+    if (error && error.code === 11000) {
+      throw new Error("A project with this name or key already exists");
+    }
+    throw error;
+  }
+
+  await project.populate("members", "name email profileImage");
+  return formatProject(project, 0);
+};
+
+export const updateProject = async (
+  projectId: string,
+  updateDto: UpdateProjectDto,
+  userId: string,
+  role?: Role
+): Promise<ProjectResponse> => {
+  const project = await getAccessibleProject(projectId, userId, role);
+
+  if (updateDto.name !== undefined) {
+    project.name = await validateName(updateDto.name, projectId);
+  }
+  if (updateDto.description !== undefined) {
+    project.description = updateDto.description ? updateDto.description.trim() : "";
+  }
+
+  // Switch workflows before saving so a rejected switch leaves the project unchanged
+  const workflowId = updateDto.workflow || null;
+  if (updateDto.workflow !== undefined && workflowId !== (project.workflow ? String(project.workflow) : null)) {
+    await assignProjectWorkflow(project._id as mongoose.Types.ObjectId, workflowId);
+  }
+
+  await project.save();
+
+  return getProjectById(projectId, userId, role);
+};
+
+/**
+ * Get a project's key, giving it one derived from its name if it has none yet (projects
+ * created before keys existed, or by the seed script)
+ */
+export const ensureProjectKey = async (projectId: string | mongoose.Types.ObjectId): Promise<string> => {
+  for (let attempt = 0; attempt < MAX_KEY_ATTEMPTS; attempt++) {
+    const project = await Project.findById(projectId).select("name key");
+    if (!project) {
+      throw new Error("Project not found");
+    }
+    if (project.key) {
+      return project.key;
+    }
+
+    try {
+      await Project.updateOne({ _id: project._id, key: null }, { $set: { key: await generateKey(project.name) } });
+    } catch (error: any) {
+      // Another project took the key in the meantime; try the next one
+      if (!error || error.code !== 11000) {
+        throw error;
+      }
+    }
+  }
+
+  throw new Error("Failed to assign a project key");
+};
+
+/**
+ * Hand out the next issue key of a project, e.g. BX-142. The counter is increased
+ * atomically, so concurrent requests never get the same number.
+ */
+export const reserveIssueKey = async (projectId: string | mongoose.Types.ObjectId): Promise<string> => {
+  const project = await Project.findByIdAndUpdate(
+    projectId,
+    { $inc: { issueCounter: 1 } },
+    { new: true, timestamps: false }
+  ).select("key issueCounter");
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const key = project.key || (await ensureProjectKey(project._id as mongoose.Types.ObjectId));
+  return `${key}-${project.issueCounter}`;
+};
+
+/**
+ * Get the workflow followed by a project's issues
+ */
+export const getProjectWorkflow = async (
+  projectId: string,
+  userId: string,
+  role?: Role
+): Promise<WorkflowResponse> => {
+  const project = await getAccessibleProject(projectId, userId, role);
+  return getWorkflowForProject(project._id as mongoose.Types.ObjectId);
+};
+
+/**
+ * Add users to a project. Users who are already members are ignored.
+ */
+export const addProjectMembers = async (
+  projectId: string,
+  memberIds: string[],
+  userId: string,
+  role?: Role
+): Promise<ProjectResponse> => {
+  const project = await getAccessibleProject(projectId, userId, role);
+
+  if (!Array.isArray(memberIds) || memberIds.length === 0) {
+    throw new Error("At least one user ID is required");
+  }
+
+  const newMemberIds = await resolveMemberIds(memberIds);
+  await Project.updateOne({ _id: project._id }, { $addToSet: { members: { $each: newMemberIds } } });
+
+  return getProjectById(projectId, userId, role);
+};
+
+/**
+ * Remove a user from a project. Their issues in the project stay assigned to them
+ * until someone reassigns them, but they stop watching the project's issues.
+ */
+export const removeProjectMember = async (
+  projectId: string,
+  memberId: string,
+  userId: string,
+  role?: Role
+): Promise<ProjectResponse> => {
+  const project = await getAccessibleProject(projectId, userId, role);
+
+  if (!isValidObjectId(memberId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  if (!project.members.some((id) => String(id) === memberId)) {
+    throw new Error("User is not a member of this project");
+  }
+
+  await Project.updateOne({ _id: project._id }, { $pull: { members: new mongoose.Types.ObjectId(memberId) } });
+  await Issue.updateMany(
+    { project: project._id, watchers: memberId },
+    { $pull: { watchers: new mongoose.Types.ObjectId(memberId) } },
+    { timestamps: false }
+  );
+
+  return getProjectById(projectId, userId, role);
+};
+
+/**
+ * Delete an empty project. Projects that still have issues (archived or not) cannot be deleted.
+ */
+export const deleteProject = async (projectId: string, userId: string, role?: Role): Promise<{ _id: string }> => {
+  const project = await getAccessibleProject(projectId, userId, role);
+
+  const issueCount = await Issue.countDocuments({ project: project._id });
+  if (issueCount > 0) {
+    throw new Error("Project still has issues. Move or purge them before deleting the project");
+  }
+
+  await Project.deleteOne({ _id: project._id });
+
+  return { _id: projectId };
+};
@@ -0,0 +1,360 @@
+import mongoose from "mongoose";
+import IssueRelation, { RelationType } from "../models/issueRelation.model";
+import Issue, { StatusCategory } from "../models/issue.model";
+import User, { Role } from "../models/user.model";
+import { ActivityType } from "../models/issueActivity.model";
+import { NotificationType } from "../models/notification.model";
+import { CreateRelationDto, IssueRelationResponse, RelatedIssue, RelationKind } from "../types/relation.types";
+import { isValidObjectId } from "../utils/validation";
+import { assertIssueAccess, getAccessibleProjectIds } from "./project.service";
+import { recordActivity } from "./activity.service";
+import { getWorkflowForProject } from "./workflow.service";
+import { notifyWatchers } from "./watcher.service";
+
+// Stop following blocks/duplicates/sub-task chains after this many issues when looking for cycles
+const MAX_CYCLE_CHECK_ISSUES = 1000;
+
+const relatedIssueFields = "key title status statusCategory project archivedAt";
+
+// Stored type and direction behind each kind, as seen from the issue the request is for
+const kindToRelation: Record<RelationKind, { type: RelationType; outgoing: boolean }> = {
+  [RelationKind.BLOCKS]: { type: RelationType.BLOCKS, outgoing: true },
+  [RelationKind.BLOCKED_BY]: { type: RelationType.BLOCKS, outgoing: false },
+  [RelationKind.DUPLICATES]: { type: RelationType.DUPLICATES, outgoing: true },
+  [RelationKind.DUPLICATED_BY]: { type: RelationType.DUPLICATES, outgoing: false },
+  [RelationKind.RELATES_TO]: { type: RelationType.RELATES_TO, outgoing: true },
+  [RelationKind.PARENT_OF]: { type: RelationType.PARENT_OF, outgoing: true },
+  [RelationKind.CHILD_OF]: { type: RelationType.PARENT_OF, outgoing: false },
+};
+
+// Helper to describe a stored relation from one of its issues' point of view
+const getRelationKind = (type: RelationType, outgoing: boolean): RelationKind => {
+  switch (type) {
+    case RelationType.BLOCKS:
+      return outgoing ? RelationKind.BLOCKS : RelationKind.BLOCKED_BY;
+    case RelationType.DUPLICATES:
+      return outgoing ? RelationKind.DUPLICATES : RelationKind.DUPLICATED_BY;
+    case RelationType.PARENT_OF:
+      return outgoing ? RelationKind.PARENT_OF : RelationKind.CHILD_OF;
+    default:
+      return RelationKind.RELATES_TO;
+  }
+};
+
+// Helper to format the issue on the other end of a relation
+const formatRelatedIssue = (issue: any): RelatedIssue => {
+  return {
+    _id: String(issue._id),
+    key: issue.key || null,
+    title: issue.title,
+    status: issue.status,
+    statusCategory: issue.statusCategory,
+    project: issue.project
+      ? {
+          _id: String(issue.project._id || issue.project),
+          name: issue.project.name,
+        }
+      : null,
+    archivedAt: issue.archivedAt || null,
+  };
+};
+
+// Helper to format a relation with populated issues as seen from one of them
+const formatRelation = (relation: any, issueId: string): IssueRelationResponse => {
+  const outgoing = String(relation.source._id) === issueId;
+  return {
+    _id: String(relation._id),
+    type: getRelationKind(relation.type, outgoing),
+    issue: formatRelatedIssue(outgoing ? relation.target : relation.source),
+    createdBy: String(relation.createdBy),
+    createdAt: relation.createdAt,
+  };
+};
+
+// Helper to load an issue the user can see
+const loadIssue = async (issueId: string, userId?: string, role?: Role, notFoundMessage = "Issue not found") => {
+  if (!isValidObjectId(issueId)) {
+    throw new Error("Invalid issue ID format");
+  }
+
+  const issue = await Issue.findById(issueId);
+  if (!issue) {
+    throw new Error(notFoundMessage);
+  }
+
+  try {
+    await assertIssueAccess(issue, userId, role);
+  } catch {
+    throw new Error(notFoundMessage);
+  }
+
+  return issue;
+};
+
+/**
+ * Check whether linking source -> target would close a loop, by following the
+ * relations of the same type onwards from target
+ */
+const wouldCreateCycle = async (type: RelationType, sourceId: string, targetId: string): Promise<boolean> => {
+  const visited = new Set<string>([targetId]);
+  let frontier = [targetId];
+
+  while (frontier.length > 0 && visited.size < MAX_CYCLE_CHECK_ISSUES) {
+    const relations = await IssueRelation.find({ type, source: { $in: frontier } }).select("target");
+    frontier = [];
+    for (const relation of relations) {
+      const id = String(relation.target);
+      if (id === sourceId) {
+        return true;
+      }
+      if (!visited.has(id)) {
+        visited.add(id);
+        frontier.push(id);
+      }
+    }
+  }
+
+  return false;
+};
+
+/**
+ * Resolve an issue that was marked as a duplicate, using the first "done" status of its
+ * workflow, and tell the people watching it
+ */
+const resolveDuplicate = async (duplicate: any, original: any, userId: string): Promise<void> => {
+  if (duplicate.statusCategory === StatusCategory.DONE) {
+    return;
+  }
+
+  const workflow = await getWorkflowForProject(duplicate.project);
+  const doneStatus = workflow.statuses.find((status) => status.category === StatusCategory.DONE);
+  if (!doneStatus) {
+    return;
+  }
+
+  const oldStatus = duplicate.status;
+  duplicate.status = doneStatus.name;
+  duplicate.statusCategory = doneStatus.category;
+  await duplicate.save();
+
+  await recordActivity({
+    issueId: duplicate._id,
+    actorId: userId,
+    type: ActivityType.FIELD_CHANGED,
+    field: "status",
+    oldValue: oldStatus,
+    newValue: doneStatus.name,
+  });
+
+  const actor = await User.findById(userId);
+  const actorName = actor ? actor.name : "Someone";
+
+  await notifyWatchers(duplicate._id, userId, {
+    title: "Issue Marked as Duplicate",
+    description: `${actorName} marked issue "${duplicate.title}" as a duplicate of "${original.title}" and changed its status to ${doneStatus.name}`,
+    type: NotificationType.STATUS_CHANGED,
+  });
+};
+
+/**
+ * List an issue's relations in both directions. Related issues in projects the user
+ * cannot see are left out. The caller is responsible for checking access to the issue itself.
+ */
+export const getRelationsForIssue = async (
+  issueId: string | mongoose.Types.ObjectId,
+  userId?: string,
+  role?: Role
+): Promise<IssueRelationResponse[]> => {
+  const id = String(issueId);
+  const relations = await IssueRelation.find({ $or: [{ source: id }, { target: id }] })
+    .populate({ path: "source", select: relatedIssueFields, populate: { path: "project", select: "name" } })
+    .populate({ path: "target", select: relatedIssueFields, populate: { path: "project", select: "name" } })
+    .sort({ createdAt: 1 });
+
+  const projectIds = userId ? await getAccessibleProjectIds(userId, role) : null;
+  const visibleProjects = projectIds ? new Set(projectIds.map(String)) : null;
+
+  return relations
+    .filter((relation) => relation.source && relation.target)
+    .map((relation) => formatRelation(relation, id))
+    .filter((relation) => !visibleProjects || (relation.issue.project && visibleProjects.has(relation.issue.project._id)));
+};
+
+export const getIssueRelations = async (
+  issueId: string,
+  userId?: string,
+  role?: Role
+): Promise<IssueRelationResponse[]> => {
+  const issue = await loadIssue(issueId, userId, role);
+  return getRelationsForIssue(issue._id as mongoose.Types.ObjectId, userId, role);
+};
+
+/**
+ * Issues that block the given issue and are neither done nor archived
+ */
+export const getOpenBlockers = async (
+  issueId: string | mongoose.Types.ObjectId
+): Promise<Array<{ _id: string; title: string }>> => {
+  const relations = await IssueRelation.find({ type: RelationType.BLOCKS, target: issueId }).populate(
+    "source",
+    "title statusCategory archivedAt"
+  );
+
+  return relations
+    .map((relation) => relation.source as any)
+    .filter((blocker) => blocker && blocker.statusCategory !== StatusCategory.DONE && !blocker.archivedAt)
+    .map((blocker) => ({ _id: String(blocker._id), title: blocker.title }));
+};
+
+/**
+ * Link two issues. Marking an issue as a duplicate resolves it.
+ */
+export const addRelation = async (
+  issueId: string,
+  createDto: CreateRelationDto,
+  userId: string,
+  role?: Role
+): Promise<IssueRelationResponse> => {
+  if (!Object.values(RelationKind).includes(createDto.type)) {
+    throw new Error(`Invalid relation type. Must be one of: ${Object.values(RelationKind).join(", ")}`);
+  }
+
+  if (!isValidObjectId(createDto.issue)) {
+    throw new Error("Invalid related issue ID format");
+  }
+
+  if (createDto.issue === issueId) {
+    throw new Error("Invalid relation: an issue cannot be related to itself");
+  }
+
+  const issue = await loadIssue(issueId, userId, role);
+  const other = await loadIssue(createDto.issue, userId, role, "Related issue not found");
+
+  const { type, outgoing } = kindToRelation[createDto.type];
+  const source = outgoing ? issue : other;
+  const target = outgoing ? other : issue;
+
+  const existing = await IssueRelation.findOne({
+    type,
+    $or: [
+      { source: source._id, target: target._id },
+      { source: target._id, target: source._id },
+    ],
+  });
+  if (existing) {
+    throw new Error("These issues are already linked with this relation type");
+  }
+
+  if (type === RelationType.PARENT_OF && (await IssueRelation.exists({ type, target: target._id }))) {
+    throw new Error("Sub-task already has a parent. Remove it before adding another");
+  }
+
+  if (type === RelationType.DUPLICATES && (await IssueRelation.exists({ type, source: source._id }))) {
+    throw new Error("Issue is already marked as a duplicate of another issue");
+  }
+
+  if (type !== RelationType.RELATES_TO && (await wouldCreateCycle(type, String(source._id), String(target._id)))) {
+    throw new Error(`Invalid relation: this would create a cycle of "${type}" relations`);
+  }
+
+  let relation;
+  try {
+    relation = await IssueRelation.create({
+      source: source._id,
+      target: target._id,
+      type,
+      createdBy: new mongoose.Types.ObjectId(userId),
+    });
+  } catch (error: any) {
+    // Lost a race with an identical request
+    if (error && error.code === 11000) {
+      throw new Error("These issues are already linked with this relation type");
+    }
+    throw error;
+  }
+
+  await recordActivity([
+    {
+      issueId: issue._id as mongoose.Types.ObjectId,
+      actorId: userId,
+      type: ActivityType.RELATION_ADDED,
+      newValue: { type: createDto.type, issue: { _id: String(other._id), name: other.title } },
+    },
+    {
+      issueId: other._id as mongoose.Types.ObjectId,
+      actorId: userId,
+      type: ActivityType.RELATION_ADDED,
+      newValue: { type: getRelationKind(type, !outgoing), issue: { _id: String(issue._id), name: issue.title } },
+    },
+  ]);
+
+  if (type === RelationType.DUPLICATES) {
+    await resolveDuplicate(source, target, userId);
+  }
+
+  const populated = await IssueRelation.findById(relation._id)
+    .populate({ path: "source", select: relatedIssueFields, populate: { path: "project", select: "name" } })
+    .populate({ path: "target", select: relatedIssueFields, populate: { path: "project", select: "name" } });
+
+  if (!populated) {
+    throw new Error("Failed to create relation");
+  }
+
+  return formatRelation(populated, String(issue._id));
+};
+
+/**
+ * Remove a link between two issues. Removing a duplicate link does not reopen the issue.
+ */
+export const removeRelation = async (
+  issueId: string,
+  relationId: string,
+  userId: string,
+  role?: Role
+): Promise<{ _id: string }> => {
+  if (!isValidObjectId(relationId)) {
+    throw new Error("Invalid relation ID format");
+  }
+
+  const issue = await loadIssue(issueId, userId, role);
+
+  const relation = await IssueRelation.findOne({
+    _id: relationId,
+    $or: [{ source: issue._id }, { target: issue._id }],
+  });
+  if (!relation) {
+    throw new Error("Relation not found");
+  }
+
+  const outgoing = String(relation.source) === String(issue._id);
+  const other = await Issue.findById(outgoing ? relation.target : relation.source).select("title");
+
+  await IssueRelation.deleteOne({ _id: relation._id });
+
+  await recordActivity([
+    {
+      issueId: issue._id as mongoose.Types.ObjectId,
+      actorId: userId,
+      type: ActivityType.RELATION_REMOVED,
+      oldValue: {
+        type: getRelationKind(relation.type, outgoing),
+        issue: other ? { _id: String(other._id), name: other.title } : null,
+      },
+    },
+    ...(other
+      ? [
+          {
+            issueId: other._id as mongoose.Types.ObjectId,
+            actorId: userId,
+            type: ActivityType.RELATION_REMOVED,
+            oldValue: {
+              type: getRelationKind(relation.type, !outgoing),
+              issue: { _id: String(issue._id), name: issue.title },
+            },
+          },
+        ]
+      : []),
+  ]);
+
+  return { _id: relationId };
+};
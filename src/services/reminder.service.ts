@@ -0,0 +1,127 @@
+import Issue, { StatusCategory } from "../models/issue.model";
+import User from "../models/user.model";
+import { NotificationType } from "../models/notification.model";
+import { createNotification, getIssueLink } from "../utils/notifications";
+import {
+  DUE_REMINDERS_ENABLED,
+  DUE_REMINDER_INTERVAL_MINUTES,
+  DUE_SOON_HOURS,
+  MAX_REMINDERS_PER_RUN,
+} from "../config/reminders";
+
+type ReminderMarker = "dueSoonNotifiedAt" | "overdueNotifiedAt";
+
+let running = false;
+
+// Helper to notify the assignees of matching issues once per due date
+const sendReminders = async (
+  dueDateQuery: Record<string, Date>,
+  marker: ReminderMarker,
+  now: Date,
+  buildNotification: (issue: any) => { title: string; description: string; type: NotificationType }
+): Promise<number> => {
+  const issues = await Issue.aggregate([
+    {
+      $match: {
+        dueDate: dueDateQuery,
+        statusCategory: { $ne: StatusCategory.DONE },
+        archivedAt: null,
+        assignee: { $ne: null },
+        [marker]: null,
+      },
+    },
+    // Skip issues whose assignee was deactivated or deleted in the query itself, so they
+    // cannot fill up the per-run limit and starve reminders for everyone else
+    {
+      $lookup: {
+        from: User.collection.name,
+        localField: "assignee",
+        foreignField: "_id",
+        pipeline: [{ $match: { deactivatedAt: null } }, { $project: { _id: 1 } }],
+        as: "activeAssignee",
+      },
+    },
+    { $match: { activeAssignee: { $ne: [] } } },
+    { $sort: { dueDate: 1 } },
+    { $limit: MAX_REMINDERS_PER_RUN },
+    { $project: { title: 1, key: 1, dueDate: 1, assignee: 1 } },
+  ]);
+
+  let sent = 0;
+  for (const issue of issues) {
+    // Claim the reminder first so overlapping runs (or several servers) never send it twice.
+    // The due date and assignee must still match, otherwise the issue changed in between.
+    const claimed = await Issue.findOneAndUpdate(
+      { _id: issue._id, [marker]: null, dueDate: issue.dueDate, assignee: issue.assignee },
+      { $set: { [marker]: now } },
+      { timestamps: false }
+    );
+    if (!claimed) {
+      continue;
+    }
+
+    await createNotification({
+      recipientId: issue.assignee,
+      ...buildNotification(issue),
+      link: getIssueLink(issue),
+    });
+    sent++;
+  }
+
+  return sent;
+};
+
+/**
+ * Notify assignees about their issues that are due within DUE_SOON_HOURS or overdue.
+ * Each kind of reminder is sent once per due date; changing the due date or the
+ * assignee makes the issue eligible again.
+ */
+export const sendDueDateReminders = async (now: Date = new Date()): Promise<{ dueSoon: number; overdue: number }> => {
+  const dueSoonLimit = new Date(now.getTime() + DUE_SOON_HOURS * 60 * 60 * 1000);
+
+  const overdue = await sendReminders({ $lte: now }, "overdueNotifiedAt", now, (issue) => ({
+    title: "Issue Overdue",
+    description: `Issue "${issue.title}" assigned to you was due ${issue.dueDate.toUTCString()}`,
+    type: NotificationType.OVERDUE,
+  }));
+
+  const dueSoon = await sendReminders({ $gt: now, $lte: dueSoonLimit }, "dueSoonNotifiedAt", now, (issue) => ({
+    title: "Issue Due Soon",
+    description: `Issue "${issue.title}" assigned to you is due ${issue.dueDate.toUTCString()}`,
+    type: NotificationType.DUE_SOON,
+  }));
+
+  return { dueSoon, overdue };
+};
+
+/**
+ * Run the due date reminders every DUE_REMINDER_INTERVAL_MINUTES. A run is skipped
+ * while the previous one is still going.
+ */
+export const startDueDateReminders = (): void => {
+  if (!DUE_REMINDERS_ENABLED) {
+    console.log("Due date reminders are disabled");
+    return;
+  }
+
+  const run = async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      const result = await sendDueDateReminders();
+      if (result.dueSoon > 0 || result.overdue > 0) {
+        console.log(`Sent ${result.dueSoon} due soon and ${result.overdue} overdue reminders`);
+      }
+    } catch (error) {
+      console.error("Due date reminder error:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(run, DUE_REMINDER_INTERVAL_MINUTES * 60 * 1000);
+  timer.unref();
+  void run();
+};
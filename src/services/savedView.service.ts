@@ -0,0 +1,298 @@
+import mongoose from "mongoose";
+import SavedView, { ISavedViewFilters, ViewVisibility } from "../models/savedView.model";
+import SavedViewVisit from "../models/savedViewVisit.model";
+import { Role } from "../models/user.model";
+import { IssueFilters, IssueSort, SortOrder } from "../types/issue.types";
+import { CreateSavedViewDto, SavedViewResponse, UpdateSavedViewDto } from "../types/savedView.types";
+import { isValidObjectId } from "../utils/validation";
+import { parseQuery } from "../utils/queryParser";
+import { ISSUE_FILTER_KEYS, parseIssueFilters } from "../utils/issueFilters";
+import { Permission, hasPermission } from "../config/permissions";
+import { countIssues } from "./issue.service";
+
+const MAX_VIEW_NAME_LENGTH = 100;
+// Unread counts in the view list are only computed for the views the user ran most recently
+const MAX_LISTED_UNREAD_COUNTS = 20;
+const nameCollation = { locale: "en", strength: 2 };
+
+// Helper to copy the filters that are set out of a stored view
+const getStoredFilters = (view: any): ISavedViewFilters => {
+  const filters: ISavedViewFilters = {};
+  for (const key of ISSUE_FILTER_KEYS) {
+    const value = view.filters?.[key];
+    if (value !== undefined && value !== null) {
+      (filters as any)[key] = Array.isArray(value) ? [...value] : value;
+    }
+  }
+  return filters;
+};
+
+// Helper to format saved view response for the user asking
+const formatView = (view: any, lastOpenedAt: Date | null, unreadCount: number | null): SavedViewResponse => {
+  return {
+    _id: String(view._id),
+    name: view.name,
+    filters: getStoredFilters(view),
+    sort: view.sort || null,
+    order: view.order || null,
+    visibility: view.visibility,
+    showUnreadCount: view.showUnreadCount,
+    unreadCount,
+    lastOpenedAt,
+    owner:
+      view.owner && view.owner.name
+        ? {
+            _id: String(view.owner._id),
+            name: view.owner.name,
+            email: view.owner.email,
+          }
+        : null,
+    createdAt: view.createdAt,
+    updatedAt: view.updatedAt,
+  };
+};
+
+// Helper to validate a view name and make sure the owner has no other view with it
+const validateName = async (name: unknown, ownerId: string, excludeId?: string): Promise<string> => {
+  const trimmed = typeof name === "string" ? name.trim() : "";
+  if (!trimmed) {
+    throw new Error("View name is required");
+  }
+  if (trimmed.length > MAX_VIEW_NAME_LENGTH) {
+    throw new Error(`Invalid view name. Must be at most ${MAX_VIEW_NAME_LENGTH} characters`);
+  }
+
+  const existing = await SavedView.findOne({
+    owner: ownerId,
+    name: trimmed,
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  }).collation(nameCollation);
+  if (existing) {
+    throw new Error("You already have a view with this name");
+  }
+
+  return trimmed;
+};
+
+// Helper to validate the sort of a view. Free-text results are ordered by relevance.
+const validateSort = (filters: ISavedViewFilters, sort: unknown, order: unknown): void => {
+  if (sort !== null && sort !== undefined && !Object.values(IssueSort).includes(sort as IssueSort)) {
+    throw new Error(`Invalid sort. Must be one of: ${Object.values(IssueSort).join(", ")}`);
+  }
+  if (order !== null && order !== undefined && !Object.values(SortOrder).includes(order as SortOrder)) {
+    throw new Error(`Invalid order. Must be one of: ${Object.values(SortOrder).join(", ")}`);
+  }
+
+  const hasText = !!filters.q || (!!filters.query && parseQuery(filters.query).some((term) => term.field === null));
+  if (hasText && (sort || order)) {
+    throw new Error("Invalid sort: views that search free text are ordered by relevance");
+  }
+};
+
+// Helper to turn a view into list filters for the user running it
+const toIssueFilters = (view: any, userId: string): IssueFilters => {
+  const filters: IssueFilters = getStoredFilters(view);
+  if (filters.assignee === "me") {
+    filters.assignee = userId;
+  }
+  return {
+    ...filters,
+    ...(view.sort && { sort: view.sort }),
+    ...(view.order && { order: view.order }),
+  };
+};
+
+// Helper to get when a user last opened a view
+const getLastOpenedAt = async (viewId: unknown, userId: string): Promise<Date | null> => {
+  const visit = await SavedViewVisit.findOne({ view: viewId, user: userId }).select("openedAt");
+  return visit ? visit.openedAt : null;
+};
+
+// Helper to count the issues updated since the user last opened the view (or since it was created)
+const getUnreadCount = async (
+  view: any,
+  lastOpenedAt: Date | null,
+  userId: string,
+  role?: Role
+): Promise<number | null> => {
+  if (!view.showUnreadCount) {
+    return null;
+  }
+
+  const since: Date = lastOpenedAt || view.createdAt;
+  try {
+    return await countIssues(toIssueFilters(view, userId), userId, role, since);
+  } catch {
+    // The view no longer runs for this user, e.g. its project was deleted or they left it
+    return null;
+  }
+};
+
+// Helper to load a view the user can see: their own or a shared one
+const loadView = async (viewId: string, userId: string) => {
+  if (!isValidObjectId(viewId)) {
+    throw new Error("Invalid view ID format");
+  }
+
+  const view = await SavedView.findById(viewId).populate("owner", "name email");
+  if (!view) {
+    throw new Error("Saved view not found");
+  }
+
+  const ownerId = String((view.owner as any)?._id || view.owner);
+  if (ownerId !== userId && view.visibility !== ViewVisibility.SHARED) {
+    throw new Error("Saved view not found");
+  }
+
+  return view;
+};
+
+// Helper to check that a user may change or delete a view
+const assertCanChange = (view: any, userId: string, role?: Role): void => {
+  const ownerId = String(view.owner?._id || view.owner);
+  if (ownerId !== userId && !hasPermission(role, Permission.VIEWS_MANAGE_ANY)) {
+    throw new Error("Only admins can change another person's view");
+  }
+};
+
+/**
+ * List the user's own views and everyone's shared views, alphabetically. Unread counts
+ * are only included for the MAX_LISTED_UNREAD_COUNTS views the user ran most recently;
+ * the others can be fetched one at a time.
+ */
+export const getSavedViews = async (userId: string, role?: Role): Promise<SavedViewResponse[]> => {
+  const views = await SavedView.find({
+    $or: [{ owner: userId }, { visibility: ViewVisibility.SHARED }],
+  })
+    .populate("owner", "name email")
+    .collation(nameCollation)
+    .sort({ name: 1 });
+
+  const visits = await SavedViewVisit.find({ user: userId, view: { $in: views.map((view) => view._id) } })
+    .select("view openedAt")
+    .sort({ openedAt: -1 });
+  const lastOpenedAt = new Map(visits.map((visit) => [String(visit.view), visit.openedAt]));
+
+  const badgeViewIds = new Set(views.filter((view) => view.showUnreadCount).map((view) => String(view._id)));
+  const countedViewIds = new Set(
+    visits
+      .map((visit) => String(visit.view))
+      .filter((viewId) => badgeViewIds.has(viewId))
+      .slice(0, MAX_LISTED_UNREAD_COUNTS)
+  );
+
+  const unreadCounts = await Promise.all(
+    views.map((view) =>
+      countedViewIds.has(String(view._id))
+        ? getUnreadCount(view, lastOpenedAt.get(String(view._id)) || null, userId, role)
+        : Promise.resolve(null)
+    )
+  );
+
+  return views.map((view, index) =>
+    formatView(view, lastOpenedAt.get(String(view._id)) || null, unreadCounts[index])
+  );
+};
+
+export const getSavedViewById = async (viewId: string, userId: string, role?: Role): Promise<SavedViewResponse> => {
+  const view = await loadView(viewId, userId);
+  const lastOpenedAt = await getLastOpenedAt(view._id, userId);
+  return formatView(view, lastOpenedAt, await getUnreadCount(view, lastOpenedAt, userId, role));
+};
+
+export const createSavedView = async (
+  createDto: CreateSavedViewDto,
+  userId: string,
+  role?: Role
+): Promise<SavedViewResponse> => {
+  const name = await validateName(createDto.name, userId);
+  const filters = parseIssueFilters(createDto.filters);
+  validateSort(filters, createDto.sort, createDto.order);
+
+  if (createDto.visibility !== undefined && !Object.values(ViewVisibility).includes(createDto.visibility)) {
+    throw new Error(`Invalid visibility. Must be one of: ${Object.values(ViewVisibility).join(", ")}`);
+  }
+
+  const view = await SavedView.create({
+    name,
+    owner: new mongoose.Types.ObjectId(userId),
+    visibility: createDto.visibility || ViewVisibility.PRIVATE,
+    filters,
+    sort: createDto.sort || null,
+    order: createDto.order || null,
+    showUnreadCount: createDto.showUnreadCount === true,
+  });
+
+  return getSavedViewById(String(view._id), userId, role);
+};
+
+/**
+ * Update a view. Shared views can only be changed by their owner or an admin.
+ */
+export const updateSavedView = async (
+  viewId: string,
+  updateDto: UpdateSavedViewDto,
+  userId: string,
+  role?: Role
+): Promise<SavedViewResponse> => {
+  const view = await loadView(viewId, userId);
+  assertCanChange(view, userId, role);
+
+  const ownerId = String((view.owner as any)?._id || view.owner);
+
+  if (updateDto.name !== undefined) {
+    view.name = await validateName(updateDto.name, ownerId, viewId);
+  }
+
+  const filters = updateDto.filters !== undefined ? parseIssueFilters(updateDto.filters) : getStoredFilters(view);
+  const sort = updateDto.sort !== undefined ? updateDto.sort : view.sort;
+  const order = updateDto.order !== undefined ? updateDto.order : view.order;
+  validateSort(filters, sort, order);
+
+  if (updateDto.filters !== undefined) {
+    view.set("filters", filters);
+  }
+  view.sort = sort || null;
+  view.order = order || null;
+
+  if (updateDto.visibility !== undefined) {
+    if (!Object.values(ViewVisibility).includes(updateDto.visibility)) {
+      throw new Error(`Invalid visibility. Must be one of: ${Object.values(ViewVisibility).join(", ")}`);
+    }
+    view.visibility = updateDto.visibility;
+  }
+
+  if (updateDto.showUnreadCount !== undefined) {
+    view.showUnreadCount = updateDto.showUnreadCount === true;
+  }
+
+  await view.save();
+
+  return getSavedViewById(viewId, userId, role);
+};
+
+export const deleteSavedView = async (viewId: string, userId: string, role?: Role): Promise<{ _id: string }> => {
+  const view = await loadView(viewId, userId);
+  assertCanChange(view, userId, role);
+
+  await SavedView.deleteOne({ _id: view._id });
+  await SavedViewVisit.deleteMany({ view: view._id });
+
+  return { _id: viewId };
+};
+
+/**
+ * Get the list filters and sort of a view to run it, and remember that the user opened
+ * it so its unread count starts again from now
+ */
+export const openSavedView = async (viewId: string, userId: string): Promise<IssueFilters> => {
+  const view = await loadView(viewId, userId);
+
+  await SavedViewVisit.updateOne(
+    { view: view._id, user: new mongoose.Types.ObjectId(userId) },
+    { $set: { openedAt: new Date() } },
+    { upsert: true }
+  );
+
+  return toIssueFilters(view, userId);
+};
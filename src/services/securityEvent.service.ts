@@ -0,0 +1,104 @@
+import mongoose from "mongoose";
+import SecurityEvent from "../models/securityEvent.model";
+import {
+  RecordSecurityEventParams,
+  SecurityEventFilters,
+  SecurityEventResponse,
+  PaginatedSecurityEvents,
+} from "../types/securityEvent.types";
+import { isValidObjectId } from "../utils/validation";
+
+// Helper to format security event response
+const formatSecurityEvent = (event: any): SecurityEventResponse => {
+  return {
+    _id: String(event._id),
+    type: event.type,
+    user: event.user
+      ? {
+          _id: String(event.user._id),
+          name: event.user.name,
+          email: event.user.email,
+        }
+      : null,
+    email: event.email,
+    ip: event.ip,
+    userAgent: event.userAgent,
+    details: event.details,
+    createdAt: event.createdAt,
+  };
+};
+
+/**
+ * Record a security event (login, lockout, logout, ...)
+ */
+export const recordSecurityEvent = async (params: RecordSecurityEventParams): Promise<void> => {
+  try {
+    await SecurityEvent.create({
+      type: params.type,
+      user: params.userId && isValidObjectId(params.userId) ? new mongoose.Types.ObjectId(params.userId) : null,
+      email: params.email,
+      ip: params.ip,
+      userAgent: params.userAgent,
+      details: params.details,
+    });
+  } catch (error) {
+    console.error("Error recording security event:", error);
+    // Don't throw error - auditing must never block authentication
+  }
+};
+
+/**
+ * Query security events, newest first
+ */
+export const getSecurityEvents = async (filters: SecurityEventFilters): Promise<PaginatedSecurityEvents> => {
+  const query: any = {};
+
+  if (filters.type) {
+    query.type = filters.type;
+  }
+
+  if (filters.userId) {
+    if (!isValidObjectId(filters.userId)) {
+      throw new Error("Invalid user ID format");
+    }
+    query.user = new mongoose.Types.ObjectId(filters.userId);
+  }
+
+  if (filters.email) {
+    query.email = filters.email.toLowerCase().trim();
+  }
+
+  if (filters.ip) {
+    query.ip = filters.ip;
+  }
+
+  if (filters.from || filters.to) {
+    query.createdAt = {
+      ...(filters.from && { $gte: filters.from }),
+      ...(filters.to && { $lte: filters.to }),
+    };
+  }
+
+  // Pagination
+  const page = filters.page || 1;
+  const limit = filters.limit || 20;
+  const skip = (page - 1) * limit;
+
+  // Get total count for pagination
+  const total = await SecurityEvent.countDocuments(query);
+
+  // Fetch paginated events
+  const events = await SecurityEvent.find(query)
+    .populate("user", "name email")
+    .sort({ createdAt: -1 })
+    .skip(skip)
+    .limit(limit);
+
+  return {
+    events: events.map(formatSecurityEvent),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+};
@@ -0,0 +1,199 @@
+import mongoose from "mongoose";
+import Session from "../models/session.model";
+import User from "../models/user.model";
+import { SessionTokens, SessionMetadata } from "../types/session.types";
+import { isValidObjectId } from "../utils/validation";
+import { generateToken } from "../utils/jwt";
+import { generateRandomToken, hashToken } from "../utils/password";
+import { readPositiveInt } from "../utils/env";
+import { SecurityEventType } from "../models/securityEvent.model";
+import { recordSecurityEvent } from "./securityEvent.service";
+
+export const REFRESH_TOKEN_EXPIRES_DAYS = readPositiveInt("REFRESH_TOKEN_EXPIRES_DAYS", 7);
+
+// Absolute session lifetime counted from login; refreshing never extends a session past it
+export const SESSION_MAX_AGE_DAYS = readPositiveInt("SESSION_MAX_AGE_DAYS", 30);
+
+// Rotated-out refresh tokens kept per session for reuse detection (oldest are dropped)
+const MAX_PREVIOUS_REFRESH_TOKENS = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Helper to get the end of a session's absolute lifetime
+const getSessionDeadline = (createdAt: Date): Date => {
+  return new Date(createdAt.getTime() + SESSION_MAX_AGE_DAYS * DAY_MS);
+};
+
+// Helper to get the refresh expiry for a session, capped by its absolute lifetime
+const getRefreshExpiry = (createdAt: Date = new Date()): Date => {
+  const expiry = new Date(Date.now() + REFRESH_TOKEN_EXPIRES_DAYS * DAY_MS);
+  const deadline = getSessionDeadline(createdAt);
+  return expiry < deadline ? expiry : deadline;
+};
+
+/**
+ * Start a new session for a user and issue its first token pair
+ */
+export const createSession = async (
+  userId: string,
+  email: string,
+  metadata: SessionMetadata = {}
+): Promise<SessionTokens> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  const refreshToken = generateRandomToken();
+  const session = await Session.create({
+    user: new mongoose.Types.ObjectId(userId),
+    refreshTokenHash: hashToken(refreshToken),
+    expiresAt: getRefreshExpiry(),
+    userAgent: metadata.userAgent,
+    ip: metadata.ip,
+  });
+
+  const accessToken = generateToken({
+    userId,
+    email,
+    sessionId: String(session._id),
+  });
+
+  return { accessToken, refreshToken, expiresAt: session.expiresAt };
+};
+
+/**
+ * Exchange a refresh token for a new token pair. The refresh token is rotated on
+ * every use; presenting an already-rotated token revokes the whole session since
+ * it means the token was copied.
+ */
+export const refreshSession = async (
+  refreshToken: string,
+  metadata: SessionMetadata = {}
+): Promise<SessionTokens> => {
+  const tokenHash = hashToken(refreshToken);
+  const now = new Date();
+
+  const session = await Session.findOne({ refreshTokenHash: tokenHash });
+
+  if (!session) {
+    // Reuse of a rotated token - kill the session it belonged to
+    const reusedSession = await Session.findOne({ previousRefreshTokenHashes: tokenHash });
+    if (reusedSession && !reusedSession.revokedAt) {
+      reusedSession.revokedAt = now;
+      await reusedSession.save();
+
+      await recordSecurityEvent({
+        type: SecurityEventType.REFRESH_TOKEN_REUSED,
+        userId: String(reusedSession.user),
+        ip: metadata.ip,
+        userAgent: metadata.userAgent,
+        details: { sessionId: String(reusedSession._id) },
+      });
+    }
+    throw new Error("Invalid or expired refresh token");
+  }
+
+  if (session.revokedAt || session.expiresAt <= now || getSessionDeadline(session.createdAt) <= now) {
+    throw new Error("Invalid or expired refresh token");
+  }
+
+  const user = await User.findById(session.user);
+  if (!user || user.deactivatedAt) {
+    throw new Error("Invalid or expired refresh token");
+  }
+
+  const nextRefreshToken = generateRandomToken();
+
+  // Rotate atomically so two concurrent refreshes cannot both succeed
+  const rotated = await Session.findOneAndUpdate(
+    { _id: session._id, refreshTokenHash: tokenHash, revokedAt: null },
+    {
+      refreshTokenHash: hashToken(nextRefreshToken),
+      $push: { previousRefreshTokenHashes: { $each: [tokenHash], $slice: -MAX_PREVIOUS_REFRESH_TOKENS } },
+      expiresAt: getRefreshExpiry(session.createdAt),
+      lastUsedAt: now,
+      ...(metadata.userAgent && { userAgent: metadata.userAgent }),
+      ...(metadata.ip && { ip: metadata.ip }),
+    },
+    { new: true }
+  );
+
+  if (!rotated) {
+    throw new Error("Invalid or expired refresh token");
+  }
+
+  const accessToken = generateToken({
+    userId: String(user._id),
+    email: user.email,
+    sessionId: String(rotated._id),
+  });
+
+  return { accessToken, refreshToken: nextRefreshToken, expiresAt: rotated.expiresAt };
+};
+
+/**
+ * Check whether the session behind an access token is still valid
+ */
+export const isSessionActive = async (sessionId: string): Promise<boolean> => {
+  if (!isValidObjectId(sessionId)) {
+    return false;
+  }
+
+  const session = await Session.findById(sessionId).select("revokedAt expiresAt");
+  return !!session && !session.revokedAt && session.expiresAt > new Date();
+};
+
+/**
+ * Revoke a single session (logout)
+ */
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  if (!isValidObjectId(sessionId)) {
+    throw new Error("Invalid session ID format");
+  }
+
+  await Session.updateOne({ _id: sessionId, revokedAt: null }, { revokedAt: new Date() });
+};
+
+/**
+ * Revoke every active session of a user except one (e.g. after a password change,
+ * keep the session that made the change)
+ */
+export const revokeOtherSessionsForUser = async (userId: string, keepSessionId?: string): Promise<{ count: number }> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  const filter: Record<string, unknown> = { user: new mongoose.Types.ObjectId(userId), revokedAt: null };
+  if (keepSessionId && isValidObjectId(keepSessionId)) {
+    filter._id = { $ne: new mongoose.Types.ObjectId(keepSessionId) };
+  }
+
+  const result = await Session.updateMany(filter, { revokedAt: new Date() });
+
+  return {
+    count: result.modifiedCount,
+  };
+};
+
+/**
+ * Revoke every active session of a user
+ */
+export const revokeAllSessionsForUser = async (userId: string): Promise<{ count: number }> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const result = await Session.updateMany(
+    { user: new mongoose.Types.ObjectId(userId), revokedAt: null },
+    { revokedAt: new Date() }
+  );
+
+  return {
+    count: result.modifiedCount,
+  };
+};
@@ -0,0 +1,187 @@
+import mongoose from "mongoose";
+import PersonalAccessToken from "../models/personalAccessToken.model";
+import User from "../models/user.model";
+import {
+  CreateTokenDto,
+  UpdateTokenDto,
+  TokenResponse,
+  CreatedTokenResponse,
+  TokenIdentity,
+} from "../types/token.types";
+import { isValidObjectId } from "../utils/validation";
+import { generateRandomToken, hashToken } from "../utils/password";
+import { tokenScopes, hasPermission } from "../config/permissions";
+
+export const TOKEN_PREFIX = "bxt_";
+
+// Only write lastUsedAt once per minute per token to avoid a write on every request
+const LAST_USED_WRITE_INTERVAL_MS = 60 * 1000;
+
+// Helper to format token response (never includes the hash)
+const formatToken = (token: any): TokenResponse => {
+  return {
+    _id: String(token._id),
+    name: token.name,
+    scopes: token.scopes,
+    tokenPrefix: token.tokenPrefix,
+    expiresAt: token.expiresAt,
+    lastUsedAt: token.lastUsedAt,
+    lastUsedIp: token.lastUsedIp,
+    revokedAt: token.revokedAt,
+    createdAt: token.createdAt,
+  };
+};
+
+export const isPersonalAccessToken = (token: string): boolean => {
+  return token.startsWith(TOKEN_PREFIX);
+};
+
+export const createToken = async (userId: string, createDto: CreateTokenDto): Promise<CreatedTokenResponse> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  if (!createDto.name || !createDto.name.trim()) {
+    throw new Error("Token name is required");
+  }
+
+  if (!Array.isArray(createDto.scopes) || createDto.scopes.length === 0) {
+    throw new Error("At least one scope is required");
+  }
+
+  const invalidScopes = createDto.scopes.filter((scope) => !tokenScopes.includes(scope));
+  if (invalidScopes.length > 0) {
+    throw new Error(`Invalid scope: ${invalidScopes.join(", ")}. Must be one of: ${tokenScopes.join(", ")}`);
+  }
+
+  if (createDto.expiresInDays !== undefined && (!Number.isInteger(createDto.expiresInDays) || createDto.expiresInDays < 1)) {
+    throw new Error("Invalid expiresInDays. Must be a positive whole number of days");
+  }
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  // A token can never grant more than its owner's role allows
+  const forbiddenScopes = createDto.scopes.filter((scope) => !hasPermission(user.role, scope));
+  if (forbiddenScopes.length > 0) {
+    throw new Error(`Your role does not allow scope: ${forbiddenScopes.join(", ")}`);
+  }
+
+  const rawToken = `${TOKEN_PREFIX}${generateRandomToken()}`;
+
+  const token = await PersonalAccessToken.create({
+    user: new mongoose.Types.ObjectId(userId),
+    name: createDto.name.trim(),
+    scopes: [...new Set(createDto.scopes)],
+    tokenHash: hashToken(rawToken),
+    tokenPrefix: rawToken.substring(0, TOKEN_PREFIX.length + 6),
+    expiresAt: createDto.expiresInDays
+      ? new Date(Date.now() + createDto.expiresInDays * 24 * 60 * 60 * 1000)
+      : null,
+  });
+
+  return {
+    ...formatToken(token),
+    token: rawToken,
+  };
+};
+
+export const getTokens = async (userId: string): Promise<TokenResponse[]> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  const tokens = await PersonalAccessToken.find({ user: new mongoose.Types.ObjectId(userId) }).sort({
+    createdAt: -1,
+  });
+
+  return tokens.map(formatToken);
+};
+
+export const updateToken = async (
+  tokenId: string,
+  updateDto: UpdateTokenDto,
+  userId: string
+): Promise<TokenResponse> => {
+  if (!isValidObjectId(tokenId)) {
+    throw new Error("Invalid token ID format");
+  }
+
+  const token = await PersonalAccessToken.findById(tokenId);
+  if (!token) {
+    throw new Error("Token not found");
+  }
+
+  // Check if user owns the token
+  if (String(token.user) !== userId) {
+    throw new Error("You can only update your own tokens");
+  }
+
+  if (updateDto.name !== undefined) {
+    if (!updateDto.name.trim()) {
+      throw new Error("Token name is required");
+    }
+    token.name = updateDto.name.trim();
+  }
+
+  await token.save();
+
+  return formatToken(token);
+};
+
+export const revokeToken = async (tokenId: string, userId: string): Promise<TokenResponse> => {
+  if (!isValidObjectId(tokenId)) {
+    throw new Error("Invalid token ID format");
+  }
+
+  const token = await PersonalAccessToken.findById(tokenId);
+  if (!token) {
+    throw new Error("Token not found");
+  }
+
+  // Check if user owns the token
+  if (String(token.user) !== userId) {
+    throw new Error("You can only revoke your own tokens");
+  }
+
+  if (!token.revokedAt) {
+    token.revokedAt = new Date();
+    await token.save();
+  }
+
+  return formatToken(token);
+};
+
+/**
+ * Resolve a raw personal access token to its owner, or null if it is unknown,
+ * revoked or expired. Records when and from where the token was last used.
+ */
+export const verifyPersonalAccessToken = async (rawToken: string, ip?: string): Promise<TokenIdentity | null> => {
+  const token = await PersonalAccessToken.findOne({ tokenHash: hashToken(rawToken) });
+  if (!token || token.revokedAt) {
+    return null;
+  }
+
+  const now = new Date();
+  if (token.expiresAt && token.expiresAt <= now) {
+    return null;
+  }
+
+  const user = await User.findById(token.user).select("email deactivatedAt");
+  if (!user || user.deactivatedAt) {
+    return null;
+  }
+
+  if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() > LAST_USED_WRITE_INTERVAL_MS) {
+    await PersonalAccessToken.updateOne({ _id: token._id }, { lastUsedAt: now, lastUsedIp: ip });
+  }
+
+  return {
+    userId: String(token.user),
+    email: user.email,
+    tokenId: String(token._id),
+    scopes: token.scopes,
+  };
+};
@@ -0,0 +1,418 @@
+import mongoose from "mongoose";
+import User, { Role } from "../models/user.model";
+import Issue, { StatusCategory } from "../models/issue.model";
+import Project from "../models/project.model";
+import {
+  CreateUserDto,
+  UpdateProfileDto,
+  DeactivateUserDto,
+  DeactivateUserResponse,
+  UserResponse,
+  UserFilters,
+  PaginatedUsers,
+  UserIssueCounts,
+  UserProfileResponse,
+} from "../types/user.types";
+import { isValidObjectId, escapeRegex } from "../utils/validation";
+import { hashPassword, MIN_PASSWORD_LENGTH } from "../utils/password";
+import { sendMail } from "../utils/mail";
+import { createNotification, getIssueLink } from "../utils/notifications";
+import { NotificationType } from "../models/notification.model";
+import { formatUser, createMagicLinkUrl } from "./auth.service";
+import { revokeAllSessionsForUser } from "./session.service";
+import { ActivityType } from "../models/issueActivity.model";
+import { recordActivity, toActivityRef } from "./activity.service";
+import { getAccessibleProjectIds } from "./project.service";
+
+const INVITE_EXPIRES_HOURS = parseInt(process.env.INVITE_EXPIRES_HOURS || "72", 10);
+
+const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const getAllUsers = async (includeDeactivated: boolean = false): Promise<UserResponse[]> => {
+  // Deactivated users are hidden by default so they drop out of assignee pickers
+  const query = includeDeactivated ? {} : { deactivatedAt: null };
+  const users = await User.find(query).sort({ createdAt: -1 });
+
+  return users.map(formatUser);
+};
+
+export const createUser = async (createDto: CreateUserDto): Promise<UserResponse> => {
+  if (!createDto.name || !createDto.name.trim()) {
+    throw new Error("Name is required");
+  }
+
+  if (!createDto.email || !emailRegex.test(createDto.email)) {
+    throw new Error("Invalid email format");
+  }
+
+  if (createDto.role !== undefined && !Object.values(Role).includes(createDto.role)) {
+    throw new Error(`Invalid role. Must be one of: ${Object.values(Role).join(", ")}`);
+  }
+
+  if (createDto.password !== undefined && createDto.password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+
+  const email = createDto.email.toLowerCase().trim();
+  const existing = await User.findOne({ email });
+  if (existing) {
+    throw new Error("A user with this email already exists");
+  }
+
+  const user = await User.create({
+    name: createDto.name.trim(),
+    email,
+    role: createDto.role || Role.MEMBER,
+    ...(createDto.profileImage && { profileImage: createDto.profileImage }),
+    ...(createDto.password && {
+      passwordHash: await hashPassword(createDto.password),
+      passwordChangedAt: new Date(),
+    }),
+  });
+
+  return formatUser(user);
+};
+
+/**
+ * Search users by name/email prefix with pagination
+ */
+export const searchUsers = async (filters: UserFilters): Promise<PaginatedUsers> => {
+  const query: any = {};
+
+  if (!filters.includeDeactivated) {
+    query.deactivatedAt = null;
+  }
+
+  if (filters.search && filters.search.trim()) {
+    const prefix = new RegExp(`^${escapeRegex(filters.search.trim())}`, "i");
+    query.$or = [{ name: prefix }, { email: prefix }];
+  }
+
+  // Pagination
+  const page = filters.page || 1;
+  const limit = filters.limit || 10;
+  const skip = (page - 1) * limit;
+
+  // Get total count for pagination
+  const total = await User.countDocuments(query);
+
+  // Fetch paginated users, alphabetical for pickers and autocompletion
+  const users = await User.find(query).sort({ name: 1, _id: 1 }).skip(skip).limit(limit);
+
+  return {
+    users: users.map(formatUser),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+};
+
+// Helper to count a user's issues by status for a given field (assignee or createdBy),
+// limited to the given projects (null means every project)
+const countIssuesByStatus = async (
+  field: "assignee" | "createdBy",
+  userId: mongoose.Types.ObjectId,
+  projectIds: mongoose.Types.ObjectId[] | null
+): Promise<UserIssueCounts> => {
+  const statusCounts = await Issue.aggregate([
+    {
+      $match: {
+        [field]: userId,
+        archivedAt: null,
+        ...(projectIds !== null && { project: { $in: projectIds } }),
+      },
+    },
+    {
+      $group: {
+        _id: { status: "$status", category: "$statusCategory" },
+        count: { $sum: 1 },
+      },
+    },
+  ]);
+
+  const byStatus: Record<string, number> = {};
+  const byStatusCategory = {
+    [StatusCategory.OPEN]: 0,
+    [StatusCategory.IN_PROGRESS]: 0,
+    [StatusCategory.DONE]: 0,
+  };
+
+  let total = 0;
+  statusCounts.forEach((item) => {
+    byStatus[item._id.status] = (byStatus[item._id.status] || 0) + item.count;
+    byStatusCategory[item._id.category as StatusCategory] += item.count;
+    total += item.count;
+  });
+
+  return { total, byStatus, byStatusCategory };
+};
+
+/**
+ * Get a user's profile with counts of issues assigned to and created by them.
+ * Only issues in projects the requester can see are counted.
+ */
+export const getUserProfile = async (
+  userId: string,
+  requesterId: string,
+  requesterRole?: Role
+): Promise<UserProfileResponse> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  const userIdObj = new mongoose.Types.ObjectId(userId);
+  const projectIds = await getAccessibleProjectIds(requesterId, requesterRole);
+  const [assigned, created] = await Promise.all([
+    countIssuesByStatus("assignee", userIdObj, projectIds),
+    countIssuesByStatus("createdBy", userIdObj, projectIds),
+  ]);
+
+  return {
+    ...formatUser(user),
+    stats: {
+      assigned,
+      created,
+    },
+  };
+};
+
+/**
+ * Create a user without a password and email them a sign-in link
+ */
+export const inviteUser = async (
+  createDto: Omit<CreateUserDto, "password">,
+  inviterId: string
+): Promise<UserResponse> => {
+  const inviter = await User.findById(inviterId);
+  if (!inviter) {
+    throw new Error("Inviter user not found");
+  }
+
+  const user = await createUser({ ...createDto, password: undefined });
+  const link = await createMagicLinkUrl(user._id, INVITE_EXPIRES_HOURS * 60);
+
+  await sendMail({
+    to: user.email,
+    subject: `${inviter.name} invited you to BXTrack`,
+    text: `Hi ${user.name},\n\n${inviter.name} has invited you to BXTrack. Use the link below to sign in, then set a password from your profile. The link expires in ${INVITE_EXPIRES_HOURS} hours and can only be used once.\n\n${link}`,
+  });
+
+  return user;
+};
+
+/**
+ * Self-service profile update for the logged-in user
+ */
+export const updateProfile = async (userId: string, updateDto: UpdateProfileDto): Promise<UserResponse> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  if (updateDto.name !== undefined) {
+    if (!updateDto.name.trim()) {
+      throw new Error("Name is required");
+    }
+    user.name = updateDto.name.trim();
+  }
+
+  if (updateDto.profileImage !== undefined) {
+    // null or empty string removes the profile image
+    user.profileImage = updateDto.profileImage ? updateDto.profileImage.trim() : undefined;
+  }
+
+  await user.save();
+
+  return formatUser(user);
+};
+
+/**
+ * Change a user's role. The last remaining admin cannot be demoted.
+ */
+export const updateUserRole = async (userId: string, role: Role): Promise<UserResponse> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  if (!Object.values(Role).includes(role)) {
+    throw new Error(`Invalid role. Must be one of: ${Object.values(Role).join(", ")}`);
+  }
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  if (user.role === Role.ADMIN && role !== Role.ADMIN) {
+    const adminCount = await User.countDocuments({ role: Role.ADMIN, deactivatedAt: null });
+    if (adminCount <= 1) {
+      throw new Error("Cannot remove the last admin");
+    }
+  }
+
+  user.role = role;
+  await user.save();
+
+  return formatUser(user);
+};
+
+/**
+ * Deactivate a user: they can no longer sign in, their sessions are revoked and
+ * they are hidden from the user list. Their open issues are reported and, if
+ * `reassignTo` is given, handed to another user (or unassigned when null).
+ */
+export const deactivateUser = async (
+  userId: string,
+  actorId: string,
+  deactivateDto: DeactivateUserDto = {}
+): Promise<DeactivateUserResponse> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  if (userId === actorId) {
+    throw new Error("You cannot deactivate your own account");
+  }
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  if (user.deactivatedAt) {
+    throw new Error("User is already deactivated");
+  }
+
+  if (user.role === Role.ADMIN) {
+    const adminCount = await User.countDocuments({ role: Role.ADMIN, deactivatedAt: null });
+    if (adminCount <= 1) {
+      throw new Error("Cannot remove the last admin");
+    }
+  }
+
+  // Validate the new assignee before changing anything
+  let reassignToId: mongoose.Types.ObjectId | null = null;
+  let newAssignee = null;
+  if (deactivateDto.reassignTo) {
+    if (!isValidObjectId(deactivateDto.reassignTo)) {
+      throw new Error("Invalid reassignTo user ID format");
+    }
+    if (deactivateDto.reassignTo === userId) {
+      throw new Error("Invalid reassignTo: cannot reassign to the user being deactivated");
+    }
+    newAssignee = await User.findById(deactivateDto.reassignTo);
+    if (!newAssignee) {
+      throw new Error("Reassign target user not found");
+    }
+    if (newAssignee.deactivatedAt) {
+      throw new Error("Invalid reassignTo: user is deactivated");
+    }
+    reassignToId = new mongoose.Types.ObjectId(deactivateDto.reassignTo);
+  }
+
+  const openIssues = await Issue.find({
+    assignee: user._id,
+    statusCategory: { $ne: StatusCategory.DONE },
+    archivedAt: null,
+  })
+    .select("key title status priority project")
+    .sort({ createdAt: -1 });
+
+  // The new assignee has to belong to every project the issues are in
+  if (reassignToId && openIssues.length > 0) {
+    const projectIds = [...new Set(openIssues.map((issue) => String(issue.project)))];
+    const memberProjects = await Project.countDocuments({ _id: { $in: projectIds }, members: reassignToId });
+    if (memberProjects !== projectIds.length) {
+      throw new Error("Invalid reassignTo: user is not a member of every project these issues belong to");
+    }
+  }
+
+  user.deactivatedAt = new Date();
+  await user.save();
+
+  await revokeAllSessionsForUser(userId);
+
+  const reassigned = deactivateDto.reassignTo !== undefined && openIssues.length > 0;
+  if (reassigned) {
+    await Issue.updateMany(
+      { _id: { $in: openIssues.map((issue) => issue._id) } },
+      {
+        // The new assignee gets their own due date reminders and watches the issues
+        $set: { assignee: reassignToId, dueSoonNotifiedAt: null, overdueNotifiedAt: null },
+        ...(reassignToId ? { $addToSet: { watchers: reassignToId } } : {}),
+        $inc: { __v: 1 },
+      }
+    );
+
+    await recordActivity(
+      openIssues.map((issue) => ({
+        issueId: issue._id as mongoose.Types.ObjectId,
+        actorId,
+        type: ActivityType.FIELD_CHANGED,
+        field: "assignee",
+        oldValue: toActivityRef(user),
+        newValue: toActivityRef(newAssignee),
+      }))
+    );
+
+    if (reassignToId) {
+      const actor = await User.findById(actorId);
+      const actorName = actor ? actor.name : "Someone";
+
+      for (const issue of openIssues) {
+        await createNotification({
+          recipientId: reassignToId,
+          title: "Issue Assigned",
+          description: `${actorName} has assigned you to issue: "${issue.title}" (previously assigned to ${user.name})`,
+          type: NotificationType.ISSUE_ASSIGNED,
+          link: getIssueLink(issue),
+        });
+      }
+    }
+  }
+
+  return {
+    user: formatUser(user),
+    openIssues: openIssues.map((issue) => ({
+      _id: String(issue._id),
+      title: issue.title,
+      status: issue.status,
+      priority: issue.priority,
+    })),
+    reassigned,
+    reassignedTo: reassigned && reassignToId ? String(reassignToId) : null,
+  };
+};
+
+/**
+ * Reactivate a previously deactivated user
+ */
+export const reactivateUser = async (userId: string): Promise<UserResponse> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  const user = await User.findById(userId);
+  if (!user) {
+    throw new Error("User not found");
+  }
+
+  if (!user.deactivatedAt) {
+    throw new Error("User is not deactivated");
+  }
+
+  user.deactivatedAt = null;
+  await user.save();
+
+  return formatUser(user);
+};
@@ -0,0 +1,125 @@
+import mongoose from "mongoose";
+import Issue from "../models/issue.model";
+import User, { Role } from "../models/user.model";
+import { NotificationType } from "../models/notification.model";
+import { IssueWatcher, IssueWatchersResponse } from "../types/watcher.types";
+import { isValidObjectId } from "../utils/validation";
+import { createNotificationsForUsers, getIssueLink } from "../utils/notifications";
+import { assertIssueAccess } from "./project.service";
+
+type UserId = string | mongoose.Types.ObjectId | null | undefined;
+
+interface WatcherNotificationParams {
+  title: string;
+  description: string;
+  type: NotificationType;
+}
+
+// Helper to load an issue the user can see
+const loadIssue = async (issueId: string, userId?: string, role?: Role) => {
+  if (!isValidObjectId(issueId)) {
+    throw new Error("Invalid issue ID format");
+  }
+
+  const issue = await Issue.findById(issueId);
+  if (!issue) {
+    throw new Error("Issue not found");
+  }
+
+  await assertIssueAccess(issue, userId, role);
+
+  return issue;
+};
+
+/**
+ * Subscribe users to an issue. Used to auto-subscribe people taking part in it;
+ * users already watching are left alone.
+ */
+export const addWatchers = async (issueId: string | mongoose.Types.ObjectId, userIds: UserId[]): Promise<void> => {
+  const ids = [...new Set(userIds.filter(Boolean).map(String))].map((id) => new mongoose.Types.ObjectId(id));
+  if (ids.length === 0) {
+    return;
+  }
+
+  await Issue.updateOne({ _id: issueId }, { $addToSet: { watchers: { $each: ids } } }, { timestamps: false });
+};
+
+/**
+ * IDs of the active users watching an issue, except the actor
+ */
+export const getWatcherRecipients = async (
+  issueId: string | mongoose.Types.ObjectId,
+  actorId?: UserId
+): Promise<string[]> => {
+  const issue = await Issue.findById(issueId).select("watchers");
+  if (!issue || issue.watchers.length === 0) {
+    return [];
+  }
+
+  const users = await User.find({ _id: { $in: issue.watchers }, deactivatedAt: null }).select("_id");
+  const actor = actorId ? String(actorId) : null;
+
+  return users.map((user) => String(user._id)).filter((id) => id !== actor);
+};
+
+/**
+ * Notify everyone watching an issue about something the actor did. Users in
+ * `excludeIds` already got a more specific notification.
+ */
+export const notifyWatchers = async (
+  issueId: string | mongoose.Types.ObjectId,
+  actorId: UserId,
+  params: WatcherNotificationParams,
+  excludeIds: string[] = []
+): Promise<void> => {
+  const recipientIds = (await getWatcherRecipients(issueId, actorId)).filter((id) => !excludeIds.includes(id));
+  const issue = await Issue.findById(issueId).select("key");
+
+  await createNotificationsForUsers(recipientIds, {
+    ...params,
+    link: getIssueLink(issue || { _id: issueId }),
+  });
+};
+
+export const getIssueWatchers = async (
+  issueId: string,
+  userId: string,
+  role?: Role
+): Promise<IssueWatchersResponse> => {
+  const issue = await loadIssue(issueId, userId, role);
+
+  const users = await User.find({ _id: { $in: issue.watchers }, deactivatedAt: null })
+    .select("name email profileImage")
+    .sort({ name: 1 });
+
+  const watchers: IssueWatcher[] = users.map((user) => ({
+    _id: String(user._id),
+    name: user.name,
+    email: user.email,
+    profileImage: user.profileImage,
+  }));
+
+  return {
+    watching: watchers.some((watcher) => watcher._id === userId),
+    watchers,
+  };
+};
+
+export const watchIssue = async (issueId: string, userId: string, role?: Role): Promise<IssueWatchersResponse> => {
+  const issue = await loadIssue(issueId, userId, role);
+  await addWatchers(issue._id as mongoose.Types.ObjectId, [userId]);
+  return getIssueWatchers(issueId, userId, role);
+};
+
+/**
+ * Stop watching an issue. Commenting, being mentioned or being assigned again subscribes the user again.
+ */
+export const unwatchIssue = async (issueId: string, userId: string, role?: Role): Promise<IssueWatchersResponse> => {
+  const issue = await loadIssue(issueId, userId, role);
+  await Issue.updateOne(
+    { _id: issue._id },
+    { $pull: { watchers: new mongoose.Types.ObjectId(userId) } },
+    { timestamps: false }
+  );
+  return getIssueWatchers(issueId, userId, role);
+};
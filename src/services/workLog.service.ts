@@ -0,0 +1,434 @@
+import mongoose from "mongoose";
+import WorkLog from "../models/workLog.model";
+import Issue from "../models/issue.model";
+import User, { Role } from "../models/user.model";
+import { ActivityType } from "../models/issueActivity.model";
+import {
+  CreateWorkLogDto,
+  PaginatedWorkLogs,
+  TimeReport,
+  TimeReportOptions,
+  UpdateWorkLogDto,
+  WorkLogResponse,
+} from "../types/workLog.types";
+import { isValidObjectId, parseDate } from "../utils/validation";
+import { DURATION_FORMAT_HINT, parseDuration, toEstimate } from "../utils/duration";
+import { DEFAULT_REPORT_DAYS, MAX_REPORT_DAYS, MAX_WORK_LOG_MINUTES } from "../config/timeTracking";
+import { Permission, hasPermission } from "../config/permissions";
+import { recordActivity } from "./activity.service";
+import { assertIssueAccess, getAccessibleProject, getAccessibleProjectIds } from "./project.service";
+
+const MAX_NOTE_LENGTH = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Helper to format work log response with populated user
+const formatWorkLog = (workLog: any): WorkLogResponse => {
+  return {
+    _id: String(workLog._id),
+    issue: String(workLog.issue),
+    user: workLog.user?.name
+      ? {
+          _id: String(workLog.user._id),
+          name: workLog.user.name,
+          email: workLog.user.email,
+          profileImage: workLog.user.profileImage,
+        }
+      : null,
+    duration: workLog.duration,
+    date: workLog.date,
+    note: workLog.note,
+    createdAt: workLog.createdAt,
+    updatedAt: workLog.updatedAt,
+  };
+};
+
+// Helper to validate the time a log records
+const validateDuration = (value: unknown): number => {
+  const minutes = parseDuration(value);
+  if (minutes === null || minutes < 1) {
+    throw new Error(`Invalid duration. ${DURATION_FORMAT_HINT}`);
+  }
+  if (minutes > MAX_WORK_LOG_MINUTES) {
+    throw new Error(`Invalid duration. A single work log can be at most ${MAX_WORK_LOG_MINUTES / 60}h`);
+  }
+  return minutes;
+};
+
+// Helper to validate the day the work was done. Allows a day of slack for clients ahead of UTC.
+const validateDate = (value: unknown): Date => {
+  const date = typeof value === "string" ? parseDate(value) : null;
+  if (!date) {
+    throw new Error("Invalid date. Must be an ISO 8601 date such as 2025-03-31 or a date-time");
+  }
+  if (date.getTime() > Date.now() + DAY_MS) {
+    throw new Error("Invalid date. Time cannot be logged in the future");
+  }
+  return date;
+};
+
+const validateNote = (value: unknown): string => {
+  if (typeof value !== "string") {
+    throw new Error("Invalid note. Must be a string");
+  }
+  const note = value.trim();
+  if (note.length > MAX_NOTE_LENGTH) {
+    throw new Error(`Invalid note. Must be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  return note;
+};
+
+/**
+ * Add `delta` minutes to the time spent on an issue and move its remaining estimate the other way
+ * (never below zero), or set the remaining estimate to `remainingEstimate` when given. Done in one
+ * update so concurrent logs never lose time. Returns the estimate before and after, for the activity log.
+ */
+const adjustIssueTime = async (
+  issueId: mongoose.Types.ObjectId,
+  delta: number,
+  remainingEstimate?: number | null
+): Promise<{ oldValue: number | null; newValue: number | null }> => {
+  const newRemaining =
+    remainingEstimate !== undefined
+      ? remainingEstimate
+      : {
+          $cond: [
+            { $eq: [{ $ifNull: ["$remainingEstimate", null] }, null] },
+            null,
+            { $max: [0, { $subtract: ["$remainingEstimate", delta] }] },
+          ],
+        };
+
+  // Changing the estimate is an edit of the issue, so it bumps the version used by If-Match
+  const previous = await Issue.findOneAndUpdate(
+    { _id: issueId },
+    [
+      {
+        $set: {
+          timeSpent: { $max: [0, { $add: [{ $ifNull: ["$timeSpent", 0] }, delta] }] },
+          remainingEstimate: newRemaining,
+          __v: {
+            $cond: [
+              { $eq: [newRemaining, { $ifNull: ["$remainingEstimate", null] }] },
+              "$__v",
+              { $add: [{ $ifNull: ["$__v", 0] }, 1] },
+            ],
+          },
+        },
+      },
+    ],
+    { timestamps: false }
+  ).select("remainingEstimate");
+
+  const oldValue = previous?.remainingEstimate ?? null;
+  const newValue =
+    remainingEstimate !== undefined ? remainingEstimate : oldValue === null ? null : Math.max(0, oldValue - delta);
+  return { oldValue, newValue };
+};
+
+// Helper to record a changed remaining estimate in the issue's activity log
+const recordEstimateChange = async (
+  issueId: mongoose.Types.ObjectId,
+  userId: string,
+  estimate: { oldValue: number | null; newValue: number | null }
+): Promise<void> => {
+  if (estimate.oldValue === estimate.newValue) {
+    return;
+  }
+  await recordActivity({
+    issueId,
+    actorId: userId,
+    type: ActivityType.FIELD_CHANGED,
+    field: "remainingEstimate",
+    ...estimate,
+  });
+};
+
+// Helper to load a work log and its issue, checking the user can see the issue
+const loadWorkLog = async (workLogId: string, userId: string, role?: Role) => {
+  if (!isValidObjectId(workLogId)) {
+    throw new Error("Invalid work log ID format");
+  }
+
+  const workLog = await WorkLog.findById(workLogId);
+  if (!workLog) {
+    throw new Error("Work log not found");
+  }
+
+  const issue = await Issue.findById(workLog.issue).select("project");
+  if (!issue) {
+    throw new Error("Work log not found");
+  }
+
+  try {
+    await assertIssueAccess(issue, userId, role);
+  } catch {
+    throw new Error("Work log not found");
+  }
+
+  return workLog;
+};
+
+// Helper to check that a user may change or delete a work log
+const assertCanChange = (workLog: any, userId: string, role?: Role): void => {
+  if (String(workLog.user) !== userId && !hasPermission(role, Permission.WORKLOGS_MANAGE_ANY)) {
+    throw new Error("You can only change time you logged yourself");
+  }
+};
+
+/**
+ * Get the time logged on an issue, most recent work first
+ */
+export const getWorkLogs = async (
+  issueId: string,
+  page: number = 1,
+  limit: number = 20,
+  userId?: string,
+  role?: Role
+): Promise<PaginatedWorkLogs> => {
+  if (!isValidObjectId(issueId)) {
+    throw new Error("Invalid issue ID format");
+  }
+
+  const issue = await Issue.findById(issueId).select("project");
+  if (!issue) {
+    throw new Error("Issue not found");
+  }
+
+  await assertIssueAccess(issue, userId, role);
+
+  const skip = (page - 1) * limit;
+  const query = { issue: issue._id };
+
+  const total = await WorkLog.countDocuments(query);
+  const workLogs = await WorkLog.find(query)
+    .populate("user", "name email profileImage")
+    .sort({ date: -1, _id: -1 })
+    .skip(skip)
+    .limit(limit);
+
+  return {
+    workLogs: workLogs.map(formatWorkLog),
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit),
+  };
+};
+
+/**
+ * Log time on an issue. The issue's remaining estimate goes down by the logged time
+ * unless a new `remainingEstimate` is given.
+ */
+export const addWorkLog = async (
+  issueId: string,
+  createDto: CreateWorkLogDto,
+  userId: string,
+  role?: Role
+): Promise<WorkLogResponse> => {
+  if (!isValidObjectId(issueId)) {
+    throw new Error("Invalid issue ID format");
+  }
+
+  const issue = await Issue.findById(issueId).select("project");
+  if (!issue) {
+    throw new Error("Issue not found");
+  }
+
+  await assertIssueAccess(issue, userId, role);
+
+  if (createDto.duration === undefined || createDto.duration === null) {
+    throw new Error("Duration is required");
+  }
+  const duration = validateDuration(createDto.duration);
+  const date = createDto.date !== undefined ? validateDate(createDto.date) : new Date();
+  const note = createDto.note !== undefined ? validateNote(createDto.note) : "";
+  const remainingEstimate =
+    createDto.remainingEstimate !== undefined ? toEstimate(createDto.remainingEstimate, "remainingEstimate") : undefined;
+
+  const workLog = await WorkLog.create({
+    issue: issue._id,
+    user: new mongoose.Types.ObjectId(userId),
+    duration,
+    date,
+    note,
+  });
+
+  const issueObjectId = issue._id as mongoose.Types.ObjectId;
+  const estimate = await adjustIssueTime(issueObjectId, duration, remainingEstimate);
+
+  await recordActivity({
+    issueId: issueObjectId,
+    actorId: userId,
+    type: ActivityType.WORK_LOGGED,
+    newValue: { _id: String(workLog._id), duration, date },
+  });
+  await recordEstimateChange(issueObjectId, userId, estimate);
+
+  await workLog.populate("user", "name email profileImage");
+  return formatWorkLog(workLog);
+};
+
+/**
+ * Change the duration, date or note of a work log. A changed duration moves the issue's
+ * time spent and remaining estimate by the difference.
+ */
+export const updateWorkLog = async (
+  workLogId: string,
+  updateDto: UpdateWorkLogDto,
+  userId: string,
+  role?: Role
+): Promise<WorkLogResponse> => {
+  const workLog = await loadWorkLog(workLogId, userId, role);
+  assertCanChange(workLog, userId, role);
+
+  const previous = { duration: workLog.duration, date: workLog.date, note: workLog.note };
+
+  if (updateDto.duration !== undefined) {
+    workLog.duration = validateDuration(updateDto.duration);
+  }
+  if (updateDto.date !== undefined) {
+    workLog.date = validateDate(updateDto.date);
+  }
+  if (updateDto.note !== undefined) {
+    workLog.note = validateNote(updateDto.note);
+  }
+
+  await workLog.save();
+
+  const delta = workLog.duration - previous.duration;
+  if (delta !== 0) {
+    const estimate = await adjustIssueTime(workLog.issue, delta);
+    await recordEstimateChange(workLog.issue, userId, estimate);
+  }
+
+  if (delta !== 0 || previous.date.getTime() !== workLog.date.getTime() || previous.note !== workLog.note) {
+    await recordActivity({
+      issueId: workLog.issue,
+      actorId: userId,
+      type: ActivityType.WORK_LOG_EDITED,
+      oldValue: { _id: workLogId, duration: previous.duration, date: previous.date },
+      newValue: { _id: workLogId, duration: workLog.duration, date: workLog.date },
+    });
+  }
+
+  await workLog.populate("user", "name email profileImage");
+  return formatWorkLog(workLog);
+};
+
+/**
+ * Delete a work log, giving its time back to the issue's remaining estimate
+ */
+export const deleteWorkLog = async (workLogId: string, userId: string, role?: Role): Promise<{ _id: string }> => {
+  const workLog = await loadWorkLog(workLogId, userId, role);
+  assertCanChange(workLog, userId, role);
+
+  await WorkLog.deleteOne({ _id: workLog._id });
+
+  const estimate = await adjustIssueTime(workLog.issue, -workLog.duration);
+
+  await recordActivity({
+    issueId: workLog.issue,
+    actorId: userId,
+    type: ActivityType.WORK_LOG_DELETED,
+    oldValue: { _id: workLogId, duration: workLog.duration, date: workLog.date },
+  });
+  await recordEstimateChange(workLog.issue, userId, estimate);
+
+  return { _id: workLogId };
+};
+
+/**
+ * Total the time logged in a date range, by user and by issue, over the projects the user
+ * can see (or one of them). Time on archived issues counts too.
+ */
+export const getTimeReport = async (
+  options: TimeReportOptions,
+  userId: string,
+  role?: Role
+): Promise<TimeReport> => {
+  const to = options.to !== undefined ? parseDate(options.to, true) : new Date();
+  if (!to) {
+    throw new Error("Invalid to. Must be an ISO 8601 date such as 2025-03-31 or a date-time");
+  }
+  const from =
+    options.from !== undefined ? parseDate(options.from) : new Date(to.getTime() - DEFAULT_REPORT_DAYS * DAY_MS);
+  if (!from) {
+    throw new Error("Invalid from. Must be an ISO 8601 date such as 2025-03-31 or a date-time");
+  }
+  if (from > to) {
+    throw new Error("Invalid range. from must be before to");
+  }
+  if (to.getTime() - from.getTime() > MAX_REPORT_DAYS * DAY_MS) {
+    throw new Error(`Invalid range. A report can cover at most ${MAX_REPORT_DAYS} days`);
+  }
+
+  if (options.user !== undefined && !isValidObjectId(options.user)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  let projectIds: mongoose.Types.ObjectId[] | null;
+  if (options.project !== undefined) {
+    const project = await getAccessibleProject(options.project, userId, role);
+    projectIds = [project._id as mongoose.Types.ObjectId];
+  } else {
+    projectIds = await getAccessibleProjectIds(userId, role);
+  }
+
+  const [result] = await WorkLog.aggregate([
+    {
+      $match: {
+        date: { $gte: from, $lte: to },
+        ...(options.user && { user: new mongoose.Types.ObjectId(options.user) }),
+      },
+    },
+    // Issues can move between projects, so the project comes from the issue as it is now
+    {
+      $lookup: {
+        from: Issue.collection.name,
+        localField: "issue",
+        foreignField: "_id",
+        pipeline: [{ $project: { project: 1, key: 1, title: 1 } }],
+        as: "issueDoc",
+      },
+    },
+    { $unwind: "$issueDoc" },
+    ...(projectIds !== null ? [{ $match: { "issueDoc.project": { $in: projectIds } } }] : []),
+    {
+      $facet: {
+        total: [{ $group: { _id: null, timeSpent: { $sum: "$duration" } } }],
+        byUser: [{ $group: { _id: "$user", timeSpent: { $sum: "$duration" } } }, { $sort: { timeSpent: -1, _id: 1 } }],
+        byIssue: [
+          {
+            $group: {
+              _id: "$issue",
+              key: { $first: "$issueDoc.key" },
+              title: { $first: "$issueDoc.title" },
+              timeSpent: { $sum: "$duration" },
+            },
+          },
+          { $sort: { timeSpent: -1, _id: 1 } },
+        ],
+      },
+    },
+  ]);
+
+  const users = await User.find({ _id: { $in: result.byUser.map((entry: any) => entry._id) } }).select("name email");
+  const usersById = new Map(users.map((user) => [String(user._id), user]));
+
+  return {
+    from,
+    to,
+    total: result.total[0]?.timeSpent ?? 0,
+    byUser: result.byUser.map((entry: any) => {
+      const user = usersById.get(String(entry._id));
+      return {
+        user: user ? { _id: String(user._id), name: user.name, email: user.email } : null,
+        timeSpent: entry.timeSpent,
+      };
+    }),
+    byIssue: result.byIssue.map((entry: any) => ({
+      issue: { _id: String(entry._id), key: entry.key || null, title: entry.title },
+      timeSpent: entry.timeSpent,
+    })),
+  };
+};
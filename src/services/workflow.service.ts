@@ -0,0 +1,406 @@
+import mongoose from "mongoose";
+import Workflow from "../models/workflow.model";
+import Project from "../models/project.model";
+import Issue, { StatusCategory } from "../models/issue.model";
+import {
+  CreateWorkflowDto,
+  UpdateWorkflowDto,
+  WorkflowResponse,
+  WorkflowStatusDto,
+  WorkflowTransitionDto,
+} from "../types/workflow.types";
+import { BUILT_IN_WORKFLOW } from "../config/workflow";
+import { isValidObjectId } from "../utils/validation";
+
+const MAX_WORKFLOW_NAME_LENGTH = 100;
+const MAX_STATUS_NAME_LENGTH = 50;
+const nameCollation = { locale: "en", strength: 2 };
+
+// Helper to format workflow response
+const formatWorkflow = (workflow: any, projectCount?: number): WorkflowResponse => {
+  return {
+    _id: String(workflow._id),
+    name: workflow.name,
+    description: workflow.description,
+    builtIn: false,
+    statuses: workflow.statuses.map((status: any) => ({ name: status.name, category: status.category })),
+    initialStatus: workflow.initialStatus,
+    transitions: workflow.transitions.map((transition: any) => ({
+      from: transition.from,
+      to: transition.to,
+      requireComment: !!transition.requireComment,
+    })),
+    ...(projectCount !== undefined && { projectCount }),
+    createdAt: workflow.createdAt,
+    updatedAt: workflow.updatedAt,
+  };
+};
+
+// Helper to validate a workflow name and make sure no other workflow already uses it
+const validateName = async (name: string, excludeId?: string): Promise<string> => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error("Workflow name is required");
+  }
+  if (trimmed.length > MAX_WORKFLOW_NAME_LENGTH) {
+    throw new Error(`Invalid workflow name. Must be at most ${MAX_WORKFLOW_NAME_LENGTH} characters`);
+  }
+  if (trimmed.toLowerCase() === BUILT_IN_WORKFLOW.name.toLowerCase()) {
+    throw new Error("A workflow with this name already exists");
+  }
+
+  const existing = await Workflow.findOne({
+    name: trimmed,
+    ...(excludeId && { _id: { $ne: excludeId } }),
+  }).collation(nameCollation);
+  if (existing) {
+    throw new Error("A workflow with this name already exists");
+  }
+
+  return trimmed;
+};
+
+// Helper to validate statuses, transitions and the initial status of a workflow together
+const validateDefinition = (
+  statuses: WorkflowStatusDto[],
+  transitions: WorkflowTransitionDto[],
+  initialStatus?: string
+): Pick<WorkflowResponse, "statuses" | "transitions" | "initialStatus"> => {
+  if (!Array.isArray(statuses) || statuses.length === 0) {
+    throw new Error("At least one status is required");
+  }
+
+  const normalizedStatuses = statuses.map((status) => {
+    const name = typeof status?.name === "string" ? status.name.trim() : "";
+    if (!name) {
+      throw new Error("Status name is required");
+    }
+    if (name.length > MAX_STATUS_NAME_LENGTH) {
+      throw new Error(`Invalid status name. Must be at most ${MAX_STATUS_NAME_LENGTH} characters`);
+    }
+    if (!Object.values(StatusCategory).includes(status.category)) {
+      throw new Error(
+        `Invalid category for status "${name}". Must be one of: ${Object.values(StatusCategory).join(", ")}`
+      );
+    }
+    return { name, category: status.category };
+  });
+
+  const seen = new Set<string>();
+  for (const status of normalizedStatuses) {
+    if (seen.has(status.name.toLowerCase())) {
+      throw new Error(`Invalid statuses: "${status.name}" is listed more than once`);
+    }
+    seen.add(status.name.toLowerCase());
+  }
+
+  const statusNames = new Set(normalizedStatuses.map((status) => status.name));
+
+  if (!Array.isArray(transitions)) {
+    throw new Error("Invalid transitions. Must be an array of { from, to } objects");
+  }
+
+  const transitionKeys = new Set<string>();
+  const normalizedTransitions = transitions.map((transition) => {
+    const from = typeof transition?.from === "string" ? transition.from.trim() : "";
+    const to = typeof transition?.to === "string" ? transition.to.trim() : "";
+    if (!statusNames.has(from) || !statusNames.has(to)) {
+      throw new Error(`Invalid transition from "${from}" to "${to}": both must be statuses of the workflow`);
+    }
+    if (from === to) {
+      throw new Error(`Invalid transition: "${from}" cannot transition to itself`);
+    }
+    const key = `${from}\u0000${to}`;
+    if (transitionKeys.has(key)) {
+      throw new Error(`Invalid transitions: "${from}" to "${to}" is listed more than once`);
+    }
+    transitionKeys.add(key);
+    return { from, to, requireComment: !!transition.requireComment };
+  });
+
+  const initial = initialStatus !== undefined ? initialStatus.trim() : normalizedStatuses[0].name;
+  if (!statusNames.has(initial)) {
+    throw new Error(`Invalid initialStatus: "${initial}" is not a status of the workflow`);
+  }
+
+  return { statuses: normalizedStatuses, transitions: normalizedTransitions, initialStatus: initial };
+};
+
+/**
+ * Make sure every status used by issues in the given projects exists in a workflow,
+ * so switching or editing workflows never strands an issue in an unknown status
+ */
+const assertStatusesCovered = async (
+  projectQuery: any,
+  statuses: WorkflowStatusDto[]
+): Promise<void> => {
+  const statusNames = statuses.map((status) => status.name);
+  const missing: string[] = await Issue.distinct("status", {
+    project: projectQuery,
+    status: { $nin: statusNames },
+  });
+
+  if (missing.length > 0) {
+    throw new Error(`Cannot apply workflow: issues still use statuses it does not have: ${missing.join(", ")}`);
+  }
+};
+
+/**
+ * Update the stored status category of issues in the given projects to match a workflow
+ */
+export const syncStatusCategories = async (projectQuery: any, statuses: WorkflowStatusDto[]): Promise<number> => {
+  let updated = 0;
+  for (const status of statuses) {
+    const result = await Issue.updateMany(
+      { project: projectQuery, status: status.name, statusCategory: { $ne: status.category } },
+      { $set: { statusCategory: status.category } },
+      { timestamps: false }
+    );
+    updated += result.modifiedCount;
+  }
+  return updated;
+};
+
+/**
+ * Load a workflow by ID, or the built-in workflow for null
+ */
+export const resolveWorkflow = async (workflowId: string | null): Promise<WorkflowResponse> => {
+  if (workflowId === null) {
+    return BUILT_IN_WORKFLOW;
+  }
+
+  if (!isValidObjectId(workflowId)) {
+    throw new Error("Invalid workflow ID format");
+  }
+
+  const workflow = await Workflow.findById(workflowId);
+  if (!workflow) {
+    throw new Error("Workflow not found");
+  }
+
+  return formatWorkflow(workflow);
+};
+
+/**
+ * Switch a project to another workflow (null for the built-in one). Every status its
+ * issues use must exist in the new workflow.
+ */
+export const assignProjectWorkflow = async (
+  projectId: mongoose.Types.ObjectId,
+  workflowId: string | null
+): Promise<void> => {
+  const workflow = await resolveWorkflow(workflowId);
+
+  await assertStatusesCovered(projectId, workflow.statuses);
+  await Project.updateOne(
+    { _id: projectId },
+    { workflow: workflowId ? new mongoose.Types.ObjectId(workflowId) : null }
+  );
+  await syncStatusCategories(projectId, workflow.statuses);
+};
+
+/**
+ * Get the workflow a project's issues follow
+ */
+export const getWorkflowForProject = async (
+  projectId: string | mongoose.Types.ObjectId
+): Promise<WorkflowResponse> => {
+  const project = await Project.findById(projectId).select("workflow");
+  if (!project) {
+    throw new Error("Project not found");
+  }
+
+  const workflow = project.workflow ? await Workflow.findById(project.workflow) : null;
+  return workflow ? formatWorkflow(workflow) : BUILT_IN_WORKFLOW;
+};
+
+/**
+ * Get the distinct workflows used by a set of projects (every project when null)
+ */
+export const getWorkflowsForProjects = async (
+  projectIds: mongoose.Types.ObjectId[] | null
+): Promise<WorkflowResponse[]> => {
+  const projectQuery = projectIds === null ? {} : { _id: { $in: projectIds } };
+  const [workflowIds, builtInCount] = await Promise.all([
+    Project.distinct("workflow", { ...projectQuery, workflow: { $ne: null } }),
+    Project.countDocuments({ ...projectQuery, workflow: null }),
+  ]);
+
+  const workflows = await Workflow.find({ _id: { $in: workflowIds } })
+    .collation(nameCollation)
+    .sort({ name: 1 });
+
+  return [...(builtInCount > 0 ? [BUILT_IN_WORKFLOW] : []), ...workflows.map((workflow) => formatWorkflow(workflow))];
+};
+
+/**
+ * Find a status of a workflow by name, or undefined if it does not have one
+ */
+export const findWorkflowStatus = (workflow: WorkflowResponse, name: string): WorkflowStatusDto | undefined => {
+  return workflow.statuses.find((status) => status.name === name);
+};
+
+/**
+ * Check that a workflow allows an issue to move between two statuses. Issues in a
+ * status the workflow does not know about may move to any of its statuses.
+ */
+export const assertTransitionAllowed = (
+  workflow: WorkflowResponse,
+  from: string,
+  to: string,
+  comment?: string
+): void => {
+  if (!findWorkflowStatus(workflow, to)) {
+    throw new Error(
+      `Invalid status. Must be one of: ${workflow.statuses.map((status) => status.name).join(", ")}`
+    );
+  }
+
+  if (from === to || !findWorkflowStatus(workflow, from)) {
+    return;
+  }
+
+  const transition = workflow.transitions.find((item) => item.from === from && item.to === to);
+  if (!transition) {
+    const allowed = workflow.transitions.filter((item) => item.from === from).map((item) => item.to);
+    throw new Error(
+      `Invalid status transition from "${from}" to "${to}". ${
+        allowed.length > 0 ? `Allowed: ${allowed.join(", ")}` : `"${from}" cannot be changed`
+      }`
+    );
+  }
+
+  if (transition.requireComment && (!comment || !comment.trim())) {
+    throw new Error(`A comment is required to move an issue from "${from}" to "${to}"`);
+  }
+};
+
+/**
+ * List the built-in workflow followed by every custom workflow alphabetically,
+ * with the number of projects using each
+ */
+export const getWorkflows = async (): Promise<WorkflowResponse[]> => {
+  const [workflows, counts, builtInCount] = await Promise.all([
+    Workflow.find().collation(nameCollation).sort({ name: 1 }),
+    Project.aggregate([
+      { $match: { workflow: { $ne: null } } },
+      { $group: { _id: "$workflow", count: { $sum: 1 } } },
+    ]),
+    Project.countDocuments({ workflow: null }),
+  ]);
+
+  const countById = new Map(counts.map((item) => [String(item._id), item.count as number]));
+  return [
+    { ...BUILT_IN_WORKFLOW, projectCount: builtInCount },
+    ...workflows.map((workflow) => formatWorkflow(workflow, countById.get(String(workflow._id)) || 0)),
+  ];
+};
+
+export const getWorkflowById = async (workflowId: string): Promise<WorkflowResponse> => {
+  if (!isValidObjectId(workflowId)) {
+    throw new Error("Invalid workflow ID format");
+  }
+
+  const workflow = await Workflow.findById(workflowId);
+  if (!workflow) {
+    throw new Error("Workflow not found");
+  }
+
+  const projectCount = await Project.countDocuments({ workflow: workflow._id });
+  return formatWorkflow(workflow, projectCount);
+};
+
+export const createWorkflow = async (createDto: CreateWorkflowDto, userId: string): Promise<WorkflowResponse> => {
+  if (!isValidObjectId(userId)) {
+    throw new Error("Invalid user ID format");
+  }
+
+  const name = await validateName(createDto.name || "");
+  const definition = validateDefinition(createDto.statuses, createDto.transitions, createDto.initialStatus);
+
+  const workflow = await Workflow.create({
+    name,
+    description: createDto.description ? createDto.description.trim() : "",
+    ...definition,
+    createdBy: new mongoose.Types.ObjectId(userId),
+  });
+
+  return formatWorkflow(workflow, 0);
+};
+
+/**
+ * Update a workflow. Statuses still used by issues in its projects cannot be removed;
+ * category changes are applied to those issues. When statuses change without new
+ * transitions, transitions involving removed statuses are dropped.
+ */
+export const updateWorkflow = async (workflowId: string, updateDto: UpdateWorkflowDto): Promise<WorkflowResponse> => {
+  if (!isValidObjectId(workflowId)) {
+    throw new Error("Invalid workflow ID format");
+  }
+
+  const workflow = await Workflow.findById(workflowId);
+  if (!workflow) {
+    throw new Error("Workflow not found");
+  }
+
+  if (updateDto.name !== undefined) {
+    workflow.name = await validateName(updateDto.name, workflowId);
+  }
+  if (updateDto.description !== undefined) {
+    workflow.description = updateDto.description ? updateDto.description.trim() : "";
+  }
+
+  const changesDefinition =
+    updateDto.statuses !== undefined || updateDto.transitions !== undefined || updateDto.initialStatus !== undefined;
+
+  if (changesDefinition) {
+    const current = formatWorkflow(workflow);
+    const statuses = updateDto.statuses ?? current.statuses;
+    const statusNames = new Set(
+      (Array.isArray(statuses) ? statuses : []).map((status) => String(status?.name || "").trim())
+    );
+
+    const definition = validateDefinition(
+      statuses,
+      updateDto.transitions ??
+        current.transitions.filter((transition) => statusNames.has(transition.from) && statusNames.has(transition.to)),
+      updateDto.initialStatus ?? (statusNames.has(current.initialStatus) ? current.initialStatus : undefined)
+    );
+
+    const projectIds = await Project.find({ workflow: workflow._id }).distinct("_id");
+    await assertStatusesCovered({ $in: projectIds }, definition.statuses);
+
+    workflow.set(definition);
+    await workflow.save();
+    await syncStatusCategories({ $in: projectIds }, definition.statuses);
+  } else {
+    await workflow.save();
+  }
+
+  return getWorkflowById(workflowId);
+};
+
+/**
+ * Delete a workflow that no project uses
+ */
+export const deleteWorkflow = async (workflowId: string): Promise<{ _id: string }> => {
+  if (!isValidObjectId(workflowId)) {
+    throw new Error("Invalid workflow ID format");
+  }
+
+  const workflow = await Workflow.findById(workflowId);
+  if (!workflow) {
+    throw new Error("Workflow not found");
+  }
+
+  const projectCount = await Project.countDocuments({ workflow: workflow._id });
+  if (projectCount > 0) {
+    throw new Error(
+      `Workflow is still used by ${projectCount} project(s). Assign them another workflow before deleting it`
+    );
+  }
+
+  await Workflow.deleteOne({ _id: workflow._id });
+
+  return { _id: workflowId };
+};
@@ -0,0 +1,43 @@
+import mongoose from "mongoose";
+import { ActivityType } from "../models/issueActivity.model";
+
+export interface RecordActivityParams {
+  issueId: string | mongoose.Types.ObjectId;
+  actorId?: string | null; // omit for system changes
+  type: ActivityType;
+  field?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  commentId?: string;
+}
+
+// Snapshot of a referenced user, label or project at the time of the change
+export interface ActivityRef {
+  _id: string;
+  name: string;
+}
+
+export interface ActivityResponse {
+  _id: string;
+  issue: string;
+  type: ActivityType;
+  actor: {
+    _id: string;
+    name: string;
+    email: string;
+    profileImage?: string;
+  } | null;
+  field?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  comment?: string;
+  createdAt: Date;
+}
+
+export interface PaginatedActivity {
+  activities: ActivityResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
@@ -0,0 +1,14 @@
+export interface AttachmentResponse {
+  _id: string;
+  issue: string;
+  comment: string | null;
+  filename: string;
+  mimeType: string;
+  size: number; // bytes
+  uploadedBy: {
+    _id: string;
+    name: string;
+    email: string;
+  } | null;
+  createdAt: Date;
+}
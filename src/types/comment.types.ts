@@ -1,3 +1,5 @@
+import { AttachmentResponse } from "./attachment.types";
+
 export interface CreateCommentDto {
   content: string;
   issue: string; // issueId
@@ -25,6 +27,12 @@ export interface CommentResponse {
     email: string;
     profileImage?: string;
   }>;
+  references: Array<{
+    _id: string;
+    key: string;
+  }>; // issues whose keys (e.g. BX-142) appear in the content
+  attachments: AttachmentResponse[];
+  version: number; // changes with every edit, sent as the ETag
   createdAt: Date;
   updatedAt: Date;
 }
@@ -1,42 +1,155 @@
-import { Priority, Status } from "../models/issue.model";
+import { Priority, StatusCategory } from "../models/issue.model";
+import { LabelMatch } from "./label.types";
+
+export enum IssueSort {
+  CREATED_AT = "createdAt",
+  UPDATED_AT = "updatedAt",
+  PRIORITY = "priority", // by severity, not alphabetically
+  STATUS = "status",
+  TITLE = "title",
+}
+
+export enum SortOrder {
+  ASC = "asc",
+  DESC = "desc",
+}
 
 export interface CreateIssueDto {
   title: string;
   description: string;
   priority: Priority;
-  status: Status;
+  status?: string; // defaults to the initial status of the project's workflow
   assignee?: string | null; // userId as string, or null for unassigned
   createdBy: string; // userId as string
+  project: string; // projectId
+  labels?: string[]; // labelIds
+  dueDate?: string | null; // ISO 8601 date or date-time; a plain date means the end of that day (UTC)
+  originalEstimate?: number | string | null; // minutes, or a duration such as "2d 4h"
+  remainingEstimate?: number | string | null; // defaults to the original estimate
 }
 
 export interface UpdateIssueDto {
   title?: string;
   description?: string;
   priority?: Priority;
-  status?: Status;
+  status?: string; // must be an allowed transition in the project's workflow
   assignee?: string | null; // userId as string, or null for unassigned
+  labels?: string[]; // labelIds, replaces the issue's labels
+  project?: string; // projectId, moves the issue to another project
+  dueDate?: string | null; // null clears the due date
+  originalEstimate?: number | string | null; // null clears the estimate
+  remainingEstimate?: number | string | null;
+  comment?: string; // posted with the update, required by some transitions
+}
+
+export interface BulkIssueChanges {
+  status?: string; // must be an allowed transition in each issue's workflow
+  priority?: Priority;
+  assignee?: string | null; // userId as string, or null for unassigned
+  comment?: string; // posted on every changed issue, required by some transitions
+}
+
+export interface BulkUpdateIssuesDto {
+  ids?: string[]; // issueIds, or
+  filter?: IssueFilterSet; // the issues matching these list filters
+  changes: BulkIssueChanges;
+}
+
+export interface BulkIssueResult {
+  _id: string;
+  title: string;
+  changed: string[]; // fields that changed, empty when the issue already had the new values
+  error: string | null; // why the issue cannot be changed
+}
+
+export interface BulkUpdateIssuesResponse {
+  updated: number; // issues that changed, 0 when any issue failed validation
+  results: BulkIssueResult[];
 }
 
 export interface IssueFilters {
-  status?: Status;
+  project?: string; // projectId, defaults to every project the user belongs to
+  status?: string;
+  statusCategory?: StatusCategory;
   priority?: Priority;
   assignee?: string; // userId
-  page?: number;
+  labels?: string[]; // labelIds
+  labelMatch?: LabelMatch; // how `labels` is applied (default: any)
+  dueBefore?: Date; // inclusive
+  dueAfter?: Date; // inclusive
+  overdue?: boolean; // past due and not done (true), or anything else (false)
+  includeArchived?: boolean;
+  q?: string; // full-text search across title, description and comments
+  query?: string; // query language, e.g. `status:"In Progress" assignee:me -label:wontfix`
+  sort?: IssueSort; // defaults to createdAt
+  order?: SortOrder; // defaults to desc for dates and priority, asc for status and title
+  after?: string; // cursor: the issues following it
+  before?: string; // cursor: the issues preceding it
+  page?: number; // ignored when a cursor is given
   limit?: number;
 }
 
+// The list filters that can be given as an object rather than as query parameters
+export type IssueFilterSet = Pick<
+  IssueFilters,
+  | "project"
+  | "status"
+  | "statusCategory"
+  | "priority"
+  | "assignee"
+  | "labels"
+  | "labelMatch"
+  | "dueBefore"
+  | "dueAfter"
+  | "overdue"
+  | "includeArchived"
+  | "q"
+  | "query"
+>;
+
 export interface PaginatedIssues {
   issues: any[];
   total: number;
-  page: number;
+  page?: number; // page-number mode only
   limit: number;
-  totalPages: number;
+  totalPages?: number; // page-number mode only
+  nextCursor: string | null; // pass as `after` for the next page, null on the last one
+  prevCursor: string | null; // pass as `before` for the previous page, null on the first one
+}
+
+export interface IssueSummaryOptions {
+  project?: string; // projectId, defaults to every project the user belongs to
+  includeArchived?: boolean;
+  assigneePage?: number;
+  assigneeLimit?: number;
+}
+
+export interface IssueSearchMatch {
+  score: number;
+  highlights: {
+    title: string; // HTML-escaped, matches wrapped in <mark>
+    description: string; // snippet around the first match
+    comment: {
+      _id: string;
+      snippet: string;
+    } | null; // best matching comment, if any
+  };
+}
+
+export interface PurgeIssueResponse {
+  _id: string;
+  deletedComments: number;
+  deletedNotifications: number;
+  deletedAttachments: number;
+  deletedWorkLogs: number;
 }
 
 export interface IssueSummary {
   total: number;
-  byStatus: {
-    [key in Status]: number;
+  overdue: number; // past due and not done
+  byStatus: Record<string, number>; // every status of the workflows in scope, in workflow order
+  byStatusCategory: {
+    [key in StatusCategory]: number;
   };
   byPriority: {
     [key in Priority]: number;
@@ -48,6 +161,12 @@ export interface IssueSummary {
     email: string | null;
     count: number;
   }>;
+  byLabel: Array<{
+    labelId: string | null;
+    name: string;
+    color: string | null;
+    count: number;
+  }>;
   assigneePagination?: {
     page: number;
     limit: number;
@@ -0,0 +1,27 @@
+export interface CreateLabelDto {
+  name: string;
+  color?: string; // hex color, defaults to grey
+  description?: string;
+}
+
+export interface UpdateLabelDto {
+  name?: string;
+  color?: string;
+  description?: string;
+}
+
+export interface LabelResponse {
+  _id: string;
+  name: string;
+  color: string;
+  description: string;
+  issueCount?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export enum LabelMatch {
+  ANY = "any",
+  ALL = "all",
+  NONE = "none",
+}
@@ -0,0 +1,40 @@
+export interface OidcConfig {
+  providerName: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+  jitProvisioning: boolean;
+  trustUnverifiedEmail: boolean; // accept ID tokens without an email_verified claim
+  allowedDomains: string[]; // empty = any email domain
+}
+
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+  id_token_signing_alg_values_supported?: string[];
+}
+
+export interface OidcIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat: number;
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  picture?: string;
+}
+
+export interface OidcAuthorizationRequest {
+  authorizationUrl: string;
+  state: string;
+}
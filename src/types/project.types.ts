@@ -0,0 +1,33 @@
+export interface CreateProjectDto {
+  name: string;
+  key?: string; // prefix of the project's issue keys, e.g. BX. Derived from the name if omitted
+  description?: string;
+  members?: string[]; // userIds, the creator is always added
+  workflow?: string | null; // workflowId, null or omitted for the built-in workflow
+}
+
+export interface UpdateProjectDto {
+  name?: string;
+  description?: string;
+  workflow?: string | null; // workflowId, or null to switch back to the built-in workflow
+}
+
+export interface ProjectMember {
+  _id: string;
+  name: string;
+  email: string;
+  profileImage?: string;
+}
+
+export interface ProjectResponse {
+  _id: string;
+  name: string;
+  key: string | null; // prefix of the project's issue keys, null until it has one
+  description: string;
+  members: ProjectMember[];
+  workflow: string | null;
+  createdBy: string;
+  issueCount?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,22 @@
+export enum QueryOperator {
+  EQUALS = ":",
+  GREATER_THAN = ">",
+  GREATER_THAN_OR_EQUAL = ">=",
+  LESS_THAN = "<",
+  LESS_THAN_OR_EQUAL = "<=",
+}
+
+export interface QueryValue {
+  text: string;
+  quoted: boolean;
+  position: number; // 1-based position in the query
+}
+
+// One `field:value` filter, or free text when `field` is null
+export interface QueryTerm {
+  field: string | null; // lower-cased
+  operator: QueryOperator;
+  values: QueryValue[]; // several for comma-separated lists (field:a,b); one for free text
+  negated: boolean; // prefixed with "-"
+  position: number; // 1-based position of the term in the query
+}
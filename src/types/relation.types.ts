@@ -0,0 +1,38 @@
+import { StatusCategory } from "../models/issue.model";
+
+// How a relation reads from one issue's side
+export enum RelationKind {
+  BLOCKS = "blocks",
+  BLOCKED_BY = "blocked_by",
+  DUPLICATES = "duplicates",
+  DUPLICATED_BY = "duplicated_by",
+  RELATES_TO = "relates_to",
+  PARENT_OF = "parent_of", // the other issue is a sub-task of this one
+  CHILD_OF = "child_of", // this issue is a sub-task of the other one
+}
+
+export interface CreateRelationDto {
+  type: RelationKind;
+  issue: string; // issueId of the other issue
+}
+
+export interface RelatedIssue {
+  _id: string;
+  key: string | null;
+  title: string;
+  status: string;
+  statusCategory: StatusCategory;
+  project: {
+    _id: string;
+    name: string;
+  } | null;
+  archivedAt: Date | null;
+}
+
+export interface IssueRelationResponse {
+  _id: string;
+  type: RelationKind; // from the point of view of the issue the relations were requested for
+  issue: RelatedIssue;
+  createdBy: string;
+  createdAt: Date;
+}
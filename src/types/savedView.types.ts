@@ -0,0 +1,42 @@
+import { IssueFilterSet, IssueSort, SortOrder } from "./issue.types";
+import { ViewVisibility } from "../models/savedView.model";
+
+// The list filters a view can store. `assignee` also accepts "me", meaning whoever runs the view.
+export type SavedViewFilters = IssueFilterSet;
+
+export interface CreateSavedViewDto {
+  name: string;
+  filters?: SavedViewFilters;
+  sort?: IssueSort | null;
+  order?: SortOrder | null;
+  visibility?: ViewVisibility; // defaults to private
+  showUnreadCount?: boolean; // defaults to false
+}
+
+export interface UpdateSavedViewDto {
+  name?: string;
+  filters?: SavedViewFilters; // replaces the stored filters
+  sort?: IssueSort | null;
+  order?: SortOrder | null;
+  visibility?: ViewVisibility;
+  showUnreadCount?: boolean;
+}
+
+export interface SavedViewResponse {
+  _id: string;
+  name: string;
+  filters: SavedViewFilters;
+  sort: IssueSort | null;
+  order: SortOrder | null;
+  visibility: ViewVisibility;
+  showUnreadCount: boolean;
+  unreadCount: number | null; // issues updated since you last opened the view, null when the badge is off
+  lastOpenedAt: Date | null; // when you last opened the view
+  owner: {
+    _id: string;
+    name: string;
+    email: string;
+  } | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,49 @@
+import { SecurityEventType } from "../models/securityEvent.model";
+
+export interface RecordSecurityEventParams {
+  type: SecurityEventType;
+  userId?: string | null;
+  email?: string;
+  ip?: string;
+  userAgent?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface SecurityEventFilters {
+  type?: SecurityEventType;
+  userId?: string;
+  email?: string;
+  ip?: string;
+  from?: Date;
+  to?: Date;
+  page?: number;
+  limit?: number;
+}
+
+export interface SecurityEventResponse {
+  _id: string;
+  type: SecurityEventType;
+  user: {
+    _id: string;
+    name: string;
+    email: string;
+  } | null;
+  email?: string;
+  ip?: string;
+  userAgent?: string;
+  details?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+export interface PaginatedSecurityEvents {
+  events: SecurityEventResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface ThrottleStatus {
+  locked: boolean;
+  retryAfterSeconds: number;
+}
@@ -0,0 +1,10 @@
+export interface SessionMetadata {
+  userAgent?: string;
+  ip?: string;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date; // when the refresh token expires
+}
@@ -0,0 +1,34 @@
+import { Permission } from "../config/permissions";
+
+export interface CreateTokenDto {
+  name: string;
+  scopes: Permission[];
+  expiresInDays?: number; // omit for a token that never expires
+}
+
+export interface UpdateTokenDto {
+  name?: string;
+}
+
+export interface TokenResponse {
+  _id: string;
+  name: string;
+  scopes: Permission[];
+  tokenPrefix: string;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  lastUsedIp?: string;
+  revokedAt: Date | null;
+  createdAt: Date;
+}
+
+export interface CreatedTokenResponse extends TokenResponse {
+  token: string; // raw token, only returned once
+}
+
+export interface TokenIdentity {
+  userId: string;
+  email: string;
+  tokenId: string;
+  scopes: Permission[];
+}
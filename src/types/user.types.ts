@@ -1,5 +1,14 @@
+import { Role } from "../models/user.model";
+import { StatusCategory } from "../models/issue.model";
+
 export interface LoginDto {
   email: string;
+  password: string;
+}
+
+export interface ChangePasswordDto {
+  currentPassword?: string; // required when the user already has a password
+  newPassword: string;
 }
 
 export interface UserResponse {
@@ -7,11 +16,72 @@ export interface UserResponse {
   email: string;
   name: string;
   profileImage?: string;
+  role: Role;
+  deactivatedAt: Date | null;
   createdAt: Date;
 }
 
+export interface UserFilters {
+  search?: string; // prefix match on name or email
+  includeDeactivated?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface PaginatedUsers {
+  users: UserResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface UserIssueCounts {
+  total: number;
+  byStatus: Record<string, number>; // statuses the user's issues are in
+  byStatusCategory: {
+    [key in StatusCategory]: number;
+  };
+}
+
+export interface UserProfileResponse extends UserResponse {
+  stats: {
+    assigned: UserIssueCounts;
+    created: UserIssueCounts;
+  };
+}
+
+export interface CreateUserDto {
+  name: string;
+  email: string;
+  role?: Role;
+  profileImage?: string;
+  password?: string; // omit to let the user sign in with a magic link and set their own
+}
+
+export interface UpdateProfileDto {
+  name?: string;
+  profileImage?: string | null;
+}
+
+export interface DeactivateUserDto {
+  reassignTo?: string | null; // userId to hand open issues to, or null to unassign them
+}
+
+export interface DeactivateUserResponse {
+  user: UserResponse;
+  openIssues: Array<{
+    _id: string;
+    title: string;
+    status: string;
+    priority: string;
+  }>;
+  reassigned: boolean;
+  reassignedTo: string | null;
+}
+
 export interface LoginResponse {
   user: UserResponse;
   token: string;
+  refreshToken: string;
 }
-
@@ -0,0 +1,11 @@
+export interface IssueWatcher {
+  _id: string;
+  name: string;
+  email: string;
+  profileImage?: string;
+}
+
+export interface IssueWatchersResponse {
+  watching: boolean; // whether the requesting user watches the issue
+  watchers: IssueWatcher[];
+}
@@ -0,0 +1,57 @@
+export interface CreateWorkLogDto {
+  duration: number | string; // minutes, or a duration such as "1h 30m"
+  date?: string; // ISO 8601 date or date-time, defaults to now
+  note?: string;
+  remainingEstimate?: number | string; // sets the issue's remaining estimate instead of reducing it by `duration`
+}
+
+export interface UpdateWorkLogDto {
+  duration?: number | string;
+  date?: string;
+  note?: string;
+}
+
+export interface WorkLogResponse {
+  _id: string;
+  issue: string;
+  user: {
+    _id: string;
+    name: string;
+    email: string;
+    profileImage?: string;
+  } | null;
+  duration: number; // minutes
+  date: Date;
+  note: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaginatedWorkLogs {
+  workLogs: WorkLogResponse[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+export interface TimeReportOptions {
+  from?: string; // ISO 8601 date or date-time, defaults to DEFAULT_REPORT_DAYS before `to`
+  to?: string; // defaults to now; a plain date means the end of that day (UTC)
+  project?: string; // projectId
+  user?: string; // userId
+}
+
+export interface TimeReport {
+  from: Date;
+  to: Date;
+  total: number; // minutes
+  byUser: Array<{
+    user: { _id: string; name: string; email: string } | null;
+    timeSpent: number;
+  }>;
+  byIssue: Array<{
+    issue: { _id: string; key: string | null; title: string };
+    timeSpent: number;
+  }>;
+}
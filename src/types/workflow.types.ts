@@ -0,0 +1,41 @@
+import { StatusCategory } from "../models/issue.model";
+
+export interface WorkflowStatusDto {
+  name: string;
+  category: StatusCategory;
+}
+
+export interface WorkflowTransitionDto {
+  from: string;
+  to: string;
+  requireComment?: boolean;
+}
+
+export interface CreateWorkflowDto {
+  name: string;
+  description?: string;
+  statuses: WorkflowStatusDto[];
+  initialStatus?: string; // defaults to the first status
+  transitions: WorkflowTransitionDto[];
+}
+
+export interface UpdateWorkflowDto {
+  name?: string;
+  description?: string;
+  statuses?: WorkflowStatusDto[];
+  initialStatus?: string;
+  transitions?: WorkflowTransitionDto[];
+}
+
+export interface WorkflowResponse {
+  _id: string | null; // null for the built-in workflow
+  name: string;
+  description: string;
+  builtIn: boolean;
+  statuses: WorkflowStatusDto[];
+  initialStatus: string;
+  transitions: Array<Required<WorkflowTransitionDto>>;
+  projectCount?: number;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
@@ -0,0 +1,19 @@
+/**
+ * Opaque pagination cursors. The payload is JSON encoded as base64url; clients
+ * should pass cursors back unchanged and never build them themselves.
+ */
+export const encodeCursor = (payload: Record<string, unknown>): string => {
+  return Buffer.from(JSON.stringify(payload), "utf8").toString("base64url");
+};
+
+/**
+ * Decode a cursor created by encodeCursor. Returns null for anything malformed.
+ */
+export const decodeCursor = <T extends Record<string, unknown>>(cursor: string): Partial<T> | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return payload && typeof payload === "object" && !Array.isArray(payload) ? payload : null;
+  } catch {
+    return null;
+  }
+};
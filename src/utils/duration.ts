@@ -0,0 +1,66 @@
+import { MAX_ESTIMATE_MINUTES, WORK_DAYS_PER_WEEK, WORK_HOURS_PER_DAY } from "../config/timeTracking";
+
+export const DURATION_FORMAT_HINT = "Must be a duration such as 1d 4h 30m (w, d, h, m), or a number of minutes";
+
+const unitMinutes = (unit: string): number => {
+  switch (unit) {
+    case "w":
+      return WORK_DAYS_PER_WEEK * WORK_HOURS_PER_DAY * 60;
+    case "d":
+      return WORK_HOURS_PER_DAY * 60;
+    case "h":
+      return 60;
+    default:
+      return 1;
+  }
+};
+
+const durationRegex = /^(?:\s*\d+(?:\.\d+)?\s*[wdhm])+\s*$/i;
+const durationPartRegex = /(\d+(?:\.\d+)?)\s*([wdhm])/gi;
+
+/**
+ * Parse a duration into whole minutes. Accepts a number of minutes or a string of
+ * weeks, days, hours and minutes such as "1d 4h 30m" or "1.5h", where a day and a
+ * week are working days and weeks. Returns null for anything else.
+ */
+export const parseDuration = (value: unknown): number | null => {
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value >= 0 ? value : null;
+  }
+
+  if (typeof value !== "string") {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10);
+  }
+  if (!durationRegex.test(trimmed)) {
+    return null;
+  }
+
+  let minutes = 0;
+  for (const [, amount, unit] of trimmed.matchAll(durationPartRegex)) {
+    minutes += parseFloat(amount) * unitMinutes(unit.toLowerCase());
+  }
+  return Math.round(minutes);
+};
+
+/**
+ * Validate an estimate given for `field`: a duration, or null to clear it
+ */
+export const toEstimate = (value: unknown, field: string): number | null => {
+  if (value === null) {
+    return null;
+  }
+
+  const minutes = parseDuration(value);
+  if (minutes === null) {
+    throw new Error(`Invalid ${field}. ${DURATION_FORMAT_HINT}`);
+  }
+  if (minutes > MAX_ESTIMATE_MINUTES) {
+    throw new Error(`Invalid ${field}. Must be at most ${MAX_ESTIMATE_MINUTES} minutes`);
+  }
+  return minutes;
+};
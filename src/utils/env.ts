@@ -0,0 +1,14 @@
+// Helper to read a positive whole number from the environment. Anything else (e.g. a typo) falls
+// back to the default instead of turning into NaN and silently disabling a limit.
+export const readPositiveInt = (name: string, fallback: number): number => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") {
+    return fallback;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    console.warn(`Ignoring ${name}=${raw}: must be a positive whole number. Using ${fallback}`);
+    return fallback;
+  }
+  return value;
+};
@@ -0,0 +1,22 @@
+/**
+ * ETag for a version of a document, e.g. "3"
+ */
+export const toETag = (version: number): string => `"${version}"`;
+
+/**
+ * Parse an If-Match header into the version the client last saw. No header or `*`
+ * means the client does not care which version it overwrites.
+ */
+export const parseIfMatch = (header: string | undefined): { version?: number; error?: string } => {
+  if (header === undefined || header.trim() === "*") {
+    return {};
+  }
+
+  // Weak ETags (W/"3") are accepted as well, since proxies may weaken them
+  const match = /^(?:W\/)?"(\d+)"$/.exec(header.trim());
+  if (!match) {
+    return { error: 'Invalid If-Match header. Must be a single ETag such as "3", as returned by the API' };
+  }
+
+  return { version: parseInt(match[1], 10) };
+};
@@ -0,0 +1,140 @@
+import { Priority, StatusCategory } from "../models/issue.model";
+import { IssueFilterSet } from "../types/issue.types";
+import { LabelMatch } from "../types/label.types";
+import { isValidObjectId, parseDate } from "./validation";
+import { parseQuery } from "./queryParser";
+import { MAX_QUERY_LENGTH, MAX_SEARCH_QUERY_LENGTH } from "../config/search";
+
+// The list filters that can be given as an object, in the order they are documented
+export const ISSUE_FILTER_KEYS: Array<keyof IssueFilterSet> = [
+  "project",
+  "status",
+  "statusCategory",
+  "priority",
+  "assignee",
+  "labels",
+  "labelMatch",
+  "dueBefore",
+  "dueAfter",
+  "overdue",
+  "includeArchived",
+  "q",
+  "query",
+];
+
+/**
+ * Validate a filter object (as stored in a saved view or sent with a bulk update) the
+ * same way the list endpoints validate their query parameters. Dates are parsed, and
+ * the query language is checked for syntax errors only.
+ */
+export const parseIssueFilters = (filters: unknown): IssueFilterSet => {
+  if (filters === undefined || filters === null) {
+    return {};
+  }
+  if (typeof filters !== "object" || Array.isArray(filters)) {
+    throw new Error("Invalid filters. Must be an object");
+  }
+
+  const input = filters as Record<string, unknown>;
+  const unknownKey = Object.keys(input).find((key) => !ISSUE_FILTER_KEYS.includes(key as keyof IssueFilterSet));
+  if (unknownKey) {
+    throw new Error(`Invalid filters: unknown filter "${unknownKey}". Use: ${ISSUE_FILTER_KEYS.join(", ")}`);
+  }
+
+  const result: IssueFilterSet = {};
+  const isSet = (key: string) => input[key] !== undefined && input[key] !== null && input[key] !== "";
+
+  if (isSet("project")) {
+    if (typeof input.project !== "string" || !isValidObjectId(input.project)) {
+      throw new Error("Invalid project ID format");
+    }
+    result.project = input.project;
+  }
+
+  if (isSet("status")) {
+    if (typeof input.status !== "string") {
+      throw new Error("Invalid status. Must be a status name");
+    }
+    result.status = input.status;
+  }
+
+  if (isSet("statusCategory")) {
+    if (!Object.values(StatusCategory).includes(input.statusCategory as StatusCategory)) {
+      throw new Error(`Invalid statusCategory. Must be one of: ${Object.values(StatusCategory).join(", ")}`);
+    }
+    result.statusCategory = input.statusCategory as StatusCategory;
+  }
+
+  if (isSet("priority")) {
+    if (!Object.values(Priority).includes(input.priority as Priority)) {
+      throw new Error(`Invalid priority. Must be one of: ${Object.values(Priority).join(", ")}`);
+    }
+    result.priority = input.priority as Priority;
+  }
+
+  if (isSet("assignee")) {
+    const assignee = input.assignee;
+    if (typeof assignee !== "string" || (assignee !== "me" && assignee !== "unassigned" && !isValidObjectId(assignee))) {
+      throw new Error("Invalid assignee. Must be a user ID, 'unassigned' or 'me'");
+    }
+    result.assignee = assignee;
+  }
+
+  if (isSet("labels")) {
+    const labels = input.labels;
+    if (!Array.isArray(labels) || labels.some((labelId) => typeof labelId !== "string" || !isValidObjectId(labelId))) {
+      throw new Error("Invalid labels. Must be an array of label IDs");
+    }
+    if (labels.length > 0) {
+      result.labels = [...new Set(labels as string[])];
+    }
+  }
+
+  if (isSet("labelMatch")) {
+    if (!Object.values(LabelMatch).includes(input.labelMatch as LabelMatch)) {
+      throw new Error(`Invalid labelMatch. Must be one of: ${Object.values(LabelMatch).join(", ")}`);
+    }
+    result.labelMatch = input.labelMatch as LabelMatch;
+  }
+
+  // A plain dueBefore date includes that whole day, as in the list endpoints
+  for (const key of ["dueBefore", "dueAfter"] as const) {
+    if (isSet(key)) {
+      const date = typeof input[key] === "string" ? parseDate(input[key] as string, key === "dueBefore") : null;
+      if (!date) {
+        throw new Error(`Invalid ${key}. Must be an ISO 8601 date such as 2025-03-31 or a date-time`);
+      }
+      result[key] = date;
+    }
+  }
+  if (result.dueBefore && result.dueAfter && result.dueAfter > result.dueBefore) {
+    throw new Error("Invalid due date range: dueAfter must not be later than dueBefore");
+  }
+
+  for (const key of ["overdue", "includeArchived"] as const) {
+    if (isSet(key)) {
+      if (typeof input[key] !== "boolean") {
+        throw new Error(`Invalid ${key}. Must be true or false`);
+      }
+      result[key] = input[key] as boolean;
+    }
+  }
+
+  if (isSet("q")) {
+    if (typeof input.q !== "string" || input.q.length > MAX_SEARCH_QUERY_LENGTH) {
+      throw new Error(`Invalid search query. Must be a string of at most ${MAX_SEARCH_QUERY_LENGTH} characters`);
+    }
+    result.q = input.q;
+  }
+
+  // Syntax errors are caught now; unknown labels, projects or users only when the view runs
+  if (isSet("query")) {
+    if (typeof input.query !== "string" || input.query.length > MAX_QUERY_LENGTH) {
+      throw new Error(`Invalid query. Must be a string of at most ${MAX_QUERY_LENGTH} characters`);
+    }
+    parseQuery(input.query);
+    result.query = input.query;
+  }
+
+  return result;
+};
@@ -1,11 +1,13 @@
 import jwt from "jsonwebtoken";
 
 const JWT_SECRET = (process.env.JWT_SECRET) as string;
-const JWT_EXPIRES_IN = (process.env.JWT_EXPIRES_IN) as string;
+// Access tokens are short-lived; sessions are kept alive with refresh tokens
+const JWT_EXPIRES_IN = (process.env.JWT_EXPIRES_IN || "15m") as string;
 
 export interface JWTPayload {
   userId: string;
   email: string;
+  sessionId: string;
 }
 
 export const generateToken = (payload: JWTPayload): string => {
@@ -0,0 +1,81 @@
+import fs from "fs/promises";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Prints outgoing mail to the server log. Default for local development.
+ */
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(
+      `[mail] From: ${message.from}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`
+    );
+  },
+};
+
+/**
+ * Appends outgoing mail as JSON lines to a file, handy for inspecting links locally
+ */
+export const createFileTransport = (filePath: string): MailTransport => ({
+  async send(message) {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const entry = { ...message, sentAt: new Date().toISOString() };
+    await fs.appendFile(filePath, `${JSON.stringify(entry)}\n`, "utf8");
+  },
+});
+
+const createDefaultTransport = (): MailTransport => {
+  // Mail carries live sign-in links, so it is only printed to the log when asked for (or in development)
+  const transport = process.env.MAIL_TRANSPORT || (process.env.NODE_ENV === "production" ? "" : "console");
+
+  switch (transport) {
+    case "":
+      throw new Error("MAIL_TRANSPORT is not set. Set it or call setMailTransport() before starting in production");
+    case "console":
+      return consoleTransport;
+    case "file":
+      return createFileTransport(process.env.MAIL_FILE_PATH || "mail/outbox.jsonl");
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+};
+
+let activeTransport: MailTransport | null = null;
+
+/**
+ * Replace the mail transport (e.g. with an SMTP or provider-backed implementation)
+ */
+export const setMailTransport = (transport: MailTransport): void => {
+  activeTransport = transport;
+};
+
+/**
+ * Set up the configured transport unless one was plugged in, so a missing configuration
+ * fails at startup instead of on the first sign-in
+ */
+export const ensureMailTransport = (): MailTransport => {
+  if (!activeTransport) {
+    activeTransport = createDefaultTransport();
+  }
+  return activeTransport;
+};
+
+/**
+ * Send an email through the configured transport
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  await ensureMailTransport().send({
+    ...message,
+    from: process.env.MAIL_FROM || "BXTrack <no-reply@bxtrack.local>",
+  });
+};
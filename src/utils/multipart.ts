@@ -0,0 +1,157 @@
+import { Request } from "express";
+
+export interface UploadedFile {
+  filename: string;
+  mimeType: string; // as declared by the client, lowercased
+  data: Buffer;
+}
+
+// Room for the part headers and boundaries around the file itself
+const MULTIPART_OVERHEAD = 64 * 1024;
+const MAX_FILENAME_LENGTH = 255;
+
+// Helper to read the request body, giving up as soon as it grows past the limit
+const readBody = (req: Request, limit: number, tooLargeMessage: string): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    const declared = parseInt(req.headers["content-length"] || "", 10);
+    if (declared > limit) {
+      req.resume();
+      reject(new Error(tooLargeMessage));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let done = false;
+
+    req.on("data", (chunk: Buffer) => {
+      if (done) return;
+      size += chunk.length;
+      if (size > limit) {
+        // Drop the rest of the upload so the error response can still be sent
+        done = true;
+        chunks.length = 0;
+        reject(new Error(tooLargeMessage));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (!done) {
+        done = true;
+        resolve(Buffer.concat(chunks));
+      }
+    });
+    req.on("error", (error) => {
+      if (!done) {
+        done = true;
+        reject(error);
+      }
+    });
+  });
+};
+
+// Helper to pull a parameter out of a header value, e.g. name="file"
+const getHeaderParam = (header: string, param: string): string | undefined => {
+  const match = new RegExp(`(?:^|;)\\s*${param}=(?:"((?:[^"\\\\]|\\\\.)*)"|([^;]*))`, "i").exec(header);
+  if (!match) {
+    return undefined;
+  }
+  return match[1] !== undefined ? match[1].replace(/\\(.)/g, "$1") : match[2].trim();
+};
+
+// Helper to turn whatever the client sent as a filename into a safe display name
+const cleanFilename = (raw: string): string => {
+  // Some browsers send the full client-side path
+  const base = raw.split(/[\\/]/).pop() || "";
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, "").trim().slice(0, MAX_FILENAME_LENGTH);
+  return cleaned || "file";
+};
+
+// Helper to read the filename of a part, preferring the UTF-8 form (filename*=UTF-8''...)
+const getFilename = (disposition: string): string | undefined => {
+  const extended = getHeaderParam(disposition, "filename\\*");
+  if (extended) {
+    const match = /^UTF-8''(.*)$/i.exec(extended);
+    if (match) {
+      try {
+        return decodeURIComponent(match[1]);
+      } catch {
+        // Fall back to the plain filename
+      }
+    }
+  }
+  return getHeaderParam(disposition, "filename");
+};
+
+/**
+ * Read a multipart/form-data request and return the file sent in the given field.
+ * The whole body is kept in memory, so it is capped at the largest allowed file.
+ */
+export const readMultipartFile = async (req: Request, field: string, maxSize: number): Promise<UploadedFile> => {
+  const contentType = req.headers["content-type"] || "";
+  const boundary = /^multipart\/form-data/i.test(contentType) ? getHeaderParam(contentType, "boundary") : undefined;
+  if (!boundary) {
+    throw new Error(`Invalid request. Must be multipart/form-data with the file in a "${field}" field`);
+  }
+
+  const maxSizeMb = Math.round((maxSize / (1024 * 1024)) * 10) / 10;
+  const tooLargeMessage = `File too large. Attachments can be at most ${maxSizeMb} MB`;
+  const body = await readBody(req, maxSize + MULTIPART_OVERHEAD, tooLargeMessage);
+
+  // Every boundary but the first follows a line break; add one so they all look alike
+  const data = Buffer.concat([Buffer.from("\r\n"), body]);
+  const delimiter = Buffer.from(`\r\n--${boundary}`);
+  const headerEnd = Buffer.from("\r\n\r\n");
+
+  let position = data.indexOf(delimiter);
+  if (position === -1) {
+    throw new Error("Invalid multipart body: boundary not found");
+  }
+
+  while (true) {
+    let start = position + delimiter.length;
+    // "--" right after a boundary closes the body
+    if (data.subarray(start, start + 2).toString() === "--") {
+      break;
+    }
+    start = data.indexOf("\r\n", start) + 2;
+
+    const next = data.indexOf(delimiter, start);
+    if (start < 2 || next === -1) {
+      throw new Error("Invalid multipart body: missing closing boundary");
+    }
+
+    const part = data.subarray(start, next);
+    const split = part.indexOf(headerEnd);
+    if (split === -1) {
+      throw new Error("Invalid multipart body: part without headers");
+    }
+
+    const headers: Record<string, string> = {};
+    for (const line of part.subarray(0, split).toString("utf8").split("\r\n")) {
+      const colon = line.indexOf(":");
+      if (colon > 0) {
+        headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+      }
+    }
+
+    const disposition = headers["content-disposition"] || "";
+    const filename = getFilename(disposition);
+    if (getHeaderParam(disposition, "name") === field && filename !== undefined) {
+      const fileData = part.subarray(split + headerEnd.length);
+      if (fileData.length > maxSize) {
+        throw new Error(tooLargeMessage);
+      }
+      return {
+        filename: cleanFilename(filename),
+        mimeType: (headers["content-type"] || "application/octet-stream").split(";")[0].trim().toLowerCase(),
+        data: Buffer.from(fileData),
+      };
+    }
+
+    position = next;
+  }
+
+  throw new Error(`A file in the "${field}" field is required`);
+};
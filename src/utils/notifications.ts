@@ -75,28 +75,8 @@ export const createNotificationsForUsers = async (
 };
 
 /**
- * Create notification for all users except the sender
+ * Link to an issue for notifications, using its key when it has one
  */
-export const createNotificationForAllUsers = async (
-  senderId: string | mongoose.Types.ObjectId,
-  params: Omit<CreateNotificationParams, "recipientId">
-): Promise<void> => {
-  try {
-    const senderIdObj =
-      typeof senderId === "string" ? new mongoose.Types.ObjectId(senderId) : senderId;
-
-    // Get all users except the sender
-    const users = await User.find({ _id: { $ne: senderIdObj } }).select("_id");
-    const recipientIds: (string | mongoose.Types.ObjectId)[] = users.map((user) => 
-      user._id as mongoose.Types.ObjectId
-    );
-
-    if (recipientIds.length > 0) {
-      await createNotificationsForUsers(recipientIds, params);
-    }
-  } catch (error) {
-    console.error("Error creating notifications for all users:", error);
-    // Don't throw error - notifications are non-critical
-  }
+export const getIssueLink = (issue: { _id: unknown; key?: string | null }): string => {
+  return `/issues/${issue.key || String(issue._id)}`;
 };
-
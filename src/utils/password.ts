@@ -0,0 +1,56 @@
+import crypto from "crypto";
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const scrypt = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(derivedKey);
+    });
+  });
+
+/**
+ * Hash a password with scrypt. The result has the form "scrypt$<salt>$<hash>"
+ * so the algorithm can be changed later without breaking stored hashes.
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const derivedKey = await scrypt(password, salt);
+  return `scrypt$${salt.toString("hex")}$${derivedKey.toString("hex")}`;
+};
+
+/**
+ * Compare a password against a stored hash in constant time
+ */
+export const verifyPassword = async (password: string, storedHash: string): Promise<boolean> => {
+  const [algorithm, saltHex, hashHex] = storedHash.split("$");
+  if (algorithm !== "scrypt" || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, "hex");
+  const derivedKey = await scrypt(password, Buffer.from(saltHex, "hex"));
+
+  return expected.length === derivedKey.length && crypto.timingSafeEqual(expected, derivedKey);
+};
+
+/**
+ * Generate a random URL-safe token (used for magic links)
+ */
+export const generateRandomToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString("base64url");
+};
+
+/**
+ * Hash a random token for storage. Tokens are high-entropy, so a plain SHA-256 is enough.
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash("sha256").update(token).digest("hex");
+};
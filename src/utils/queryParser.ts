@@ -0,0 +1,118 @@
+import { QueryOperator, QueryTerm, QueryValue } from "../types/query.types";
+
+const FIELD_PATTERN = /^([A-Za-z]+):/;
+const OPERATOR_PATTERN = /^(>=|<=|>|<|=)/;
+
+/**
+ * Build the error thrown for a problem in a query, pointing at its 1-based position
+ */
+export const queryError = (position: number, message: string): Error => {
+  return new Error(`Invalid query at position ${position}: ${message}`);
+};
+
+const isWhitespace = (char: string | undefined): boolean => char !== undefined && /\s/.test(char);
+
+/**
+ * Parse a search query such as `status:"In Progress" priority:>=Medium -label:wontfix "login timeout"`
+ * into terms. Grammar:
+ *
+ * - `field:value`, `field:"quoted value"` and `field:a,b` (any of several values)
+ * - `field:>value`, `>=`, `<` and `<=` for comparisons
+ * - bare words and "quoted phrases" for free text
+ * - a leading `-` negates any term
+ *
+ * Which fields exist and what their values mean is left to the caller.
+ */
+export const parseQuery = (input: string): QueryTerm[] => {
+  const terms: QueryTerm[] = [];
+  let index = 0;
+
+  // Helper to read a quoted or bare value starting at `index`
+  const readValue = (stopAtComma: boolean): QueryValue => {
+    const start = index;
+
+    if (input[index] === '"') {
+      const end = input.indexOf('"', index + 1);
+      if (end === -1) {
+        throw queryError(start + 1, "unterminated quote");
+      }
+      const text = input.slice(index + 1, end);
+      if (!text.trim()) {
+        throw queryError(start + 1, "empty quoted value");
+      }
+      index = end + 1;
+      return { text, quoted: true, position: start + 1 };
+    }
+
+    while (index < input.length && !isWhitespace(input[index]) && !(stopAtComma && input[index] === ",")) {
+      if (input[index] === '"') {
+        throw queryError(index + 1, "unexpected quote inside a value");
+      }
+      index++;
+    }
+    return { text: input.slice(start, index), quoted: false, position: start + 1 };
+  };
+
+  // Helper to make sure a term is followed by whitespace or the end of the query
+  const expectTermEnd = (): void => {
+    if (index < input.length && !isWhitespace(input[index])) {
+      throw queryError(index + 1, `unexpected "${input[index]}", expected a space`);
+    }
+  };
+
+  while (index < input.length) {
+    if (isWhitespace(input[index])) {
+      index++;
+      continue;
+    }
+
+    const position = index + 1;
+    let negated = false;
+    if (input[index] === "-") {
+      negated = true;
+      index++;
+      if (index >= input.length || isWhitespace(input[index])) {
+        throw queryError(position, 'expected a term after "-"');
+      }
+    }
+
+    const fieldMatch = FIELD_PATTERN.exec(input.slice(index));
+    if (!fieldMatch) {
+      const value = readValue(false);
+      expectTermEnd();
+      terms.push({ field: null, operator: QueryOperator.EQUALS, values: [value], negated, position });
+      continue;
+    }
+
+    const field = fieldMatch[1].toLowerCase();
+    index += fieldMatch[0].length;
+
+    let operator = QueryOperator.EQUALS;
+    const operatorMatch = OPERATOR_PATTERN.exec(input.slice(index));
+    if (operatorMatch) {
+      operator = operatorMatch[1] === "=" ? QueryOperator.EQUALS : (operatorMatch[1] as QueryOperator);
+      index += operatorMatch[0].length;
+    }
+
+    const values: QueryValue[] = [];
+    for (;;) {
+      if (index >= input.length || isWhitespace(input[index]) || input[index] === ",") {
+        throw queryError(index + 1, `missing value for "${field}"`);
+      }
+      values.push(readValue(true));
+
+      if (input[index] !== ",") {
+        break;
+      }
+      if (operator !== QueryOperator.EQUALS) {
+        throw queryError(index + 1, `a list of values cannot be used with "${operator}"`);
+      }
+      index++;
+    }
+    expectTermEnd();
+
+    terms.push({ field, operator, values, negated, position });
+  }
+
+  return terms;
+};
@@ -0,0 +1,80 @@
+import { escapeRegex } from "./validation";
+
+const SNIPPET_LENGTH = 160;
+
+const htmlEscapes: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/[&<>"']/g, (char) => htmlEscapes[char]);
+};
+
+/**
+ * Split a search query into the words and phrases to highlight. Follows MongoDB's
+ * $text syntax: quoted phrases stay together and negated terms (-word) are dropped.
+ */
+export const getSearchTerms = (q: string): string[] => {
+  const terms: string[] = [];
+  const pattern = /(-?)"([^"]+)"|(-?)(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(q)) !== null) {
+    const negated = match[1] || match[3];
+    const term = (match[2] ?? match[4]).replace(/^\W+|\W+$/g, "");
+    if (!negated && term) {
+      terms.push(term.toLowerCase());
+    }
+  }
+
+  return [...new Set(terms)];
+};
+
+// Helper to match any term at the start of a word, plus its word ending ("login" also marks "logins")
+const buildTermPattern = (terms: string[]): RegExp | null => {
+  if (terms.length === 0) {
+    return null;
+  }
+  const alternatives = [...terms].sort((a, b) => b.length - a.length).map(escapeRegex);
+  return new RegExp(`\\b(?:${alternatives.join("|")})\\w*`, "gi");
+};
+
+/**
+ * HTML-escape text and wrap every matching term in <mark> tags
+ */
+export const highlight = (text: string, terms: string[]): string => {
+  const pattern = buildTermPattern(terms);
+  if (!pattern) {
+    return escapeHtml(text);
+  }
+
+  let result = "";
+  let lastIndex = 0;
+  for (const match of text.matchAll(pattern)) {
+    result += escapeHtml(text.slice(lastIndex, match.index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+    lastIndex = match.index! + match[0].length;
+  }
+
+  return result + escapeHtml(text.slice(lastIndex));
+};
+
+/**
+ * Cut a highlighted excerpt around the first matching term. Falls back to the start of
+ * the text when no term appears literally (e.g. it only matched through stemming).
+ */
+export const buildSnippet = (text: string, terms: string[], length: number = SNIPPET_LENGTH): string => {
+  const pattern = buildTermPattern(terms);
+  const match = pattern ? pattern.exec(text) : null;
+
+  // Start a little before the match so it has some leading context
+  let start = match ? Math.max(0, match.index - Math.floor(length / 3)) : 0;
+  const end = Math.min(text.length, start + length);
+  start = Math.max(0, end - length);
+
+  const excerpt = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${highlight(excerpt, terms)}${end < text.length ? "…" : ""}`;
+};
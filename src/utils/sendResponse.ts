@@ -9,6 +9,7 @@ interface SuccessResponse<T> {
 interface ErrorResponse {
   success: false;
   message: string;
+  data?: unknown; // details the client can act on, e.g. which items of a bulk request failed
   error?: any;
 }
 
@@ -31,11 +32,13 @@ export const sendError = (
   res: Response,
   message: string,
   statusCode: number = 500,
-  error?: any
+  error?: any,
+  data?: unknown
 ): void => {
   const response: ErrorResponse = {
     success: false,
     message,
+    ...(data !== undefined && { data }),
     ...(process.env.NODE_ENV === "development" && error && { error }),
   };
   res.status(statusCode).json(response);
@@ -0,0 +1,74 @@
+import fs from "fs";
+import fsp from "fs/promises";
+import path from "path";
+import { Readable } from "stream";
+import { ATTACHMENT_DIR, ATTACHMENT_STORAGE } from "../config/attachments";
+
+export interface AttachmentStorage {
+  save(key: string, data: Buffer): Promise<void>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Keeps files on the local disk under one directory. Default storage.
+ */
+export const createLocalStorage = (dir: string): AttachmentStorage => {
+  // Keys are generated by the server, but never let one point outside the directory
+  const resolve = (key: string): string => {
+    const root = path.resolve(dir);
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async save(key, data) {
+      const filePath = resolve(key);
+      await fsp.mkdir(path.dirname(filePath), { recursive: true });
+      await fsp.writeFile(filePath, data);
+    },
+    async read(key) {
+      const filePath = resolve(key);
+      try {
+        await fsp.access(filePath);
+      } catch {
+        throw new Error("Attachment file not found");
+      }
+      return fs.createReadStream(filePath);
+    },
+    async remove(key) {
+      await fsp.rm(resolve(key), { force: true });
+    },
+  };
+};
+
+const createDefaultStorage = (): AttachmentStorage => {
+  switch (ATTACHMENT_STORAGE) {
+    case "local":
+      return createLocalStorage(ATTACHMENT_DIR);
+    default:
+      throw new Error(`Unknown ATTACHMENT_STORAGE: ${ATTACHMENT_STORAGE}`);
+  }
+};
+
+let activeStorage: AttachmentStorage | null = null;
+
+/**
+ * Replace the attachment storage (e.g. with an S3 or other object store implementation)
+ */
+export const setAttachmentStorage = (storage: AttachmentStorage): void => {
+  activeStorage = storage;
+};
+
+/**
+ * The configured attachment storage
+ */
+export const getAttachmentStorage = (): AttachmentStorage => {
+  if (!activeStorage) {
+    activeStorage = createDefaultStorage();
+  }
+  return activeStorage;
+};
@@ -7,3 +7,42 @@ export const isValidObjectId = (id: string | null | undefined): boolean => {
   return mongoose.Types.ObjectId.isValid(id);
 };
 
+// Project keys: 2-10 letters or digits starting with a letter, e.g. BX
+export const PROJECT_KEY_REGEX = /^[A-Z][A-Z0-9]{1,9}$/;
+
+// Issue keys: the project key and the issue's number in that project, e.g. BX-142
+export const ISSUE_KEY_REGEX = /^[A-Z][A-Z0-9]{1,9}-[1-9]\d*$/;
+
+// Issue keys are case-insensitive, so bx-142 works too
+export const isIssueKey = (value: string | null | undefined): boolean => {
+  return !!value && ISSUE_KEY_REGEX.test(value.toUpperCase());
+};
+
+// Escape user input so it can be used literally inside a regular expression
+export const escapeRegex = (value: string): string => {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+};
+
+const dateOnlyRegex = /^\d{4}-\d{2}-\d{2}$/;
+const dateTimeRegex = /^\d{4}-\d{2}-\d{2}T/;
+
+/**
+ * Parse an ISO 8601 date (`2025-03-31`) or date-time. A date without a time is read
+ * as the start of that day in UTC, or its last millisecond when `endOfDay` is set.
+ * Returns null for anything else, including impossible dates such as Feb 30.
+ */
+export const parseDate = (value: string, endOfDay: boolean = false): Date | null => {
+  const trimmed = value.trim();
+
+  if (dateOnlyRegex.test(trimmed)) {
+    const date = new Date(`${trimmed}T${endOfDay ? "23:59:59.999" : "00:00:00.000"}Z`);
+    return !isNaN(date.getTime()) && date.toISOString().startsWith(trimmed) ? date : null;
+  }
+
+  if (!dateTimeRegex.test(trimmed)) {
+    return null;
+  }
+
+  const date = new Date(trimmed);
+  return isNaN(date.getTime()) ? null : date;
+};